@@ -1,7 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-const HELIUS_API_KEY = "2a3ff752-d3ef-4b7c-a44a-159dfe9538b6"
-const HELIUS_RPC_URL = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { withCacheStatus } from "@/lib/cache"
+import { TransactionLoader } from "@/lib/transaction-loader"
 
 interface Node {
   id: string
@@ -21,7 +21,7 @@ interface GraphData {
   links: Link[]
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCacheStatus(async (request: NextRequest) => {
   try {
     const { address } = await request.json()
 
@@ -30,9 +30,11 @@ export async function POST(request: NextRequest) {
     }
 
     // Fetch deployer network data
-    const networkData = await getDeployerNetwork(address)
+    const startedAt = Date.now()
+    const loader = new TransactionLoader()
+    const networkData = await getDeployerNetwork(address, loader)
 
-    return NextResponse.json(networkData)
+    return NextResponse.json({ ...networkData, timing: { totalMs: Date.now() - startedAt, ...loader.stats } })
   } catch (error) {
     console.error("Error in deployer-network API:", error)
     return NextResponse.json(
@@ -40,12 +42,12 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     )
   }
-}
+})
 
-async function getDeployerNetwork(address: string): Promise<GraphData> {
+async function getDeployerNetwork(address: string, loader: TransactionLoader): Promise<GraphData> {
   try {
     // Get transactions for the deployer
-    const transactions = await getTransactions(address)
+    const transactions = await getTransactions(address, loader)
 
     // Process transactions to build network graph
     const graphData = buildNetworkGraph(address, transactions)
@@ -57,73 +59,18 @@ async function getDeployerNetwork(address: string): Promise<GraphData> {
   }
 }
 
-async function getTransactions(address: string) {
+async function getTransactions(address: string, loader: TransactionLoader) {
   try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: "my-id",
-        method: "getSignaturesForAddress",
-        params: [address, { limit: 50 }],
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    if (data.error) {
-      throw new Error(`RPC error: ${data.error.message || JSON.stringify(data.error)}`)
-    }
-
-    const signatures = data.result.map((item: any) => item.signature)
+    const signatures = await getChainDataProvider().getSignaturesForAddress(address, { limit: 50 })
 
     // Get transaction details
-    const txDetails = await getTransactionDetails(signatures)
-
-    return txDetails
+    return await loader.loadTransactions(signatures.map((item) => item.signature))
   } catch (error) {
     console.error("Error fetching transactions:", error)
     return []
   }
 }
 
-async function getTransactionDetails(signatures: string[]) {
-  if (signatures.length === 0) return []
-
-  try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: "my-id",
-        method: "getTransactions",
-        params: [signatures, { maxSupportedTransactionVersion: 0 }],
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    if (data.error) {
-      throw new Error(`RPC error: ${data.error.message || JSON.stringify(data.error)}`)
-    }
-
-    return data.result || []
-  } catch (error) {
-    console.error("Error fetching transaction details:", error)
-    return []
-  }
-}
-
 function buildNetworkGraph(deployerAddress: string, transactions: any[]): GraphData {
   // Initialize graph data
   const nodes: Map<string, Node> = new Map()
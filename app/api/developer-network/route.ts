@@ -1,6 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-const HELIUS_RPC_URL = process.env.HELIUS_RPC_URL || ""
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { withCacheStatus } from "@/lib/cache"
+import { TransactionLoader } from "@/lib/transaction-loader"
+import { getAddressLabel, getEntityCategory } from "@/lib/entity-registry"
 
 interface DeveloperNode {
   id: string
@@ -26,7 +28,7 @@ interface DeveloperFlowData {
   fundingSources: number
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCacheStatus(async (request: NextRequest) => {
   try {
     const { developerAddress } = await request.json()
 
@@ -37,9 +39,11 @@ export async function POST(request: NextRequest) {
     console.log("Analyzing developer network for:", developerAddress)
 
     // Get developer network data
-    const developerFlowData = await analyzeDeveloperNetwork(developerAddress)
+    const startedAt = Date.now()
+    const loader = new TransactionLoader()
+    const developerFlowData = await analyzeDeveloperNetwork(developerAddress, loader)
 
-    return NextResponse.json(developerFlowData)
+    return NextResponse.json({ ...developerFlowData, timing: { totalMs: Date.now() - startedAt, ...loader.stats } })
   } catch (error) {
     console.error("Error in developer-network API:", error)
     return NextResponse.json(
@@ -47,9 +51,12 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     )
   }
-}
+})
 
-async function analyzeDeveloperNetwork(developerAddress: string): Promise<DeveloperFlowData> {
+async function analyzeDeveloperNetwork(
+  developerAddress: string,
+  loader: TransactionLoader,
+): Promise<DeveloperFlowData> {
   try {
     const nodes: DeveloperNode[] = []
     const links: DeveloperLink[] = []
@@ -67,7 +74,7 @@ async function analyzeDeveloperNetwork(developerAddress: string): Promise<Develo
     })
 
     // Get developer's transaction connections
-    const developerConnections = await getDeveloperConnections(developerAddress)
+    const developerConnections = await getDeveloperConnections(developerAddress, loader)
 
     developerConnections.sources.forEach((source, index) => {
       nodes.push({
@@ -126,7 +133,7 @@ async function analyzeDeveloperNetwork(developerAddress: string): Promise<Develo
   }
 }
 
-async function getDeveloperConnections(developerAddress: string) {
+async function getDeveloperConnections(developerAddress: string, loader: TransactionLoader) {
   try {
     // Get developer's transaction history
     const signatures = await getSignaturesForAddress(developerAddress, 50)
@@ -142,9 +149,10 @@ async function getDeveloperConnections(developerAddress: string) {
     let totalActivity = 0
 
     // Analyze transactions to find connected addresses
-    for (const sig of signatures.slice(0, 20)) {
+    const transactions = await loader.loadTransactions(signatures.slice(0, 20).map((sig) => sig.signature))
+
+    for (const tx of transactions) {
       try {
-        const tx = await getTransaction(sig.signature)
         if (!tx) continue
 
         // Analyze transaction for connections
@@ -161,7 +169,7 @@ async function getDeveloperConnections(developerAddress: string) {
               amount: connectionInfo.amount,
               transactionCount: 1,
               type: classifyAddress(connectionInfo.source),
-              label: await getAddressLabel(connectionInfo.source),
+              label: getAddressLabel(connectionInfo.source),
             })
           }
           totalActivity += connectionInfo.amount
@@ -183,46 +191,13 @@ async function getDeveloperConnections(developerAddress: string) {
 
 async function getSignaturesForAddress(address: string, limit = 20) {
   try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getSignaturesForAddress",
-        params: [address, { limit }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result || []
+    return await getChainDataProvider().getSignaturesForAddress(address, { limit })
   } catch (error) {
     console.error("Error getting signatures:", error)
     return []
   }
 }
 
-async function getTransaction(signature: string) {
-  try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTransaction",
-        params: [signature, { maxSupportedTransactionVersion: 0 }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result
-  } catch (error) {
-    console.error("Error getting transaction:", error)
-    return null
-  }
-}
-
 function analyzeConnectionTransaction(tx: any, targetAddress: string) {
   try {
     // Simplified connection analysis
@@ -262,39 +237,21 @@ function analyzeConnectionTransaction(tx: any, targetAddress: string) {
   }
 }
 
+// Map a counterparty onto the graph's node types using the entity registry
 function classifyAddress(address: string): string {
-  // Known exchange addresses (simplified)
-  const exchanges = [
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", // Binance
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", // FTX
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S", // Coinbase
-  ]
-
-  if (exchanges.includes(address)) {
-    return "exchange"
-  }
-
-  // Check if it's a program/contract (simplified)
-  if (address.length === 44 && address.includes("1111")) {
-    return "contract"
-  }
-
-  // Default classification based on patterns
-  if (address.startsWith("So1")) return "contract"
-  if (address.startsWith("11111")) return "contract"
-
-  return "wallet"
-}
-
-async function getAddressLabel(address: string): Promise<string | undefined> {
-  // Known address labels (simplified)
-  const labels: Record<string, string> = {
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": "Binance",
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": "FTX",
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S": "Coinbase",
-    So11111111111111111111111111111111111111112: "Wrapped SOL",
-    "11111111111111111111111111111111": "System Program",
+  switch (getEntityCategory(address)) {
+    case "exchange":
+      return "exchange"
+    case "defi":
+      return "defi"
+    case "token":
+      return "token"
+    case "system":
+    case "program":
+    case "bridge":
+    case "malicious_program":
+      return "program"
+    default:
+      return "wallet"
   }
-
-  return labels[address]
 }
@@ -1,7 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-const HELIUS_API_KEY = "2a3ff752-d3ef-4b7c-a44a-159dfe9538b6"
-const HELIUS_RPC_URL = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { withCacheStatus } from "@/lib/cache"
+import { TransactionLoader } from "@/lib/transaction-loader"
+import { getAddressLabel, getEntityCategory } from "@/lib/entity-registry"
+import { type FlagSets, getActiveFlagSets } from "@/lib/flag-lists"
 
 interface FundFlowNode {
   id: string
@@ -35,7 +37,7 @@ interface FundFlowData {
   suspiciousPatterns: string[]
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCacheStatus(async (request: NextRequest) => {
   try {
     const { developerAddress } = await request.json()
 
@@ -46,9 +48,12 @@ export async function POST(request: NextRequest) {
     console.log("Analyzing fund flows for developer:", developerAddress)
 
     // Get fund flow data
-    const fundFlowData = await analyzeFundFlows(developerAddress)
+    const startedAt = Date.now()
+    const loader = new TransactionLoader()
+    const flagSets = await getActiveFlagSets()
+    const fundFlowData = await analyzeFundFlows(developerAddress, loader, flagSets)
 
-    return NextResponse.json(fundFlowData)
+    return NextResponse.json({ ...fundFlowData, timing: { totalMs: Date.now() - startedAt, ...loader.stats } })
   } catch (error) {
     console.error("Error in fund-flow-analysis API:", error)
     return NextResponse.json(
@@ -56,9 +61,13 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     )
   }
-}
+})
 
-async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData> {
+async function analyzeFundFlows(
+  developerAddress: string,
+  loader: TransactionLoader,
+  flagSets: FlagSets,
+): Promise<FundFlowData> {
   try {
     const nodes: FundFlowNode[] = []
     const links: FundFlowLink[] = []
@@ -98,9 +107,13 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
     >()
 
     // Analyze transactions for fund flow patterns
-    for (const sig of signatures.slice(0, 100)) {
+    const recentSignatures = signatures.slice(0, 100)
+    const transactions = await loader.loadTransactions(recentSignatures.map((sig) => sig.signature))
+
+    for (let index = 0; index < transactions.length; index++) {
+      const tx = transactions[index]
+      const sig = recentSignatures[index]
       try {
-        const tx = await getTransaction(sig.signature)
         if (!tx) continue
 
         const fundFlow = analyzeFundFlow(tx, developerAddress)
@@ -121,7 +134,7 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
               type: flow.type,
               lastSeen: sig.blockTime || 0,
               direction: flow.direction,
-              riskLevel: assessAddressRisk(flow.address, flow.amount, flow.type),
+              riskLevel: assessAddressRisk(flow.address, flow.amount, flow.type, flagSets),
             })
           }
 
@@ -190,9 +203,13 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
       .filter((n) => n.type !== "developer" && n.amount > 1 * 1e9) // > 1 SOL
       .slice(0, 3)
 
-    for (const source of majorSources) {
+    const secondaryFlowsBySource = await Promise.all(
+      majorSources.map((source) => getSecondaryFundFlows(source.id, loader, 5)),
+    )
+
+    majorSources.forEach((source, sourceIndex) => {
       try {
-        const secondaryFlows = await getSecondaryFundFlows(source.id, 5)
+        const secondaryFlows = secondaryFlowsBySource[sourceIndex]
         secondaryFlows.forEach((flow, index) => {
           if (!nodes.find((n) => n.id === flow.address) && index < 2) {
             nodes.push({
@@ -204,7 +221,7 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
               amount: flow.amount,
               transactionCount: flow.count,
               fundDirection: flow.direction,
-              riskLevel: assessAddressRisk(flow.address, flow.amount, flow.type),
+              riskLevel: assessAddressRisk(flow.address, flow.amount, flow.type, flagSets),
             })
 
             links.push({
@@ -221,7 +238,7 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
       } catch (error) {
         console.warn("Error getting secondary fund flows:", error)
       }
-    }
+    })
 
     return {
       nodes: nodes.slice(0, 30), // Limit for performance
@@ -262,46 +279,13 @@ async function analyzeFundFlows(developerAddress: string): Promise<FundFlowData>
 
 async function getSignaturesForAddress(address: string, limit = 100) {
   try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getSignaturesForAddress",
-        params: [address, { limit }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result || []
+    return await getChainDataProvider().getSignaturesForAddress(address, { limit })
   } catch (error) {
     console.error("Error getting signatures:", error)
     return []
   }
 }
 
-async function getTransaction(signature: string) {
-  try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTransaction",
-        params: [signature, { maxSupportedTransactionVersion: 0 }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result
-  } catch (error) {
-    console.error("Error getting transaction:", error)
-    return null
-  }
-}
-
 function analyzeFundFlow(tx: any, developerAddress: string) {
   const flows: Array<{
     address: string
@@ -359,6 +343,7 @@ function determineFundFlowType(tx: any, address: string): string {
 
     if (programId === "11111111111111111111111111111111") return "transfer"
     if (programId === "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA") return "token_transfer"
+    if (programId === "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb") return "token_transfer"
     if (programId === "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin") return "dex_trade"
     if (programId?.includes("Stake")) return "staking"
   }
@@ -367,14 +352,10 @@ function determineFundFlowType(tx: any, address: string): string {
 }
 
 function classifyFundSource(address: string, flowType: string, amount: number): string {
-  // Known exchange addresses
-  const exchanges = [
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", // Binance
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", // FTX
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S", // Coinbase
-  ]
-
-  if (exchanges.includes(address)) return "exchange"
+  // Known entities first
+  const category = getEntityCategory(address)
+  if (category === "exchange") return "exchange"
+  if (category && category !== "other" && category !== "scam" && category !== "market_maker") return "contract"
 
   // Classify as whale if large amounts
   if (amount > 10 * 1e9) return "whale" // > 10 SOL
@@ -384,11 +365,6 @@ function classifyFundSource(address: string, flowType: string, amount: number):
   if (flowType === "staking") return "contract"
   if (flowType === "token_transfer") return "contract"
 
-  // Check if it's a program/contract
-  if (address.length === 44 && (address.includes("1111") || address.startsWith("So1"))) {
-    return "contract"
-  }
-
   return "fund_source"
 }
 
@@ -407,15 +383,18 @@ function classifyFlowType(type: string): "funding" | "withdrawal" | "exchange" |
   }
 }
 
-function assessAddressRisk(address: string, amount: number, type: string): "low" | "medium" | "high" {
-  // Known safe addresses (exchanges, etc.)
-  const safeAddresses = [
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", // Binance
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", // FTX
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S", // Coinbase
-  ]
+function assessAddressRisk(
+  address: string,
+  amount: number,
+  type: string,
+  flagSets: FlagSets,
+): "low" | "medium" | "high" {
+  const category = getEntityCategory(address)
 
-  if (safeAddresses.includes(address)) return "low"
+  // Listed or known scammers are always high risk; established entities are low risk
+  if (flagSets.scamAddresses.has(address) || flagSets.blacklistedPrograms.has(address)) return "high"
+  if (category === "scam" || category === "malicious_program") return "high"
+  if (category === "exchange" || category === "defi" || category === "system") return "low"
 
   // High amounts from unknown sources are risky
   if (amount > 100 * 1e9 && type === "unknown") return "high" // > 100 SOL
@@ -426,21 +405,7 @@ function assessAddressRisk(address: string, amount: number, type: string): "low"
   return "low"
 }
 
-function getAddressLabel(address: string): string | undefined {
-  const labels: Record<string, string> = {
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": "Binance",
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": "FTX",
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S": "Coinbase",
-    So11111111111111111111111111111111111111112: "Wrapped SOL",
-    "11111111111111111111111111111111": "System Program",
-    "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin": "Serum DEX",
-    TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: "Token Program",
-  }
-
-  return labels[address]
-}
-
-async function getSecondaryFundFlows(address: string, limit = 5) {
+async function getSecondaryFundFlows(address: string, loader: TransactionLoader, limit = 5) {
   try {
     const signatures = await getSignaturesForAddress(address, limit)
     const flows: Array<{
@@ -451,9 +416,10 @@ async function getSecondaryFundFlows(address: string, limit = 5) {
       direction: "incoming" | "outgoing" | "both"
     }> = []
 
-    for (const sig of signatures.slice(0, 3)) {
+    const transactions = await loader.loadTransactions(signatures.slice(0, 3).map((sig) => sig.signature))
+
+    for (const tx of transactions) {
       try {
-        const tx = await getTransaction(sig.signature)
         if (!tx) continue
 
         const analysis = analyzeFundFlow(tx, address)
@@ -1,7 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-const HELIUS_API_KEY = "2a3ff752-d3ef-4b7c-a44a-159dfe9538b6"
-const HELIUS_RPC_URL = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+import { type EnhancedTransaction, getChainDataProvider } from "@/lib/chain-data-provider"
+import { withCacheStatus } from "@/lib/cache"
+import { TransactionLoader } from "@/lib/transaction-loader"
+import { getAddressLabel, getEntityCategory } from "@/lib/entity-registry"
 
 interface FundNode {
   id: string
@@ -27,7 +28,7 @@ interface FundFlowData {
   fundingSources: number
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCacheStatus(async (request: NextRequest) => {
   try {
     const { mintAddress, deployerAddress } = await request.json()
 
@@ -38,9 +39,11 @@ export async function POST(request: NextRequest) {
     console.log("Analyzing fund sources for:", mintAddress)
 
     // Get fund flow data
-    const fundFlowData = await analyzeFundSources(mintAddress, deployerAddress)
+    const startedAt = Date.now()
+    const loader = new TransactionLoader()
+    const fundFlowData = await analyzeFundSources(mintAddress, deployerAddress, loader)
 
-    return NextResponse.json(fundFlowData)
+    return NextResponse.json({ ...fundFlowData, timing: { totalMs: Date.now() - startedAt, ...loader.stats } })
   } catch (error) {
     console.error("Error in fund-sources API:", error)
     return NextResponse.json(
@@ -48,9 +51,13 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     )
   }
-}
+})
 
-async function analyzeFundSources(mintAddress: string, deployerAddress: string | null): Promise<FundFlowData> {
+async function analyzeFundSources(
+  mintAddress: string,
+  deployerAddress: string | null,
+  loader: TransactionLoader,
+): Promise<FundFlowData> {
   try {
     const nodes: FundNode[] = []
     const links: FundLink[] = []
@@ -79,7 +86,7 @@ async function analyzeFundSources(mintAddress: string, deployerAddress: string |
       })
 
       // Get deployer's funding sources
-      const deployerFunding = await getDeployerFunding(deployerAddress)
+      const deployerFunding = await getDeployerFunding(deployerAddress, loader)
 
       deployerFunding.sources.forEach((source, index) => {
         nodes.push({
@@ -121,7 +128,7 @@ async function analyzeFundSources(mintAddress: string, deployerAddress: string |
     }
 
     // Get mint address funding (if any direct funding)
-    const mintFunding = await getMintFunding(mintAddress)
+    const mintFunding = await getMintFunding(mintAddress, loader)
 
     mintFunding.sources.forEach((source, index) => {
       // Check if node already exists
@@ -184,7 +191,7 @@ async function analyzeFundSources(mintAddress: string, deployerAddress: string |
   }
 }
 
-async function getDeployerFunding(deployerAddress: string) {
+async function getDeployerFunding(deployerAddress: string, loader: TransactionLoader) {
   try {
     // Get deployer's transaction history
     const signatures = await getSignaturesForAddress(deployerAddress, 50)
@@ -200,13 +207,11 @@ async function getDeployerFunding(deployerAddress: string) {
     let totalReceived = 0
     const deploymentCost = 0.01 * 1e9 // Estimate deployment cost
 
-    // Analyze transactions to find funding sources
-    for (const sig of signatures.slice(0, 20)) {
-      // Limit to recent transactions
-      try {
-        const tx = await getTransaction(sig.signature)
-        if (!tx) continue
+    // Analyze transactions to find funding sources, limited to recent ones
+    const transactions = await loader.loadEnhancedTransactions(signatures.slice(0, 20).map((sig) => sig.signature))
 
+    for (const tx of transactions) {
+      try {
         // Analyze transaction for funding patterns
         const fundingInfo = analyzeFundingTransaction(tx, deployerAddress)
 
@@ -221,7 +226,7 @@ async function getDeployerFunding(deployerAddress: string) {
               amount: fundingInfo.amount,
               transactionCount: 1,
               type: classifyAddress(fundingInfo.source),
-              label: await getAddressLabel(fundingInfo.source),
+              label: getAddressLabel(fundingInfo.source),
             })
           }
           totalReceived += fundingInfo.amount
@@ -242,7 +247,7 @@ async function getDeployerFunding(deployerAddress: string) {
   }
 }
 
-async function getMintFunding(mintAddress: string) {
+async function getMintFunding(mintAddress: string, loader: TransactionLoader) {
   try {
     // Get mint's transaction history
     const signatures = await getSignaturesForAddress(mintAddress, 20)
@@ -258,12 +263,10 @@ async function getMintFunding(mintAddress: string) {
     let totalReceived = 0
 
     // Analyze creation and early transactions
-    for (const sig of signatures.slice(-10)) {
-      // Get earliest transactions
-      try {
-        const tx = await getTransaction(sig.signature)
-        if (!tx) continue
+    const transactions = await loader.loadEnhancedTransactions(signatures.slice(-10).map((sig) => sig.signature))
 
+    for (const tx of transactions) {
+      try {
         const fundingInfo = analyzeFundingTransaction(tx, mintAddress)
 
         if (fundingInfo.amount > 0) {
@@ -277,7 +280,7 @@ async function getMintFunding(mintAddress: string) {
               amount: fundingInfo.amount,
               transactionCount: 1,
               type: classifyAddress(fundingInfo.source),
-              label: await getAddressLabel(fundingInfo.source),
+              label: getAddressLabel(fundingInfo.source),
             })
           }
           totalReceived += fundingInfo.amount
@@ -299,119 +302,41 @@ async function getMintFunding(mintAddress: string) {
 
 async function getSignaturesForAddress(address: string, limit = 20) {
   try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getSignaturesForAddress",
-        params: [address, { limit }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result || []
+    return await getChainDataProvider().getSignaturesForAddress(address, { limit })
   } catch (error) {
     console.error("Error getting signatures:", error)
     return []
   }
 }
 
-async function getTransaction(signature: string) {
-  try {
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTransaction",
-        params: [signature, { maxSupportedTransactionVersion: 0 }],
-      }),
-    })
-
-    const data = await response.json()
-    return data.result
-  } catch (error) {
-    console.error("Error getting transaction:", error)
-    return null
+// The largest SOL sender into the target within one transaction
+function analyzeFundingTransaction(tx: EnhancedTransaction, targetAddress: string) {
+  const bySender = new Map<string, number>()
+  for (const transfer of tx.nativeTransfers || []) {
+    if (transfer.toUserAccount !== targetAddress || transfer.fromUserAccount === targetAddress) continue
+    bySender.set(transfer.fromUserAccount, (bySender.get(transfer.fromUserAccount) || 0) + (transfer.amount || 0))
   }
-}
 
-function analyzeFundingTransaction(tx: any, targetAddress: string) {
-  try {
-    // Simplified funding analysis
-    const preBalances = tx.meta?.preBalances || []
-    const postBalances = tx.meta?.postBalances || []
-    const accountKeys = tx.transaction?.message?.accountKeys || []
-
-    // Find target address index
-    const targetIndex = accountKeys.findIndex(
-      (key: any) => (typeof key === "string" ? key : key.pubkey) === targetAddress,
-    )
-
-    if (targetIndex === -1) {
-      return { source: "", amount: 0 }
-    }
-
-    // Calculate balance change
-    const balanceChange = (postBalances[targetIndex] || 0) - (preBalances[targetIndex] || 0)
-
-    if (balanceChange > 0) {
-      // Find the source of funding (simplified)
-      for (let i = 0; i < accountKeys.length; i++) {
-        if (i !== targetIndex) {
-          const sourceChange = (preBalances[i] || 0) - (postBalances[i] || 0)
-          if (sourceChange > 0 && Math.abs(sourceChange - balanceChange) < 1000) {
-            // Allow for fees
-            const sourceAddress = typeof accountKeys[i] === "string" ? accountKeys[i] : accountKeys[i].pubkey
-            return { source: sourceAddress, amount: balanceChange }
-          }
-        }
-      }
-    }
-
-    return { source: "", amount: 0 }
-  } catch (error) {
-    console.error("Error analyzing funding transaction:", error)
-    return { source: "", amount: 0 }
-  }
+  let funding = { source: "", amount: 0 }
+  bySender.forEach((amount, source) => {
+    if (amount > funding.amount) funding = { source, amount }
+  })
+  return funding
 }
 
+// Map a funding source onto the graph's node types using the entity registry
 function classifyAddress(address: string): string {
-  // Known exchange addresses (simplified)
-  const exchanges = [
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", // Binance
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", // FTX
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S", // Coinbase
-  ]
-
-  if (exchanges.includes(address)) {
-    return "exchange"
+  switch (getEntityCategory(address)) {
+    case "exchange":
+      return "exchange"
+    case "system":
+    case "program":
+    case "defi":
+    case "bridge":
+    case "token":
+    case "malicious_program":
+      return "contract"
+    default:
+      return "source"
   }
-
-  // Check if it's a program/contract (simplified)
-  if (address.length === 44 && address.includes("1111")) {
-    return "contract"
-  }
-
-  // Default classification based on patterns
-  if (address.startsWith("So1")) return "contract"
-  if (address.startsWith("11111")) return "contract"
-
-  return "source"
-}
-
-async function getAddressLabel(address: string): Promise<string | undefined> {
-  // Known address labels (simplified)
-  const labels: Record<string, string> = {
-    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": "Binance",
-    "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": "FTX",
-    "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S": "Coinbase",
-    So11111111111111111111111111111111111111112: "Wrapped SOL",
-    "11111111111111111111111111111111": "System Program",
-  }
-
-  return labels[address]
 }
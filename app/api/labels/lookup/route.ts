@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getEntityRegistry } from "@/lib/entity-registry"
+
+// Enough for every counterparty in a few hundred transactions
+const MAX_ADDRESSES = 1000
+
+export async function POST(request: NextRequest) {
+  try {
+    const { addresses } = await request.json()
+
+    if (!Array.isArray(addresses)) {
+      return NextResponse.json({ error: "addresses must be an array" }, { status: 400 })
+    }
+
+    const entities = getEntityRegistry().getEntities(
+      addresses.filter((address: unknown) => typeof address === "string").slice(0, MAX_ADDRESSES),
+    )
+
+    return NextResponse.json({ entities })
+  } catch (error) {
+    console.error("Error in labels lookup API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to look up labels" },
+      { status: 500 },
+    )
+  }
+}
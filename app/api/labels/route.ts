@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getEntityRegistry } from "@/lib/entity-registry"
+import { ENTITY_CATEGORIES } from "@/lib/entities"
+import { isValidAddress } from "@/lib/solana"
+import { checkWriteAccess } from "@/lib/write-access"
+
+// User-added address labels. Bundled datasets are read-only; these are stored
+// locally and take precedence over them.
+export async function GET() {
+  return NextResponse.json({ labels: getEntityRegistry().listUserLabels() })
+}
+
+export async function POST(request: NextRequest) {
+  const denied = checkWriteAccess(request)
+  if (denied) return denied
+
+  try {
+    const { address, name, category } = await request.json()
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid address format" }, { status: 400 })
+    }
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json({ error: "Label name is required" }, { status: 400 })
+    }
+
+    if (category && !ENTITY_CATEGORIES.includes(category)) {
+      return NextResponse.json({ error: `Unknown category: ${category}` }, { status: 400 })
+    }
+
+    const label = getEntityRegistry().setUserLabel({ address, name, category: category || "other" })
+
+    return NextResponse.json({ label })
+  } catch (error) {
+    console.error("Error in labels API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to save label" },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = checkWriteAccess(request)
+  if (denied) return denied
+
+  const address = request.nextUrl.searchParams.get("address")
+
+  if (!isValidAddress(address)) {
+    return NextResponse.json({ error: "Invalid address format" }, { status: 400 })
+  }
+
+  try {
+    const removed = getEntityRegistry().removeUserLabel(address)
+    if (!removed) {
+      return NextResponse.json({ error: "Label not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ removed: address })
+  } catch (error) {
+    console.error("Error in labels API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to remove label" },
+      { status: 500 },
+    )
+  }
+}
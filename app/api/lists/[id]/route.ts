@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { FlagListError, removeFlagEntry, updateFlagEntry } from "@/lib/flag-lists"
+import { checkWriteAccess } from "@/lib/write-access"
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = checkWriteAccess(request)
+  if (denied) return denied
+
+  try {
+    const { reason, evidenceUrl, expiresAt } = await request.json()
+
+    const entry = await updateFlagEntry(params.id, { reason, evidenceUrl, expiresAt })
+    if (!entry) {
+      return NextResponse.json({ error: "List entry not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ entry })
+  } catch (error) {
+    if (error instanceof FlagListError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error in lists API:", error)
+    return NextResponse.json({ error: "Failed to update list entry" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = checkWriteAccess(request)
+  if (denied) return denied
+
+  try {
+    const removed = await removeFlagEntry(params.id)
+    if (!removed) {
+      return NextResponse.json({ error: "List entry not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ removed: params.id })
+  } catch (error) {
+    console.error("Error in lists API:", error)
+    return NextResponse.json({ error: "Failed to remove list entry" }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  type FlagListName,
+  FLAG_LISTS,
+  FlagListError,
+  addFlagEntries,
+  listFlagEntries,
+  parseFlagEntriesCsv,
+} from "@/lib/flag-lists"
+import { checkWriteAccess } from "@/lib/write-access"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const list = searchParams.get("list") as FlagListName | null
+
+    if (list && !FLAG_LISTS.includes(list)) {
+      return NextResponse.json({ error: `Unknown list: ${list}` }, { status: 400 })
+    }
+
+    const entries = await listFlagEntries({
+      list: list || undefined,
+      includeExpired: searchParams.get("includeExpired") === "true",
+    })
+
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error("Error in lists API:", error)
+    return NextResponse.json({ error: "Failed to load lists" }, { status: 500 })
+  }
+}
+
+// Accepts a single entry, `{ entries: [...] }`, or `{ csv, addedBy }` for bulk import
+export async function POST(request: NextRequest) {
+  const denied = checkWriteAccess(request)
+  if (denied) return denied
+
+  try {
+    const body = await request.json()
+
+    const inputs = body.csv
+      ? parseFlagEntriesCsv(body.csv, body.addedBy)
+      : Array.isArray(body.entries)
+        ? body.entries
+        : [body]
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: "No entries to add" }, { status: 400 })
+    }
+
+    const entries = await addFlagEntries(inputs)
+
+    return NextResponse.json({ entries }, { status: 201 })
+  } catch (error) {
+    if (error instanceof FlagListError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error in lists API:", error)
+    return NextResponse.json({ error: "Failed to add list entries" }, { status: 500 })
+  }
+}
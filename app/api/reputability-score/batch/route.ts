@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withCacheStatus } from "@/lib/cache"
+import { MAX_BATCH_ADDRESSES, batchResultsToCsv, parseAddressList } from "@/lib/batch-scoring"
+import { ScoringError, parseScoringOptions, scoreWalletBatch } from "@/lib/reputability"
+
+// Scores a list of addresses, given as `addresses` or as a `csv` upload, with
+// the same since/asOf/model options as a single score. `?format=csv` returns
+// the results as a CSV download instead of JSON.
+export const POST = withCacheStatus(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+
+    const addresses: string[] = Array.isArray(body.addresses)
+      ? Array.from(new Set<string>(body.addresses.map((address: unknown) => String(address).trim()).filter(Boolean)))
+      : typeof body.csv === "string"
+        ? parseAddressList(body.csv)
+        : []
+
+    if (addresses.length === 0) {
+      return NextResponse.json({ error: "Provide addresses or a csv with an address column" }, { status: 400 })
+    }
+
+    if (addresses.length > MAX_BATCH_ADDRESSES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_ADDRESSES} addresses per batch (got ${addresses.length})` },
+        { status: 400 },
+      )
+    }
+
+    const startedAt = Date.now()
+    const results = await scoreWalletBatch(addresses, parseScoringOptions(body))
+
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      return new NextResponse(batchResultsToCsv(results), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="reputability-scores-${Date.now()}.csv"`,
+        },
+      })
+    }
+
+    return NextResponse.json({
+      results,
+      summary: {
+        total: results.length,
+        scored: results.filter((result) => result.status === "ok").length,
+        failed: results.filter((result) => result.status === "error").length,
+        durationMs: Date.now() - startedAt,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ScoringError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error scoring address batch:", error)
+    return NextResponse.json({ error: "Failed to score address batch" }, { status: 500 })
+  }
+})
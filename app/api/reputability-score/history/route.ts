@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getScoreHistory } from "@/lib/score-history"
+import { isValidAddress } from "@/lib/solana"
+
+// Every score computed for an address, oldest first, with the change from the
+// previous run under the same model version
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get("address")
+
+    if (!address || !isValidAddress(address)) {
+      return NextResponse.json({ error: "A valid address is required" }, { status: 400 })
+    }
+
+    return NextResponse.json({ address, history: await getScoreHistory(address) })
+  } catch (error) {
+    console.error("Error loading score history:", error)
+    return NextResponse.json({ error: "Failed to load score history" }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ScoringModelError, getScoringModel, listScoringModels } from "@/lib/scoring-model-registry"
+import { DEFAULT_SCORING_MODEL } from "@/lib/config"
+
+// Newest version of each scoring model, or with ?model=<id>[@<version>] that
+// one model, so clients can rerun the exact model behind a score
+export async function GET(request: NextRequest) {
+  const name = request.nextUrl.searchParams.get("model")
+  if (!name) {
+    return NextResponse.json({ models: listScoringModels(), defaultModel: DEFAULT_SCORING_MODEL })
+  }
+
+  try {
+    return NextResponse.json({ model: getScoringModel(name) })
+  } catch (error) {
+    if (error instanceof ScoringModelError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    throw error
+  }
+}
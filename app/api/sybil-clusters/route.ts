@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withCacheStatus } from "@/lib/cache"
+import { parseAddressList } from "@/lib/batch-scoring"
+import { MAX_SYBIL_ADDRESSES, findSybilClusters } from "@/lib/sybil"
+
+// Clusters a list of addresses, given as `addresses` or as a `csv` upload, by
+// the signs of common control they share
+export const POST = withCacheStatus(async (request: NextRequest) => {
+  try {
+    const body = await request.json()
+
+    const addresses: string[] = Array.isArray(body.addresses)
+      ? Array.from(new Set<string>(body.addresses.map((address: unknown) => String(address).trim()).filter(Boolean)))
+      : typeof body.csv === "string"
+        ? parseAddressList(body.csv)
+        : []
+
+    if (addresses.length < 2) {
+      return NextResponse.json(
+        { error: "Provide at least two addresses or a csv with an address column" },
+        { status: 400 },
+      )
+    }
+
+    if (addresses.length > MAX_SYBIL_ADDRESSES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SYBIL_ADDRESSES} addresses per analysis (got ${addresses.length})` },
+        { status: 400 },
+      )
+    }
+
+    const startedAt = Date.now()
+    const analysis = await findSybilClusters(addresses)
+
+    return NextResponse.json({ ...analysis, durationMs: Date.now() - startedAt })
+  } catch (error) {
+    console.error("Error clustering addresses:", error)
+    return NextResponse.json({ error: "Failed to analyze address clusters" }, { status: 500 })
+  }
+})
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { getTokenInfo } from "@/lib/token-info"
+import { getHolderDistribution } from "@/lib/holders"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { mint: string } }) => {
+  try {
+    const { mint } = params
+
+    if (!isValidAddress(mint)) {
+      return NextResponse.json({ error: "Invalid contract address format" }, { status: 400 })
+    }
+
+    const provider = getChainDataProvider()
+    const distribution = await getHolderDistribution(provider, await getTokenInfo(provider, mint))
+
+    return NextResponse.json(distribution)
+  } catch (error) {
+    console.error("Error in token holders API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to analyze token holders" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { getTokenInfo } from "@/lib/token-info"
+import { getTokenRiskReport } from "@/lib/token-risk"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { mint: string } }) => {
+  try {
+    const { mint } = params
+
+    if (!isValidAddress(mint)) {
+      return NextResponse.json({ error: "Invalid contract address format" }, { status: 400 })
+    }
+
+    const provider = getChainDataProvider()
+    const tokenInfo = await getTokenInfo(provider, mint)
+    const report = await getTokenRiskReport(provider, tokenInfo)
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error in token risk API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to score token risk" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,28 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const provider = getChainDataProvider()
+    const [accountInfo, tokenAccounts] = await Promise.all([
+      provider.getAccountInfo(address),
+      provider.getTokenAccounts(address),
+    ])
+
+    return NextResponse.json({ account: accountInfo, tokenAccounts })
+  } catch (error) {
+    console.error("Error in wallet account API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch account info" },
+      { status: 500 },
+    )
+  }
+})
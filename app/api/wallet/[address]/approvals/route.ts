@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { getApprovalAudit } from "@/lib/approvals"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const audit = await getApprovalAudit(getChainDataProvider(), address)
+
+    return NextResponse.json(audit)
+  } catch (error) {
+    console.error("Error in wallet approvals API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to audit token approvals" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const page = Number(request.nextUrl.searchParams.get("page")) || 1
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || 20
+
+    const assets = await getChainDataProvider().getAssetsByOwner(address, page, limit)
+
+    return NextResponse.json(assets)
+  } catch (error) {
+    console.error("Error in wallet assets API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch assets" },
+      { status: 500 },
+    )
+  }
+})
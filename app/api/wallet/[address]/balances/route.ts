@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const balances = await getChainDataProvider().getBalances(address)
+
+    return NextResponse.json(balances)
+  } catch (error) {
+    console.error("Error in wallet balances API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch balances" },
+      { status: 500 },
+    )
+  }
+})
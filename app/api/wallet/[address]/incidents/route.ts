@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { collectTransactionHistory } from "@/lib/transaction-history"
+import { detectDrainIncidents } from "@/lib/drain-detection"
+
+// Transactions scanned for drain patterns
+const INCIDENT_HISTORY_LIMIT = 300
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const transactions = await collectTransactionHistory(getChainDataProvider(), address, {
+      maxTransactions: INCIDENT_HISTORY_LIMIT,
+    })
+
+    const report = detectDrainIncidents(transactions, address)
+
+    return NextResponse.json({ ...report, transactionsScanned: transactions.length })
+  } catch (error) {
+    console.error("Error in wallet incidents API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to detect drain incidents" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { getDeployerProfile } from "@/lib/deployer-profile"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const profile = await getDeployerProfile(getChainDataProvider(), address)
+
+    return NextResponse.json(profile)
+  } catch (error) {
+    console.error("Error in wallet launches API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to profile deployer launches" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { withCacheStatus } from "@/lib/cache"
+import { getStakingProfile, tokenAccountHoldings } from "@/lib/staking"
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const provider = getChainDataProvider()
+    const tokenAccounts = await provider.getTokenAccounts(address)
+    const staking = await getStakingProfile(provider, address, tokenAccountHoldings(tokenAccounts))
+
+    return NextResponse.json(staking)
+  } catch (error) {
+    console.error("Error in wallet staking API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch staking positions" },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getChainDataProvider } from "@/lib/chain-data-provider"
+import { isValidAddress } from "@/lib/solana"
+import { collectTransactionHistory } from "@/lib/transaction-history"
+import { withCacheStatus } from "@/lib/cache"
+
+// Largest page a single request may ask for; clients page further with `before`
+const MAX_LIMIT = 1000
+
+export const GET = withCacheStatus(async (request: NextRequest, { params }: { params: { address: string } }) => {
+  try {
+    const { address } = params
+
+    if (!isValidAddress(address)) {
+      return NextResponse.json({ error: "Invalid wallet address format" }, { status: 400 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Number(searchParams.get("limit")) || 50, MAX_LIMIT)
+    const before = searchParams.get("before") || undefined
+    const until = searchParams.get("until") || undefined
+    const since = Number(searchParams.get("since")) || undefined
+
+    const transactions = await collectTransactionHistory(getChainDataProvider(), address, {
+      maxTransactions: limit,
+      before,
+      until,
+      since,
+    })
+
+    return NextResponse.json(transactions)
+  } catch (error) {
+    console.error("Error in wallet transactions API:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch transactions" },
+      { status: 500 },
+    )
+  }
+})
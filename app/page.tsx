@@ -11,6 +11,8 @@ import { AnalyticsDashboard } from "@/components/analytics-dashboard"
 import { NFTSummary } from "@/components/nft-summary"
 import { ReputabilityDashboard } from "@/components/reputability-dashboard"
 import { CheckCADashboard } from "@/components/check-ca-dashboard"
+import { FlagListsManager } from "@/components/flag-lists-manager"
+import { SybilClusters } from "@/components/sybil-clusters"
 
 export default function HomePage() {
   const [selectedWallet, setSelectedWallet] = useState<string>("")
@@ -35,6 +37,10 @@ export default function HomePage() {
               <ReputabilityDashboard />
             ) : activeTab === "check-ca" ? (
               <CheckCADashboard />
+            ) : activeTab === "sybil" ? (
+              <SybilClusters />
+            ) : activeTab === "lists" ? (
+              <FlagListsManager />
             ) : (
               <>
                 <WalletSearch onWalletSelect={setSelectedWallet} />
@@ -13,8 +13,10 @@ import {
   Activity,
   Coins,
   BarChart3,
+  Bot,
 } from "lucide-react"
-import { heliusAPI } from "@/lib/helius-api"
+import { walletAPI } from "@/lib/wallet-api"
+import { type BehaviorClass, type BehaviorProfile, analyzeBehavior } from "@/lib/behavior"
 
 interface AnalyticsData {
   inflowOutflow: {
@@ -41,6 +43,13 @@ interface AnalyticsData {
     days: number
     totalTransactions: number
   }
+  behavior: BehaviorProfile
+}
+
+const BEHAVIOR_COLORS: Record<BehaviorClass, string> = {
+  human: "bg-green-500/20 text-green-400 border-green-500/30",
+  mixed: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  bot: "bg-red-500/20 text-red-400 border-red-500/30",
 }
 
 interface AnalyticsDashboardProps {
@@ -66,7 +75,7 @@ export function AnalyticsDashboard({ wallet }: AnalyticsDashboardProps) {
       try {
         console.log("Fetching analytics for wallet:", wallet)
 
-        const transactions = await heliusAPI.getTransactionHistory(wallet, 50)
+        const transactions = await walletAPI.getTransactionHistory(wallet, 50)
 
         console.log(`Successfully fetched ${transactions.length} transactions`)
 
@@ -166,6 +175,7 @@ export function AnalyticsDashboard({ wallet }: AnalyticsDashboardProps) {
             days: timeframeDays,
             totalTransactions: transactions.length,
           },
+          behavior: analyzeBehavior(transactions, wallet),
         })
       } catch (error) {
         console.error("Error fetching analytics:", error)
@@ -240,6 +250,9 @@ export function AnalyticsDashboard({ wallet }: AnalyticsDashboardProps) {
   }
 
   const totalCategoryTx = Object.values(analytics.categories).reduce((sum, count) => sum + count, 0)
+  const { behavior } = analytics
+  const largestGapBucket = Math.max(1, ...behavior.timing.histogram.map((bucket) => bucket.count))
+  const busiestHour = Math.max(1, ...behavior.hourHistogram)
 
   return (
     <div className="space-y-6">
@@ -327,6 +340,80 @@ export function AnalyticsDashboard({ wallet }: AnalyticsDashboardProps) {
         </CardContent>
       </Card>
 
+      {/* Behavior Analysis */}
+      <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white flex items-center space-x-2">
+              <Bot className="w-5 h-5" />
+              <span>Behavior Analysis</span>
+            </CardTitle>
+            <div className="flex items-center space-x-2">
+              <Badge className={BEHAVIOR_COLORS[behavior.classification]}>
+                {behavior.classification.toUpperCase()}
+              </Badge>
+              <span className="text-xs text-slate-400">
+                {(behavior.confidence * 100).toFixed(0)}% confidence · {behavior.sampleSize} signed txs
+              </span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-4">
+            {behavior.signals.map((signal) => (
+              <div key={signal.id} className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-white text-sm font-medium">{signal.name}</span>
+                  <span className="text-slate-400 text-xs">{(signal.botLikelihood * 100).toFixed(0)}% bot-like</span>
+                </div>
+                <Progress value={signal.botLikelihood * 100} className="h-2" />
+                <p className="text-xs text-slate-500">{signal.detail}</p>
+              </div>
+            ))}
+            {behavior.signals.length === 0 && (
+              <p className="text-slate-400 text-sm">Not enough signed transactions to analyze behavior</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <span className="text-sm text-slate-400">Time between transactions</span>
+              <div className="flex items-end space-x-1 h-20">
+                {behavior.timing.histogram.map((bucket) => (
+                  <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full">
+                    <div
+                      className="w-full bg-blue-500/60 rounded-t"
+                      style={{ height: `${(bucket.count / largestGapBucket) * 100}%` }}
+                      title={`${bucket.count} gaps`}
+                    />
+                    <span className="text-[10px] text-slate-500 mt-1">{bucket.label}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm text-slate-400">Activity by hour (UTC)</span>
+              <div className="flex items-end space-x-0.5 h-20">
+                {behavior.hourHistogram.map((count, hour) => (
+                  <div
+                    key={hour}
+                    className="flex-1 bg-purple-500/60 rounded-t"
+                    style={{ height: `${(count / busiestHour) * 100}%` }}
+                    title={`${hour}:00 UTC: ${count} transactions`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-slate-500">
+                <span>00</span>
+                <span>12</span>
+                <span>23</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Fee Summary */}
       <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
         <CardHeader>
@@ -2,6 +2,7 @@
 
 import { useEffect, useRef } from "react"
 import * as d3 from "d3"
+import { walletAPI } from "@/lib/wallet-api"
 
 interface BalanceChartProps {
   wallet: string
@@ -17,15 +18,8 @@ export function BalanceChart({ wallet, timeRange = "1M" }: BalanceChartProps) {
     const fetchBalanceHistory = async () => {
       try {
         // Fetch current balance first
-        const balanceResponse = await fetch(
-          `https://api.helius.xyz/v0/addresses/${wallet}/balances?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6`,
-        )
-
-        let currentBalance = 0
-        if (balanceResponse.ok) {
-          const balanceData = await balanceResponse.json()
-          currentBalance = balanceData.nativeBalance / 1000000000 // Convert lamports to SOL
-        }
+        const balanceData = await walletAPI.getBalances(wallet).catch(() => null)
+        const currentBalance = balanceData ? balanceData.nativeBalance / 1000000000 : 0 // Convert lamports to SOL
 
         // Generate realistic balance history data based on selected time range
         const data = []
@@ -0,0 +1,280 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowUpDown, Download, ListChecks, Play, Square, Upload } from "lucide-react"
+import {
+  type BatchScoreResult,
+  MAX_BATCH_ADDRESSES,
+  batchResultsToCsv,
+  parseAddressList,
+} from "@/lib/batch-scoring"
+
+// Addresses sent per request, so progress can be shown between requests
+const CHUNK_SIZE = 10
+
+type SortKey = "address" | "score" | "riskLevel" | "status"
+
+const RISK_ORDER = { low: 0, medium: 1, high: 2 }
+
+interface BatchReputabilityProps {
+  model?: string
+}
+
+export function BatchReputability({ model }: BatchReputabilityProps) {
+  const [input, setInput] = useState("")
+  const [results, setResults] = useState<BatchScoreResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState("")
+  const [sortKey, setSortKey] = useState<SortKey>("score")
+  const [sortAscending, setSortAscending] = useState(true)
+  const stopRequested = useRef(false)
+
+  const addresses = parseAddressList(input)
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) setInput(await file.text())
+  }
+
+  const runBatch = async () => {
+    if (addresses.length > MAX_BATCH_ADDRESSES) {
+      setError(`At most ${MAX_BATCH_ADDRESSES} addresses per batch`)
+      return
+    }
+
+    setRunning(true)
+    setError("")
+    setResults([])
+    setTotal(addresses.length)
+    stopRequested.current = false
+
+    try {
+      for (let i = 0; i < addresses.length && !stopRequested.current; i += CHUNK_SIZE) {
+        const response = await fetch("/api/reputability-score/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ addresses: addresses.slice(i, i + CHUNK_SIZE), model: model || undefined }),
+        })
+
+        const result = await response.json()
+        if (!response.ok || result.error) {
+          throw new Error(result.error || `HTTP error! status: ${response.status}`)
+        }
+
+        setResults((previous) => [...previous, ...result.results])
+      }
+    } catch (batchError) {
+      console.error("Error scoring batch:", batchError)
+      setError(batchError instanceof Error ? batchError.message : "Failed to score batch")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const download = (content: string, type: string, extension: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `reputability-scores.${extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortKey(key)
+      setSortAscending(true)
+    }
+  }
+
+  const sortValue = (result: BatchScoreResult, key: SortKey): string | number => {
+    if (key === "score") return result.score ?? -1
+    if (key === "riskLevel") return result.riskLevel ? RISK_ORDER[result.riskLevel] : 3
+    return result[key]
+  }
+
+  const sortedResults = [...results].sort((a, b) => {
+    const left = sortValue(a, sortKey)
+    const right = sortValue(b, sortKey)
+    const order = left < right ? -1 : left > right ? 1 : 0
+    return sortAscending ? order : -order
+  })
+
+  const getRiskBadgeColor = (risk: string | null) => {
+    switch (risk) {
+      case "low":
+        return "bg-green-500/20 text-green-400 border-green-500/30"
+      case "medium":
+        return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
+      case "high":
+        return "bg-red-500/20 text-red-400 border-red-500/30"
+      default:
+        return "bg-gray-500/20 text-gray-400 border-gray-500/30"
+    }
+  }
+
+  const SortableHead = ({ label, column }: { label: string; column: SortKey }) => (
+    <TableHead className="text-slate-400">
+      <button onClick={() => toggleSort(column)} className="flex items-center space-x-1 hover:text-white">
+        <span>{label}</span>
+        <ArrowUpDown className="w-3 h-3" />
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900/50 border-slate-800/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center space-x-2">
+            <ListChecks className="w-5 h-5" />
+            <span>Batch Screening</span>
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            Paste addresses (one per line) or upload a CSV with an address column, up to {MAX_BATCH_ADDRESSES} at a
+            time
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            rows={6}
+            placeholder="One wallet address per line..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={running}
+            className="bg-slate-800/50 border-slate-700/50 text-white font-mono text-xs"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="inline-flex items-center space-x-2 text-sm text-slate-400 hover:text-white">
+              <Upload className="w-4 h-4" />
+              <span>Upload CSV</span>
+              <input
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+            </label>
+            <span className="text-sm text-slate-500">{addresses.length} addresses</span>
+            <div className="flex-1" />
+            {running ? (
+              <Button
+                variant="outline"
+                onClick={() => (stopRequested.current = true)}
+                className="border-slate-700 text-slate-300"
+              >
+                <Square className="w-4 h-4" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                onClick={runBatch}
+                disabled={addresses.length === 0}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Play className="w-4 h-4" />
+                Score All
+              </Button>
+            )}
+          </div>
+
+          {total > 0 && (
+            <div className="space-y-1">
+              <Progress value={(results.length / total) * 100} className="h-2" />
+              <p className="text-xs text-slate-400">
+                {results.length} of {total} scored
+                {results.some((result) => result.status === "error") &&
+                  `, ${results.filter((result) => result.status === "error").length} failed`}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {results.length > 0 && (
+        <Card className="bg-slate-900/50 border-slate-800/50">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-white">Results</CardTitle>
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => download(batchResultsToCsv(results), "text/csv", "csv")}
+                  className="border-slate-700 text-slate-300"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => download(JSON.stringify(results, null, 2), "application/json", "json")}
+                  className="border-slate-700 text-slate-300"
+                >
+                  <Download className="w-4 h-4" />
+                  JSON
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-800">
+                  <SortableHead label="Address" column="address" />
+                  <SortableHead label="Score" column="score" />
+                  <SortableHead label="Risk" column="riskLevel" />
+                  <TableHead className="text-slate-400">Top negative factors</TableHead>
+                  <SortableHead label="Status" column="status" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedResults.map((result) => (
+                  <TableRow key={result.address} className="border-slate-800">
+                    <TableCell className="font-mono text-xs text-white" title={result.address}>
+                      {result.address.slice(0, 6)}...{result.address.slice(-6)}
+                    </TableCell>
+                    <TableCell className="text-white font-medium">{result.score ?? "-"}</TableCell>
+                    <TableCell>
+                      {result.riskLevel && (
+                        <Badge className={getRiskBadgeColor(result.riskLevel)}>{result.riskLevel.toUpperCase()}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-400">
+                      {result.topNegativeFactors.map((factor) => `${factor.name} (${factor.impact})`).join(", ") ||
+                        "-"}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {result.status === "ok" ? (
+                        <span className="text-green-400">Scored</span>
+                      ) : (
+                        <span className="text-red-400" title={result.error || undefined}>
+                          {result.error}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,383 @@
-import DeveloperBubbleMap from "./developer-bubble-map"
+"use client"
 
-interface CheckCADashboardProps {
-  developerAddress: string
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertTriangle,
+  Coins,
+  ExternalLink,
+  FileText,
+  KeyRound,
+  Loader2,
+  Network,
+  Puzzle,
+  Search,
+  Wallet,
+} from "lucide-react"
+import DeveloperBubbleMap from "@/components/developer-bubble-map"
+import { FundSourceBubbleMap } from "@/components/fund-source-bubble-map"
+import { TokenRiskCard } from "@/components/token-risk-card"
+import { TokenHolders } from "@/components/token-holders"
+import { DeployerLaunches } from "@/components/deployer-launches"
+import type { TokenInfo } from "@/lib/token-info"
+import type { TokenRiskReport } from "@/lib/token-risk"
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`
+}
+
+// Raw supply in whole tokens; precise enough for display
+function formatSupply(supply: string, decimals: number) {
+  const amount = Number(supply) / Math.pow(10, decimals)
+  return amount.toLocaleString(undefined, { maximumFractionDigits: Math.min(decimals, 4) })
+}
+
+function AccountLink({ address }: { address: string }) {
+  return (
+    <a
+      href={`https://solscan.io/account/${address}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      title={address}
+      className="inline-flex items-center font-mono text-blue-400 hover:text-blue-300"
+    >
+      {shortAddress(address)}
+      <ExternalLink className="w-3 h-3 ml-1" />
+    </a>
+  )
 }
 
-export function CheckCADashboard({ developerAddress }: CheckCADashboardProps) {
+// Renounced authorities are what a holder wants to see
+function AuthorityRow({ label, authority, risk }: { label: string; authority: string | null; risk: string }) {
   return (
-    <div>
-      <DeveloperBubbleMap developerAddress={developerAddress} />
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <p className="text-sm text-white">{label}</p>
+        <p className="text-xs text-slate-500">{authority ? risk : "Renounced"}</p>
+      </div>
+      {authority ? (
+        <div className="text-right space-y-1">
+          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Active</Badge>
+          <div className="text-xs">
+            <AccountLink address={authority} />
+          </div>
+        </div>
+      ) : (
+        <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Renounced</Badge>
+      )}
+    </div>
+  )
+}
+
+// Token due diligence for a contract address: identity, supply, authorities
+// and metadata, then the deployer's network and the mint's funding sources
+export function CheckCADashboard() {
+  const [mintAddress, setMintAddress] = useState("")
+  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  // Risk score, holders and deployer launches all come from one request
+  const [report, setReport] = useState<TokenRiskReport | null>(null)
+  const [reportLoading, setReportLoading] = useState(false)
+  const [reportError, setReportError] = useState<string | null>(null)
+
+  const fetchReport = async (mint: string) => {
+    setReportLoading(true)
+    setReportError(null)
+
+    try {
+      const response = await fetch(`/api/token/${mint}/risk`)
+      const result = await response.json()
+      if (!response.ok || result.error) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`)
+      }
+      setReport(result)
+    } catch (reportFetchError) {
+      console.error("Error fetching token risk:", reportFetchError)
+      setReportError(reportFetchError instanceof Error ? reportFetchError.message : "Failed to score token risk")
+    } finally {
+      setReportLoading(false)
+    }
+  }
+
+  const checkToken = async () => {
+    setLoading(true)
+    setError("")
+    setTokenInfo(null)
+    setReport(null)
+
+    try {
+      const response = await fetch("/api/check-ca", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mintAddress: mintAddress.trim() }),
+      })
+
+      const result = await response.json()
+      if (!response.ok || result.error) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`)
+      }
+
+      setTokenInfo(result)
+      fetchReport(result.mintAddress)
+    } catch (checkError) {
+      console.error("Error checking token:", checkError)
+      setError(checkError instanceof Error ? checkError.message : "Failed to analyze token contract")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900/50 border-slate-800/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center space-x-2">
+            <Search className="w-5 h-5" />
+            <span>Check Contract Address</span>
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            Token identity, supply, authorities and metadata, then the deployer&apos;s network and where the
+            launch was funded from
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Enter token mint address..."
+              value={mintAddress}
+              onChange={(e) => setMintAddress(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && mintAddress.trim() && !loading && checkToken()}
+              className="bg-slate-800/50 border-slate-700/50 text-white font-mono"
+            />
+            <Button
+              onClick={checkToken}
+              disabled={loading || !mintAddress.trim()}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+              {loading ? "Checking..." : "Check"}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {tokenInfo && (
+        <>
+          <TokenRiskCard risk={report} loading={reportLoading} error={reportError} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <Coins className="w-5 h-5 text-yellow-400" />
+                  <span>Token</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xl font-bold text-white">{tokenInfo.name}</p>
+                    <p className="text-sm text-slate-400">${tokenInfo.symbol}</p>
+                  </div>
+                  <Badge variant="outline" className="border-slate-600 text-slate-300">
+                    {tokenInfo.tokenProgram === "spl-token-2022" ? "Token-2022" : "SPL Token"}
+                  </Badge>
+                </div>
+                <div className="text-xs">
+                  <p className="text-slate-400">Mint</p>
+                  <a
+                    href={`https://solscan.io/token/${tokenInfo.mintAddress}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center font-mono text-blue-400 hover:text-blue-300 break-all"
+                  >
+                    {tokenInfo.mintAddress}
+                    <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+                  </a>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-xs text-slate-400">Supply</p>
+                    <p className="text-lg font-bold text-white">
+                      {formatSupply(tokenInfo.supply, tokenInfo.decimals)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Decimals</p>
+                    <p className="text-lg font-bold text-white">{tokenInfo.decimals}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <KeyRound className="w-5 h-5 text-orange-400" />
+                  <span>Authorities</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <AuthorityRow
+                  label="Mint authority"
+                  authority={tokenInfo.mintAuthority}
+                  risk="Can mint more supply"
+                />
+                <AuthorityRow
+                  label="Freeze authority"
+                  authority={tokenInfo.freezeAuthority}
+                  risk="Can freeze holders' accounts"
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <FileText className="w-5 h-5 text-blue-400" />
+                  <span>Metadata</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-white">Metadata</p>
+                    <p className="text-xs text-slate-500">
+                      {tokenInfo.isMutable ? "Name, symbol and image can still change" : "Locked"}
+                    </p>
+                  </div>
+                  {tokenInfo.isMutable ? (
+                    <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Mutable</Badge>
+                  ) : (
+                    <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Immutable</Badge>
+                  )}
+                </div>
+                {tokenInfo.metadataUri && (
+                  <div className="text-xs">
+                    <p className="text-slate-400">URI</p>
+                    <a
+                      href={tokenInfo.metadataUri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center text-blue-400 hover:text-blue-300 break-all"
+                    >
+                      {tokenInfo.metadataUri}
+                      <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+                    </a>
+                  </div>
+                )}
+                <div className="text-xs">
+                  <p className="text-slate-400">Deployer</p>
+                  {tokenInfo.deployer ? (
+                    <>
+                      <AccountLink address={tokenInfo.deployer} />
+                      <p className="text-slate-500">
+                        {tokenInfo.deployerSource === "metadata"
+                          ? "First metadata creator"
+                          : "Fee payer of the mint's first transaction"}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-slate-500">Unknown</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {tokenInfo.extensions.length > 0 && (
+            <Card className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <Puzzle className="w-5 h-5 text-purple-400" />
+                  <span>Token-2022 Extensions</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {tokenInfo.risks.length > 0 && (
+                  <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3 space-y-1">
+                    {tokenInfo.risks.map((risk) => (
+                      <p key={risk} className="text-red-400 text-sm flex items-center gap-2">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        {risk}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {tokenInfo.extensions.map((extension) => (
+                    <div key={extension.type} className="p-3 bg-slate-800/30 rounded text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-white font-medium">{extension.label}</span>
+                        {extension.risk && (
+                          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Risk</Badge>
+                        )}
+                      </div>
+                      {extension.detail && <p className="text-xs text-slate-400 mt-1">{extension.detail}</p>}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <TokenHolders distribution={report?.holders || null} loading={reportLoading} error={reportError} />
+
+          {tokenInfo.deployer && (
+            <DeployerLaunches
+              deployer={tokenInfo.deployer}
+              profile={report?.deployerProfile || null}
+              loading={reportLoading}
+              error={reportError}
+              currentMint={tokenInfo.mintAddress}
+            />
+          )}
+
+          {tokenInfo.deployer && (
+            <Card className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center space-x-2">
+                  <Wallet className="w-5 h-5 text-red-400" />
+                  <span>Deployer Network</span>
+                </CardTitle>
+                <CardDescription className="text-slate-400">
+                  Wallets, exchanges and programs around {shortAddress(tokenInfo.deployer)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[500px]">
+                  <DeveloperBubbleMap developerAddress={tokenInfo.deployer} />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="bg-slate-900/50 border-slate-800/50">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center space-x-2">
+                <Network className="w-5 h-5 text-purple-400" />
+                <span>Fund Sources</span>
+              </CardTitle>
+              <CardDescription className="text-slate-400">Where the deployer and the mint were funded from</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[500px]">
+                <FundSourceBubbleMap mintAddress={tokenInfo.mintAddress} deployerAddress={tokenInfo.deployer} />
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   )
 }
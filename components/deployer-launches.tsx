@@ -0,0 +1,173 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, ExternalLink, Rocket } from "lucide-react"
+import type { DeployerProfile, LaunchStatus } from "@/lib/deployer-profile"
+
+interface DeployerLaunchesProps {
+  deployer: string
+  profile: DeployerProfile | null
+  loading: boolean
+  error: string | null
+  // The token being checked, highlighted in the list
+  currentMint?: string
+}
+
+const STATUS_COLORS: Record<LaunchStatus, string> = {
+  active: "bg-green-500/20 text-green-400 border-green-500/30",
+  new: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  abandoned: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  rugged: "bg-red-500/20 text-red-400 border-red-500/30",
+  unknown: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function formatSupply(supply: number) {
+  return supply.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+// Every token the deployer launched, with how each one ended up
+export function DeployerLaunches({ deployer, profile, loading, error, currentMint }: DeployerLaunchesProps) {
+  const stats = profile
+    ? [
+        { label: "Launches", value: profile.launches.length, alert: profile.serialLauncher },
+        { label: "Active", value: profile.activeCount, alert: false },
+        { label: "Abandoned", value: profile.abandonedCount, alert: profile.abandonedCount > 0 },
+        { label: "Rugged", value: profile.ruggedCount, alert: profile.ruggedCount > 0 },
+      ]
+    : []
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <Rocket className="w-5 h-5 text-orange-400" />
+          <span>Deployer Launches</span>
+        </CardTitle>
+        {profile && (
+          <CardDescription className="text-slate-400">
+            Tokens created by {shortAddress(deployer)} within its last {profile.transactionsScanned} transactions
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="animate-pulse h-32 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !profile || profile.launches.length === 0 ? (
+          <p className="text-slate-400 text-sm">
+            {profile ? "No token launches found" : "Deployer launch history unavailable"}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className="text-xs text-slate-400">{stat.label}</p>
+                  <p className={`text-xl font-bold ${stat.alert ? "text-red-400" : "text-white"}`}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {profile.serialLauncher && (
+              <div className="flex items-center space-x-2 p-3 bg-red-500/10 border border-red-500/30 rounded">
+                <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+                <p className="text-sm text-red-300">
+                  Serial launcher: this deployer has created {profile.launches.length} tokens
+                </p>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-800">
+                  <TableHead className="text-slate-400">Token</TableHead>
+                  <TableHead className="text-slate-400">Created</TableHead>
+                  <TableHead className="text-slate-400">Supply</TableHead>
+                  <TableHead className="text-slate-400">Authorities</TableHead>
+                  <TableHead className="text-slate-400">Price</TableHead>
+                  <TableHead className="text-slate-400">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profile.launches.map((launch) => (
+                  <TableRow
+                    key={launch.mint}
+                    className={`border-slate-800 ${launch.mint === currentMint ? "bg-blue-500/10" : ""}`}
+                  >
+                    <TableCell className="text-xs" title={launch.mint}>
+                      <a
+                        href={`https://solscan.io/token/${launch.mint}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-slate-300 hover:text-blue-400"
+                      >
+                        {launch.name || launch.symbol ? (
+                          <span className="text-white">
+                            {launch.name || launch.symbol}
+                            {launch.name && launch.symbol && <span className="text-slate-400"> ({launch.symbol})</span>}
+                          </span>
+                        ) : (
+                          <span className="font-mono">{shortAddress(launch.mint)}</span>
+                        )}
+                      </a>
+                      {launch.mint === currentMint && <p className="text-blue-400">This token</p>}
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-300">
+                      <a
+                        href={`https://solscan.io/tx/${launch.signature}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center space-x-1 hover:text-blue-400"
+                      >
+                        <span>{new Date(launch.createdAt * 1000).toLocaleDateString()}</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-white">
+                      {launch.supply !== null ? formatSupply(launch.supply) : "-"}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {launch.mintAuthorityActive === null ? (
+                        <span className="text-slate-500">Unknown</span>
+                      ) : (
+                        <div className="space-y-0.5">
+                          <p className={launch.mintAuthorityActive ? "text-red-400" : "text-green-400"}>
+                            Mint {launch.mintAuthorityActive ? "active" : "renounced"}
+                          </p>
+                          <p className={launch.freezeAuthorityActive ? "text-red-400" : "text-green-400"}>
+                            Freeze {launch.freezeAuthorityActive ? "active" : "renounced"}
+                          </p>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-white">
+                      {launch.priceUsd !== null ? (
+                        `$${launch.priceUsd.toPrecision(4)}`
+                      ) : launch.priceChecked ? (
+                        "-"
+                      ) : (
+                        <span className="text-slate-500">Unknown</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_COLORS[launch.status]} title={launch.reasons.join("; ")}>
+                        {launch.status.toUpperCase()}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
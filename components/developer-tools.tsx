@@ -30,20 +30,20 @@ export function DeveloperTools({ wallet }: DeveloperToolsProps) {
       // Construct the appropriate API call based on the selected endpoint
       switch (apiEndpoint) {
         case "transactions":
-          url = `https://api.helius.xyz/v0/addresses/${wallet}/transactions?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6&limit=10`
+          url = `/api/wallet/${wallet}/transactions?limit=10`
           break
         case "balance":
-          url = `https://api.helius.xyz/v0/addresses/${wallet}/balances?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6`
+          url = `/api/wallet/${wallet}/balances`
           break
         case "tokens":
-          // For tokens, we'll use the balances endpoint but focus on tokens
-          url = `https://api.helius.xyz/v0/addresses/${wallet}/balances?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6`
+          // Token accounts are returned alongside the account info
+          url = `/api/wallet/${wallet}/account`
           break
         case "nfts":
-          url = `https://api.helius.xyz/v0/addresses/${wallet}/nfts?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6`
+          url = `/api/wallet/${wallet}/assets`
           break
         default:
-          url = `https://api.helius.xyz/v0/addresses/${wallet}/transactions?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6&limit=10`
+          url = `/api/wallet/${wallet}/transactions?limit=10`
       }
 
       // Make the API call
@@ -170,7 +170,7 @@ export function DeveloperTools({ wallet }: DeveloperToolsProps) {
                   <div className="bg-slate-950 p-4 rounded border border-slate-700">
                     <pre className="text-green-400 text-sm overflow-x-auto">
                       {`const response = await fetch(
-  'https://api.helius.xyz/v0/addresses/${wallet}/transactions/?api-key=YOUR_KEY'
+  '/api/wallet/${wallet}/transactions?limit=10'
 );
 const data = await response.json();
 console.log(data);`}
@@ -184,8 +184,8 @@ console.log(data);`}
                     <pre className="text-green-400 text-sm overflow-x-auto">
                       {`import requests
 
-url = f"https://api.helius.xyz/v0/addresses/${wallet}/transactions/"
-params = {"api-key": "YOUR_KEY"}
+url = f"https://YOUR_HOST/api/wallet/${wallet}/transactions"
+params = {"limit": 10}
 response = requests.get(url, params=params)
 data = response.json()`}
                     </pre>
@@ -196,7 +196,7 @@ data = response.json()`}
                   <h3 className="text-white font-medium mb-2">cURL Example</h3>
                   <div className="bg-slate-950 p-4 rounded border border-slate-700">
                     <pre className="text-green-400 text-sm overflow-x-auto">
-                      {`curl "https://api.helius.xyz/v0/addresses/${wallet}/transactions/?api-key=YOUR_KEY"`}
+                      {`curl "https://YOUR_HOST/api/wallet/${wallet}/transactions?limit=10"`}
                     </pre>
                   </div>
                 </div>
@@ -263,25 +263,33 @@ data = response.json()`}
             <div className="flex items-center justify-between p-3 bg-slate-800/30 rounded">
               <div>
                 <Badge className="bg-green-500/20 text-green-400 mr-2">GET</Badge>
-                <span className="text-white font-mono text-sm">/v0/addresses/{"{address}"}/transactions</span>
+                <span className="text-white font-mono text-sm">/api/wallet/{"{address}"}/transactions</span>
               </div>
               <span className="text-slate-400 text-sm">Get transaction history</span>
             </div>
 
             <div className="flex items-center justify-between p-3 bg-slate-800/30 rounded">
               <div>
-                <Badge className="bg-blue-500/20 text-blue-400 mr-2">POST</Badge>
-                <span className="text-white font-mono text-sm">/v0/transactions</span>
+                <Badge className="bg-green-500/20 text-green-400 mr-2">GET</Badge>
+                <span className="text-white font-mono text-sm">/api/wallet/{"{address}"}/balances</span>
+              </div>
+              <span className="text-slate-400 text-sm">Get SOL and token balances</span>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-slate-800/30 rounded">
+              <div>
+                <Badge className="bg-green-500/20 text-green-400 mr-2">GET</Badge>
+                <span className="text-white font-mono text-sm">/api/wallet/{"{address}"}/assets</span>
               </div>
-              <span className="text-slate-400 text-sm">Parse transaction signatures</span>
+              <span className="text-slate-400 text-sm">Get NFTs and digital assets</span>
             </div>
 
             <div className="flex items-center justify-between p-3 bg-slate-800/30 rounded">
               <div>
                 <Badge className="bg-green-500/20 text-green-400 mr-2">GET</Badge>
-                <span className="text-white font-mono text-sm">/v0/addresses/{"{address}"}/balances</span>
+                <span className="text-white font-mono text-sm">/api/wallet/{"{address}"}/account</span>
               </div>
-              <span className="text-slate-400 text-sm">Get token balances</span>
+              <span className="text-slate-400 text-sm">Get account and token accounts</span>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ExternalLink, Siren } from "lucide-react"
+import { walletAPI } from "@/lib/wallet-api"
+import type { DrainIncident, DrainIncidentType, DrainReport } from "@/lib/drain-detection"
+
+const INCIDENT_LABELS: Record<DrainIncidentType, string> = {
+  "multi-token-sweep": "Multi-token sweep",
+  "delegate-transfer": "Delegate transfer",
+  "set-authority": "Authority handover",
+}
+
+const SEVERITY_COLORS: Record<DrainIncident["severity"], string> = {
+  high: "bg-red-500/20 text-red-400 border-red-500/30",
+  medium: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  low: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+}
+
+const ROLE_SUMMARY: Record<DrainReport["role"], string> = {
+  victim: "This wallet appears to have been drained",
+  perpetrator: "This wallet appears to drain other wallets",
+  both: "This wallet shows both drained and draining activity",
+  none: "No drain patterns found",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function TransactionLink({ signature }: { signature: string }) {
+  return (
+    <a
+      href={`https://solscan.io/tx/${signature}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center text-blue-400 hover:text-blue-300 font-mono"
+    >
+      {signature.slice(0, 8)}...
+      <ExternalLink className="w-3 h-3 ml-1" />
+    </a>
+  )
+}
+
+// Labeled incidents, newest first; shared by the overview and the reputability page
+export function DrainIncidentList({ incidents }: { incidents: DrainIncident[] }) {
+  return (
+    <div className="space-y-2">
+      {incidents.map((incident) => (
+        <div key={`${incident.type}-${incident.signature}`} className="p-3 bg-slate-800/30 rounded text-xs space-y-1">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Badge className={SEVERITY_COLORS[incident.severity]}>{incident.severity}</Badge>
+              <span className="text-white font-medium">{INCIDENT_LABELS[incident.type]}</span>
+              <span className={incident.role === "perpetrator" ? "text-red-400" : "text-orange-400"}>
+                {incident.role}
+              </span>
+            </div>
+            <span className="text-slate-500">{new Date(incident.timestamp * 1000).toLocaleString()}</span>
+          </div>
+          <p className="text-slate-400">{incident.detail}</p>
+          <div className="flex flex-wrap items-center gap-2 text-slate-500">
+            <TransactionLink signature={incident.signature} />
+            <span className="font-mono" title={incident.counterparty}>
+              · {shortAddress(incident.counterparty)}
+            </span>
+            {incident.relatedSignatures.length > 0 && <span>· set up by</span>}
+            {incident.relatedSignatures.map((signature) => (
+              <TransactionLink key={signature} signature={signature} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface DrainIncidentsProps {
+  wallet: string
+}
+
+// Drainer and phishing patterns in the wallet's recent history
+export function DrainIncidents({ wallet }: DrainIncidentsProps) {
+  const [report, setReport] = useState<DrainReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchIncidents = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        setReport(await walletAPI.getIncidents(wallet))
+      } catch (error) {
+        console.error("Error fetching drain incidents:", error)
+        setError(error instanceof Error ? error.message : "Failed to detect drain incidents")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (wallet) fetchIncidents()
+  }, [wallet])
+
+  return (
+    <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <Siren className="w-5 h-5 text-red-400" />
+          <span>Drain &amp; Phishing Incidents</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse h-16 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !report ? null : (
+          <>
+            <p className={`text-sm ${report.role === "none" ? "text-slate-400" : "text-white"}`}>
+              {ROLE_SUMMARY[report.role]}
+              {report.role !== "none" &&
+                ` (${report.victimIncidents} as victim, ${report.perpetratorDrains} as perpetrator)`}
+            </p>
+            {report.incidents.length > 0 && <DrainIncidentList incidents={report.incidents} />}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,13 +7,16 @@ interface Feature {
   name: string
   importance: number
   impact: "positive" | "negative" | "neutral"
+  // Shown instead of the normalized importance, e.g. "+2 pts"
+  detail?: string
 }
 
 interface FeatureImportanceProps {
   features: Feature[]
+  title?: string
 }
 
-export function FeatureImportance({ features }: FeatureImportanceProps) {
+export function FeatureImportance({ features, title = "Feature Importance" }: FeatureImportanceProps) {
   const sortedFeatures = [...features].sort((a, b) => Math.abs(b.importance) - Math.abs(a.importance))
 
   const getImpactColor = (impact: string) => {
@@ -36,7 +39,7 @@ export function FeatureImportance({ features }: FeatureImportanceProps) {
     <Card className="bg-slate-800/50 backdrop-blur-xl border-slate-700/50">
       <CardHeader className="pb-2">
         <CardTitle className="text-white flex items-center justify-between">
-          <span>Feature Importance</span>
+          <span>{title}</span>
           <BarChart3 className="w-5 h-5 text-purple-400" />
         </CardTitle>
       </CardHeader>
@@ -55,8 +58,12 @@ export function FeatureImportance({ features }: FeatureImportanceProps) {
                         : "text-blue-400"
                   }`}
                 >
-                  {feature.impact === "positive" ? "+" : feature.impact === "negative" ? "-" : ""}
-                  {Math.abs(feature.importance).toFixed(2)}
+                  {feature.detail ?? (
+                    <>
+                      {feature.impact === "positive" ? "+" : feature.impact === "negative" ? "-" : ""}
+                      {Math.abs(feature.importance).toFixed(2)}
+                    </>
+                  )}
                 </span>
               </div>
               <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden">
@@ -0,0 +1,398 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ShieldAlert, Plus, Upload, Trash2, Clock, ExternalLink, Pencil, Check, X, KeyRound } from "lucide-react"
+import { useWallet } from "@/components/wallet-provider"
+import { listsAPI } from "@/lib/lists-api"
+import { getWriteToken, setWriteToken } from "@/lib/write-token"
+import type { FlagEntry, FlagListName } from "@/lib/flag-lists"
+
+const LIST_LABELS: Record<FlagListName, string> = {
+  scam: "Scam addresses",
+  blacklist: "Blacklisted programs",
+}
+
+const EMPTY_FORM = { address: "", list: "scam" as FlagListName, reason: "", evidenceUrl: "", expiresAt: "" }
+
+export function FlagListsManager() {
+  const { walletAddress } = useWallet()
+  const [entries, setEntries] = useState<FlagEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [listFilter, setListFilter] = useState<FlagListName | "all">("all")
+  const [showExpired, setShowExpired] = useState(false)
+  const [addedBy, setAddedBy] = useState("")
+  const [writeToken, setWriteTokenInput] = useState("")
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [csv, setCsv] = useState("")
+  const [importResult, setImportResult] = useState("")
+  const [editing, setEditing] = useState<{ id: string; reason: string; evidenceUrl: string } | null>(null)
+
+  useEffect(() => {
+    if (walletAddress && !addedBy) setAddedBy(walletAddress)
+  }, [walletAddress])
+
+  useEffect(() => {
+    setWriteTokenInput(getWriteToken())
+  }, [])
+
+  // Kept in local storage so label edits elsewhere in the app send it too
+  const updateWriteToken = (token: string) => {
+    setWriteTokenInput(token)
+    setWriteToken(token.trim())
+  }
+
+  const loadEntries = async () => {
+    setLoading(true)
+    try {
+      setEntries(await listsAPI.getEntries(listFilter === "all" ? undefined : listFilter, showExpired))
+      setError("")
+    } catch (loadError) {
+      console.error("Error loading lists:", loadError)
+      setError(loadError instanceof Error ? loadError.message : "Failed to load lists")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [listFilter, showExpired])
+
+  // Run a list change, then reload so the table matches what the server stored
+  const mutate = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      setError("")
+      await loadEntries()
+    } catch (mutationError) {
+      console.error("Error updating lists:", mutationError)
+      setError(mutationError instanceof Error ? mutationError.message : "Failed to update lists")
+    }
+  }
+
+  const addEntry = () =>
+    mutate(async () => {
+      await listsAPI.addEntry({
+        ...form,
+        addedBy,
+        evidenceUrl: form.evidenceUrl || null,
+        expiresAt: form.expiresAt || null,
+      })
+      setForm(EMPTY_FORM)
+    })
+
+  const importEntries = () =>
+    mutate(async () => {
+      const imported = await listsAPI.importCsv(csv, addedBy)
+      setImportResult(`Imported ${imported.length} entries`)
+      setCsv("")
+    })
+
+  const saveEdit = () =>
+    mutate(async () => {
+      if (!editing) return
+      await listsAPI.updateEntry(editing.id, { reason: editing.reason, evidenceUrl: editing.evidenceUrl || null })
+      setEditing(null)
+    })
+
+  const expireNow = (entry: FlagEntry) =>
+    mutate(() => listsAPI.updateEntry(entry.id, { expiresAt: new Date().toISOString() }))
+
+  const removeEntry = (entry: FlagEntry) => mutate(() => listsAPI.removeEntry(entry.id))
+
+  const isExpired = (entry: FlagEntry) => !!entry.expiresAt && new Date(entry.expiresAt).getTime() <= Date.now()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ShieldAlert className="w-6 h-6 text-red-400" />
+          <h1 className="text-2xl font-bold text-white">Scam &amp; Blacklist Management</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          <KeyRound className="w-4 h-4 text-slate-400" />
+          <Input
+            type="password"
+            placeholder="Write token"
+            title="Required for edits when the server sets WRITE_API_TOKEN"
+            value={writeToken}
+            onChange={(e) => updateWriteToken(e.target.value)}
+            className="w-56 bg-slate-800/50 border-slate-700/50 text-white"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-400">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center space-x-2">
+              <Plus className="w-4 h-4" />
+              <span>Add Entry</span>
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              Flagged entries apply to reputability scores and fund-flow risk on the next analysis
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex space-x-2">
+              {(Object.keys(LIST_LABELS) as FlagListName[]).map((list) => (
+                <Button
+                  key={list}
+                  size="sm"
+                  variant={form.list === list ? "default" : "outline"}
+                  onClick={() => setForm({ ...form, list })}
+                  className={form.list === list ? "bg-blue-500 hover:bg-blue-600" : "border-slate-700 text-slate-400"}
+                >
+                  {LIST_LABELS[list]}
+                </Button>
+              ))}
+            </div>
+            <Input
+              placeholder={form.list === "scam" ? "Wallet address" : "Program ID"}
+              value={form.address}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+              className="bg-slate-800/50 border-slate-700/50 text-white font-mono"
+            />
+            <Input
+              placeholder="Reason"
+              value={form.reason}
+              onChange={(e) => setForm({ ...form, reason: e.target.value })}
+              className="bg-slate-800/50 border-slate-700/50 text-white"
+            />
+            <Input
+              placeholder="Evidence link (https://...)"
+              value={form.evidenceUrl}
+              onChange={(e) => setForm({ ...form, evidenceUrl: e.target.value })}
+              className="bg-slate-800/50 border-slate-700/50 text-white"
+            />
+            <div className="flex space-x-2">
+              <Input
+                type="date"
+                title="Expiry date (optional)"
+                value={form.expiresAt}
+                onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                className="bg-slate-800/50 border-slate-700/50 text-white"
+              />
+              <Input
+                placeholder="Added by"
+                value={addedBy}
+                onChange={(e) => setAddedBy(e.target.value)}
+                className="bg-slate-800/50 border-slate-700/50 text-white"
+              />
+            </div>
+            <Button
+              onClick={addEntry}
+              disabled={!form.address.trim() || !form.reason.trim() || !addedBy.trim()}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              Add to {LIST_LABELS[form.list]}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center space-x-2">
+              <Upload className="w-4 h-4" />
+              <span>Bulk Import</span>
+            </CardTitle>
+            <CardDescription className="text-slate-400">
+              CSV with columns address,list,reason,evidenceUrl,expiresAt (list is scam or blacklist)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              rows={7}
+              placeholder={"address,list,reason,evidenceUrl,expiresAt\n<address>,scam,Drainer wallet,https://...,"}
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              className="bg-slate-800/50 border-slate-700/50 text-white font-mono text-xs"
+            />
+            <div className="flex items-center space-x-3">
+              <Button
+                onClick={importEntries}
+                disabled={!csv.trim() || !addedBy.trim()}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                Import
+              </Button>
+              {importResult && <span className="text-sm text-green-400">{importResult}</span>}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white">Entries</CardTitle>
+            <div className="flex items-center space-x-2">
+              {(["all", "scam", "blacklist"] as const).map((list) => (
+                <Button
+                  key={list}
+                  size="sm"
+                  variant={listFilter === list ? "default" : "outline"}
+                  onClick={() => setListFilter(list)}
+                  className={listFilter === list ? "bg-blue-500 hover:bg-blue-600" : "border-slate-700 text-slate-400"}
+                >
+                  {list === "all" ? "All" : LIST_LABELS[list]}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant={showExpired ? "default" : "outline"}
+                onClick={() => setShowExpired(!showExpired)}
+                className={showExpired ? "bg-blue-500 hover:bg-blue-600" : "border-slate-700 text-slate-400"}
+              >
+                Show expired
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-slate-400 text-sm">Loading lists...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-slate-400 text-sm">No entries</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-800">
+                  <TableHead className="text-slate-400">Address</TableHead>
+                  <TableHead className="text-slate-400">List</TableHead>
+                  <TableHead className="text-slate-400">Reason</TableHead>
+                  <TableHead className="text-slate-400">Added</TableHead>
+                  <TableHead className="text-slate-400">Expires</TableHead>
+                  <TableHead className="text-slate-400 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id} className="border-slate-800">
+                    <TableCell className="font-mono text-xs text-white" title={entry.address}>
+                      {entry.address.slice(0, 6)}...{entry.address.slice(-6)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className={
+                          entry.list === "scam" ? "bg-red-500/20 text-red-400" : "bg-orange-500/20 text-orange-400"
+                        }
+                      >
+                        {entry.list}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-slate-300 max-w-xs">
+                      {editing?.id === entry.id ? (
+                        <div className="space-y-1">
+                          <Input
+                            value={editing.reason}
+                            onChange={(e) => setEditing({ ...editing, reason: e.target.value })}
+                            className="h-7 bg-slate-800/50 border-slate-700/50 text-white"
+                          />
+                          <Input
+                            placeholder="Evidence link"
+                            value={editing.evidenceUrl}
+                            onChange={(e) => setEditing({ ...editing, evidenceUrl: e.target.value })}
+                            className="h-7 bg-slate-800/50 border-slate-700/50 text-white"
+                          />
+                        </div>
+                      ) : (
+                        <div>
+                          <p>{entry.reason}</p>
+                          {entry.evidenceUrl && (
+                            <a
+                              href={entry.evidenceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-400 hover:text-blue-300 inline-flex items-center space-x-1"
+                            >
+                              <span>Evidence</span>
+                              <ExternalLink className="w-3 h-3" />
+                            </a>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-slate-400">
+                      <p className="truncate w-28" title={entry.addedBy}>
+                        {entry.addedBy}
+                      </p>
+                      <p>{new Date(entry.addedAt).toLocaleDateString()}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.expiresAt ? (
+                        <span className={isExpired(entry) ? "text-slate-500" : "text-slate-300"}>
+                          {new Date(entry.expiresAt).toLocaleDateString()}
+                          {isExpired(entry) && " (expired)"}
+                        </span>
+                      ) : (
+                        <span className="text-slate-500">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-1">
+                        {editing?.id === entry.id ? (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={saveEdit} className="text-green-400">
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setEditing(null)} className="text-slate-400">
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Annotate"
+                            onClick={() =>
+                              setEditing({ id: entry.id, reason: entry.reason, evidenceUrl: entry.evidenceUrl || "" })
+                            }
+                            className="text-slate-400 hover:text-white"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {!isExpired(entry) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Expire now"
+                            onClick={() => expireNow(entry)}
+                            className="text-slate-400 hover:text-yellow-400"
+                          >
+                            <Clock className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Remove"
+                          onClick={() => removeEntry(entry)}
+                          className="text-slate-400 hover:text-red-400"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
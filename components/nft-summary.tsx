@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ImageIcon, ExternalLink, Grid3X3 } from "lucide-react"
-import { heliusAPI } from "@/lib/helius-api"
+import { walletAPI } from "@/lib/wallet-api"
 
 interface NFT {
   id: string
@@ -58,7 +58,7 @@ export function NFTSummary({ wallet }: NFTSummaryProps) {
       setError(null)
 
       try {
-        const result = await heliusAPI.getAssetsByOwner(wallet, 1, 20)
+        const result = await walletAPI.getAssetsByOwner(wallet, 1, 20)
         const nftList = result?.items || []
         setNfts(nftList)
 
@@ -1,13 +1,29 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Shield, TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Search } from "lucide-react"
+import {
+  Shield,
+  TrendingUp,
+  TrendingDown,
+  AlertTriangle,
+  CheckCircle,
+  Search,
+  ChevronDown,
+  ChevronRight,
+  ExternalLink,
+} from "lucide-react"
+import { ReputabilityHistory } from "@/components/reputability-history"
+import { BatchReputability } from "@/components/batch-reputability"
+import { ScoreSimulator } from "@/components/score-simulator"
+import { DrainIncidentList } from "@/components/drain-incidents"
+import type { FactorEvidence, ScoringModel } from "@/lib/scoring-model"
+import type { ScoreHistoryEntry } from "@/lib/score-history"
 
 interface ReputabilityData {
   score: number
@@ -17,16 +33,60 @@ interface ReputabilityData {
     impact: number
     description: string
     type: "positive" | "negative" | "neutral"
+    evidence: FactorEvidence[]
   }[]
   riskLevel: "low" | "medium" | "high"
   recommendations: string[]
+  model: { id: string; version: number }
+  asOf: { timestamp: string | null; slot: number | null; signature: string | null } | null
+  walletAnalysis: any
 }
 
 export function ReputabilityDashboard() {
   const [walletAddress, setWalletAddress] = useState("")
+  const [sinceDate, setSinceDate] = useState("")
+  const [asOfDate, setAsOfDate] = useState("")
+  const [models, setModels] = useState<ScoringModel[]>([])
+  const [modelId, setModelId] = useState("")
   const [loading, setLoading] = useState(false)
   const [data, setData] = useState<ReputabilityData | null>(null)
   const [error, setError] = useState<string>("")
+  const [expandedFactor, setExpandedFactor] = useState<string | null>(null)
+  const [history, setHistory] = useState<ScoreHistoryEntry[]>([])
+  // The exact model version behind the current result, for the simulator
+  const [resultModel, setResultModel] = useState<ScoringModel | null>(null)
+
+  useEffect(() => {
+    fetch("/api/scoring-models")
+      .then((response) => response.json())
+      .then((result) => {
+        setModels(result.models || [])
+        setModelId(result.defaultModel || "")
+      })
+      .catch((error) => console.error("Error loading scoring models:", error))
+  }, [])
+
+  const loadHistory = async (address: string) => {
+    try {
+      const response = await fetch(`/api/reputability-score/history?address=${encodeURIComponent(address)}`)
+      const result = await response.json()
+      setHistory(result.history || [])
+    } catch (error) {
+      console.error("Error loading score history:", error)
+      setHistory([])
+    }
+  }
+
+  const loadResultModel = async (model: { id: string; version: number }) => {
+    try {
+      const response = await fetch(`/api/scoring-models?model=${encodeURIComponent(`${model.id}@${model.version}`)}`)
+      const result = await response.json()
+      setResultModel(result.model || null)
+    } catch (error) {
+      console.error("Error loading scoring model:", error)
+      setResultModel(null)
+    }
+  }
 
   const analyzeWallet = async () => {
     if (!walletAddress.trim()) return
@@ -38,7 +98,15 @@ export function ReputabilityDashboard() {
       const response = await fetch("/api/reputability-score", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ walletAddress }),
+        body: JSON.stringify({
+          walletAddress,
+          since: sinceDate || undefined,
+          // End of the chosen day, so the whole day is included, but never in the future
+          asOf: asOfDate
+            ? new Date(Math.min(Date.parse(`${asOfDate}T23:59:59Z`), Date.now())).toISOString()
+            : undefined,
+          model: modelId || undefined,
+        }),
       })
 
       if (!response.ok) {
@@ -52,6 +120,8 @@ export function ReputabilityDashboard() {
       }
 
       setData(result)
+      setExpandedFactor(null)
+      await Promise.all([loadHistory(walletAddress.trim()), loadResultModel(result.model)])
     } catch (error) {
       console.error("Error analyzing wallet:", error)
       setError(error instanceof Error ? error.message : "Failed to analyze wallet")
@@ -60,6 +130,12 @@ export function ReputabilityDashboard() {
     }
   }
 
+  const openTransaction = (signature: string) => {
+    window.open(`https://solscan.io/tx/${signature}`, "_blank")
+  }
+
+  const shortAddress = (address: string) => `${address.slice(0, 4)}...${address.slice(-4)}`
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-400"
     if (score >= 60) return "text-yellow-400"
@@ -95,162 +171,298 @@ export function ReputabilityDashboard() {
         <h1 className="text-2xl font-bold text-white">Wallet Reputability Score</h1>
       </div>
 
-      <Card className="bg-slate-900/50 border-slate-800/50">
-        <CardHeader>
-          <CardTitle className="text-white">AI-Powered Trust Assessment</CardTitle>
-          <CardDescription className="text-slate-400">
-            Analyze wallet behavior and generate a comprehensive reputability score using advanced AI
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex space-x-2">
-            <Input
-              placeholder="Enter wallet address..."
-              value={walletAddress}
-              onChange={(e) => setWalletAddress(e.target.value)}
-              className="bg-slate-800/50 border-slate-700/50 text-white"
-            />
+      {models.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm text-slate-400">Scoring model:</p>
+          {models.map((model) => (
             <Button
-              onClick={analyzeWallet}
-              disabled={loading || !walletAddress.trim()}
-              className="bg-blue-600 hover:bg-blue-700"
+              key={model.id}
+              variant={modelId === model.id ? "default" : "outline"}
+              size="sm"
+              title={model.description}
+              onClick={() => setModelId(model.id)}
+              className={`text-xs ${
+                modelId === model.id ? "bg-blue-500 hover:bg-blue-600" : "border-slate-700 text-slate-400"
+              }`}
             >
-              {loading ? (
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
-              ) : (
-                <Search className="w-4 h-4" />
-              )}
-              Analyze
+              {model.id} v{model.version}
             </Button>
-          </div>
-
-          {/* Example wallet addresses */}
-          <div className="space-y-2">
-            <p className="text-sm text-slate-400">Try these example wallets:</p>
-            <div className="flex flex-wrap gap-2">
-              {exampleWallets.map((wallet) => (
-                <Button
-                  key={wallet.address}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setWalletAddress(wallet.address)}
-                  className={`text-xs ${
-                    wallet.type === "high"
-                      ? "border-green-500/30 text-green-400 hover:bg-green-500/10"
-                      : wallet.type === "medium"
-                        ? "border-yellow-500/30 text-yellow-400 hover:bg-yellow-500/10"
-                        : "border-red-500/30 text-red-400 hover:bg-red-500/10"
-                  }`}
-                >
-                  {wallet.label}
-                </Button>
-              ))}
-            </div>
-          </div>
+          ))}
+        </div>
+      )}
 
-          {error && (
-            <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
-              <p className="text-red-400 text-sm">{error}</p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      <Tabs defaultValue="single" className="space-y-6">
+        <TabsList className="bg-slate-800/50">
+          <TabsTrigger value="single">Single Wallet</TabsTrigger>
+          <TabsTrigger value="batch">Batch</TabsTrigger>
+        </TabsList>
 
-      {data && (
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          {/* Score Overview */}
+        <TabsContent value="single" className="space-y-6">
           <Card className="bg-slate-900/50 border-slate-800/50">
             <CardHeader>
-              <CardTitle className="text-white flex items-center space-x-2">
-                <Shield className="w-5 h-5" />
-                <span>Trust Score</span>
-              </CardTitle>
+              <CardTitle className="text-white">AI-Powered Trust Assessment</CardTitle>
+              <CardDescription className="text-slate-400">
+                Analyze wallet behavior and generate a comprehensive reputability score using advanced AI
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="text-center">
-                <div className={`text-4xl font-bold ${getScoreColor(data.score)}`}>{data.score}/100</div>
-                <Badge className={getRiskBadgeColor(data.riskLevel)}>
-                  {data.riskLevel ? data.riskLevel.toUpperCase() : "UNKNOWN"} RISK
-                </Badge>
+              <div className="flex space-x-2">
+                <Input
+                  placeholder="Enter wallet address..."
+                  value={walletAddress}
+                  onChange={(e) => setWalletAddress(e.target.value)}
+                  className="bg-slate-800/50 border-slate-700/50 text-white"
+                />
+                <Input
+                  type="date"
+                  title="Score everything since this date (default: latest 100 transactions)"
+                  value={sinceDate}
+                  onChange={(e) => setSinceDate(e.target.value)}
+                  className="w-44 bg-slate-800/50 border-slate-700/50 text-white"
+                />
+                <Input
+                  type="date"
+                  title="Score the wallet as it was at the end of this date (default: now)"
+                  value={asOfDate}
+                  onChange={(e) => setAsOfDate(e.target.value)}
+                  className="w-44 bg-slate-800/50 border-slate-700/50 text-white"
+                />
+                <Button
+                  onClick={analyzeWallet}
+                  disabled={loading || !walletAddress.trim()}
+                  className="bg-blue-600 hover:bg-blue-700"
+                >
+                  {loading ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
+                  ) : (
+                    <Search className="w-4 h-4" />
+                  )}
+                  Analyze
+                </Button>
               </div>
-              <Progress value={data.score} className="h-2" />
-            </CardContent>
-          </Card>
 
-          {/* AI Explanation */}
-          <Card className="lg:col-span-2 bg-slate-900/50 border-slate-800/50">
-            <CardHeader>
-              <CardTitle className="text-white">AI Analysis</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <p className="text-slate-300 leading-relaxed">{data.explanation}</p>
+              {/* Example wallet addresses */}
+              <div className="space-y-2">
+                <p className="text-sm text-slate-400">Try these example wallets:</p>
+                <div className="flex flex-wrap gap-2">
+                  {exampleWallets.map((wallet) => (
+                    <Button
+                      key={wallet.address}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setWalletAddress(wallet.address)}
+                      className={`text-xs ${
+                        wallet.type === "high"
+                          ? "border-green-500/30 text-green-400 hover:bg-green-500/10"
+                          : wallet.type === "medium"
+                            ? "border-yellow-500/30 text-yellow-400 hover:bg-yellow-500/10"
+                            : "border-red-500/30 text-red-400 hover:bg-red-500/10"
+                      }`}
+                    >
+                      {wallet.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {error && (
+                <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+                  <p className="text-red-400 text-sm">{error}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
-        </div>
-      )}
 
-      {data && (
-        <Tabs defaultValue="factors" className="space-y-4">
-          <TabsList className="bg-slate-800/50">
-            <TabsTrigger value="factors">Contributing Factors</TabsTrigger>
-            <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="factors" className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {data.factors.map((factor, index) => (
-                <Card key={index} className="bg-slate-900/50 border-slate-800/50">
-                  <CardContent className="p-4">
-                    <div className="flex items-start justify-between mb-2">
-                      <h3 className="font-medium text-white">{factor.name}</h3>
-                      <div className="flex items-center space-x-1">
-                        {factor.type === "positive" ? (
-                          <TrendingUp className="w-4 h-4 text-green-400" />
-                        ) : factor.type === "negative" ? (
-                          <TrendingDown className="w-4 h-4 text-red-400" />
-                        ) : (
-                          <AlertTriangle className="w-4 h-4 text-yellow-400" />
-                        )}
-                        <span
-                          className={`text-sm font-medium ${
-                            factor.type === "positive"
-                              ? "text-green-400"
-                              : factor.type === "negative"
-                                ? "text-red-400"
-                                : "text-yellow-400"
-                          }`}
+          {data && (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Score Overview */}
+              <Card className="bg-slate-900/50 border-slate-800/50">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center space-x-2">
+                    <Shield className="w-5 h-5" />
+                    <span>Trust Score</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="text-center">
+                    <div className={`text-4xl font-bold ${getScoreColor(data.score)}`}>{data.score}/100</div>
+                    <Badge className={getRiskBadgeColor(data.riskLevel)}>
+                      {data.riskLevel ? data.riskLevel.toUpperCase() : "UNKNOWN"} RISK
+                    </Badge>
+                    {data.model && (
+                      <p className="text-xs text-slate-500 mt-2">
+                        Model {data.model.id} v{data.model.version}
+                      </p>
+                    )}
+                    {data.asOf && (
+                      <p className="text-xs text-slate-500">
+                        As of {data.asOf.timestamp ? new Date(data.asOf.timestamp).toLocaleString() : "-"}
+                        {data.asOf.slot !== null && ` (slot ${data.asOf.slot})`}
+                      </p>
+                    )}
+                  </div>
+                  <Progress value={data.score} className="h-2" />
+                </CardContent>
+              </Card>
+
+              {/* AI Explanation */}
+              <Card className="lg:col-span-2 bg-slate-900/50 border-slate-800/50">
+                <CardHeader>
+                  <CardTitle className="text-white">AI Analysis</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-slate-300 leading-relaxed">{data.explanation}</p>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+
+          {data && history.length > 0 && (
+            <ReputabilityHistory
+              history={history.map((entry) => ({
+                date: entry.analyzedAt,
+                score: entry.score,
+                delta: entry.delta,
+                model: `${entry.model.id} v${entry.model.version}`,
+              }))}
+            />
+          )}
+
+          {data && (
+            <Tabs defaultValue="factors" className="space-y-4">
+              <TabsList className="bg-slate-800/50">
+                <TabsTrigger value="factors">Contributing Factors</TabsTrigger>
+                <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
+                {data.walletAnalysis?.drainIncidents?.length > 0 && (
+                  <TabsTrigger value="incidents">Incidents ({data.walletAnalysis.drainIncidents.length})</TabsTrigger>
+                )}
+                {resultModel && <TabsTrigger value="simulator">What-If</TabsTrigger>}
+              </TabsList>
+
+              <TabsContent value="factors" className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {data.factors.map((factor, index) => (
+                    <Card key={index} className="bg-slate-900/50 border-slate-800/50">
+                      <CardContent className="p-4">
+                        <div
+                          className="flex items-start justify-between mb-2 cursor-pointer"
+                          onClick={() => setExpandedFactor(expandedFactor === factor.name ? null : factor.name)}
                         >
-                          {factor.impact > 0 ? "+" : ""}
-                          {factor.impact}
-                        </span>
-                      </div>
-                    </div>
-                    <p className="text-sm text-slate-400">{factor.description}</p>
+                          <div className="flex items-center space-x-1">
+                            {expandedFactor === factor.name ? (
+                              <ChevronDown className="w-4 h-4 text-slate-400" />
+                            ) : (
+                              <ChevronRight className="w-4 h-4 text-slate-400" />
+                            )}
+                            <h3 className="font-medium text-white">{factor.name}</h3>
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            {factor.type === "positive" ? (
+                              <TrendingUp className="w-4 h-4 text-green-400" />
+                            ) : factor.type === "negative" ? (
+                              <TrendingDown className="w-4 h-4 text-red-400" />
+                            ) : (
+                              <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                            )}
+                            <span
+                              className={`text-sm font-medium ${
+                                factor.type === "positive"
+                                  ? "text-green-400"
+                                  : factor.type === "negative"
+                                    ? "text-red-400"
+                                    : "text-yellow-400"
+                              }`}
+                            >
+                              {factor.impact > 0 ? "+" : ""}
+                              {factor.impact}
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-sm text-slate-400">{factor.description}</p>
+
+                        {expandedFactor === factor.name && (
+                          <div className="mt-3 pt-3 border-t border-slate-800 space-y-2">
+                            {factor.evidence.length === 0 ? (
+                              <p className="text-xs text-slate-500">No contributing transactions</p>
+                            ) : (
+                              factor.evidence.map((item, evidenceIndex) => (
+                                <div
+                                  key={`${item.signature}-${evidenceIndex}`}
+                                  className="flex items-center justify-between text-xs bg-slate-800/30 rounded p-2"
+                                >
+                                  <div className="space-y-0.5 min-w-0">
+                                    <p className="font-mono text-slate-300">{shortAddress(item.signature)}</p>
+                                    <p className="text-slate-500">
+                                      {new Date(item.timestamp * 1000).toLocaleString()}
+                                      {item.counterparty && ` · ${shortAddress(item.counterparty)}`}
+                                      {item.program && ` · program ${shortAddress(item.program)}`}
+                                      {item.amount !== undefined && ` · ${item.amount.toFixed(4)} SOL`}
+                                      {item.detail && ` · ${item.detail}`}
+                                    </p>
+                                  </div>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openTransaction(item.signature)}
+                                    className="text-slate-400 hover:text-white"
+                                  >
+                                    <ExternalLink className="w-3 h-3" />
+                                  </Button>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="recommendations">
+                <Card className="bg-slate-900/50 border-slate-800/50">
+                  <CardHeader>
+                    <CardTitle className="text-white">Recommendations</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-2">
+                      {data.recommendations.map((rec, index) => (
+                        <li key={index} className="flex items-start space-x-2">
+                          <CheckCircle className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                          <span className="text-slate-300">{rec}</span>
+                        </li>
+                      ))}
+                    </ul>
                   </CardContent>
                 </Card>
-              ))}
-            </div>
-          </TabsContent>
-
-          <TabsContent value="recommendations">
-            <Card className="bg-slate-900/50 border-slate-800/50">
-              <CardHeader>
-                <CardTitle className="text-white">Recommendations</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2">
-                  {data.recommendations.map((rec, index) => (
-                    <li key={index} className="flex items-start space-x-2">
-                      <CheckCircle className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
-                      <span className="text-slate-300">{rec}</span>
-                    </li>
-                  ))}
-                </ul>
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
-      )}
+              </TabsContent>
+
+              {data.walletAnalysis?.drainIncidents?.length > 0 && (
+                <TabsContent value="incidents">
+                  <Card className="bg-slate-900/50 border-slate-800/50">
+                    <CardHeader>
+                      <CardTitle className="text-white">Drain &amp; Phishing Incidents</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <DrainIncidentList incidents={data.walletAnalysis.drainIncidents} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
+
+              {resultModel && (
+                <TabsContent value="simulator">
+                  <ScoreSimulator walletAnalysis={data.walletAnalysis} model={resultModel} />
+                </TabsContent>
+              )}
+            </Tabs>
+          )}
+        </TabsContent>
+
+        <TabsContent value="batch">
+          <BatchReputability model={modelId} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
@@ -7,6 +7,9 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 interface HistoryItem {
   date: string
   score: number
+  // Change from the previous run with the same model, when there is one
+  delta?: number | null
+  model?: string
 }
 
 interface ReputabilityHistoryProps {
@@ -23,7 +26,7 @@ export function ReputabilityHistory({ history }: ReputabilityHistoryProps) {
   }
 
   const currentScore = history[history.length - 1]?.score || 0
-  const previousScore = history[history.length - 2]?.score || 0
+  const previousScore = history[history.length - 2]?.score ?? currentScore
   const scoreChange = currentScore - previousScore
 
   return (
@@ -98,6 +101,27 @@ export function ReputabilityHistory({ history }: ReputabilityHistoryProps) {
             </div>
           </div>
         </div>
+
+        {history.some((item) => item.model) && (
+          <div className="mt-4 pt-4 border-t border-slate-700/50 space-y-1 max-h-48 overflow-y-auto">
+            {[...history].reverse().map((item, index) => (
+              <div key={`${item.date}-${index}`} className="flex items-center justify-between text-xs">
+                <span className="text-slate-400">{new Date(item.date).toLocaleString()}</span>
+                <span className="text-slate-500">{item.model}</span>
+                <span className="text-white font-medium w-16 text-right">
+                  {item.score}
+                  {item.delta ? (
+                    <span className={item.delta > 0 ? "text-green-400" : "text-red-400"}>
+                      {" "}
+                      ({item.delta > 0 ? "+" : ""}
+                      {item.delta})
+                    </span>
+                  ) : null}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
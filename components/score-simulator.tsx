@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { FeatureImportance } from "@/components/feature-importance"
+import { FlaskConical, RotateCcw } from "lucide-react"
+import {
+  type ScoringMetric,
+  type ScoringModel,
+  calculateReputabilityScore,
+  marginalEffects,
+} from "@/lib/scoring-model"
+
+interface SimulatedInput {
+  metric: ScoringMetric
+  label: string
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+// Inputs the user can adjust, with slider ranges
+const SIMULATED_INPUTS: SimulatedInput[] = [
+  {
+    metric: "stakedShare",
+    label: "Staked share of SOL",
+    max: 1,
+    step: 0.01,
+    format: (v) => `${(v * 100).toFixed(0)}%`,
+  },
+  { metric: "flaggedInteractions", label: "Flagged interactions", max: 20, step: 1, format: String },
+  { metric: "walletAgeMonths", label: "Wallet age", max: 60, step: 1, format: (v) => `${v.toFixed(0)} mo` },
+  { metric: "legitimateProgramUsage", label: "Legitimate program usage", max: 50, step: 1, format: String },
+  { metric: "riskyDelegations", label: "Risky token approvals", max: 10, step: 1, format: String },
+  { metric: "drainerIncidents", label: "Drainer incidents", max: 10, step: 1, format: String },
+  { metric: "poisoningPayments", label: "Payments to look-alikes", max: 10, step: 1, format: String },
+  {
+    metric: "botLikelihood",
+    label: "Bot likelihood",
+    max: 1,
+    step: 0.01,
+    format: (v) => `${(v * 100).toFixed(0)}%`,
+  },
+]
+
+type Impact = "positive" | "negative" | "neutral"
+
+interface ScoreSimulatorProps {
+  walletAnalysis: any
+  model: ScoringModel
+}
+
+// Reruns the scoring model in the browser with adjusted inputs, using the same
+// code and model version as the server-side score
+export function ScoreSimulator({ walletAnalysis, model }: ScoreSimulatorProps) {
+  const [overrides, setOverrides] = useState<Partial<Record<ScoringMetric, number>>>({})
+
+  const actual = calculateReputabilityScore(walletAnalysis, model)
+  const simulatedAnalysis = { ...walletAnalysis, ...overrides }
+  const simulated = calculateReputabilityScore(simulatedAnalysis, model)
+  const scoreDelta = simulated.score - actual.score
+
+  // At the wallet's actual inputs, so moving the sliders does not change them
+  const effects = marginalEffects(walletAnalysis, model)
+  const largestEffect = Math.max(1, ...effects.map((effect) => Math.abs(effect.effect)))
+  const features = effects.map((effect) => ({
+    name: `${effect.name} (+${effect.step})`,
+    importance: effect.effect / largestEffect,
+    impact: (effect.effect > 0 ? "positive" : effect.effect < 0 ? "negative" : "neutral") as Impact,
+    detail: `${effect.effect > 0 ? "+" : ""}${effect.effect} pts`,
+  }))
+
+  const deltaClass = (delta: number) => (delta > 0 ? "text-green-400" : delta < 0 ? "text-red-400" : "text-slate-400")
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="bg-slate-900/50 border-slate-800/50">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white flex items-center space-x-2">
+              <FlaskConical className="w-5 h-5" />
+              <span>What-If Simulator</span>
+            </CardTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOverrides({})}
+              disabled={Object.keys(overrides).length === 0}
+              className="text-slate-400 hover:text-white"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          </div>
+          <CardDescription className="text-slate-400">
+            Adjust the wallet's inputs to see how model {model.id} v{model.version} would score it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="flex items-baseline justify-center space-x-3">
+            <span className="text-4xl font-bold text-white">{simulated.score}</span>
+            <span className={`text-sm font-medium ${deltaClass(scoreDelta)}`}>
+              {scoreDelta > 0 ? "+" : ""}
+              {scoreDelta} vs actual {actual.score}
+            </span>
+          </div>
+
+          {SIMULATED_INPUTS.map((input) => {
+            const value = overrides[input.metric] ?? (Number(walletAnalysis[input.metric]) || 0)
+            return (
+              <div key={input.metric} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-300">{input.label}</span>
+                  <span className="text-white font-medium">{input.format(value)}</span>
+                </div>
+                <Slider
+                  value={[Math.min(value, input.max)]}
+                  max={input.max}
+                  step={input.step}
+                  onValueChange={([next]) => setOverrides({ ...overrides, [input.metric]: next })}
+                />
+              </div>
+            )
+          })}
+
+          <div className="pt-3 border-t border-slate-800 space-y-1">
+            {simulated.factors.map((factor, index) => {
+              const delta = factor.impact - actual.factors[index].impact
+              return (
+                <div key={factor.id} className="flex justify-between text-xs">
+                  <span className="text-slate-400">{factor.name}</span>
+                  <span className="text-slate-300">
+                    {factor.impact > 0 ? "+" : ""}
+                    {factor.impact}
+                    {delta !== 0 && (
+                      <span className={`ml-2 ${deltaClass(delta)}`}>
+                        ({delta > 0 ? "+" : ""}
+                        {delta})
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <FeatureImportance title="Marginal Effects at Current Values" features={features} />
+    </div>
+  )
+}
@@ -11,6 +11,8 @@ import {
   Grid3X3,
   Shield,
   Search,
+  ShieldAlert,
+  Users,
   LogOut,
 } from "lucide-react"
 import { SolanaPriceWidget } from "@/components/solana-price-widget"
@@ -31,6 +33,8 @@ const navigation = [
   { id: "nfts", name: "NFTs", icon: Grid3X3 },
   { id: "reputability", name: "Reputability", icon: Shield },
   { id: "check-ca", name: "Check CA", icon: Search },
+  { id: "sybil", name: "Sybil Clusters", icon: Users },
+  { id: "lists", name: "Flag Lists", icon: ShieldAlert },
 ]
 
 export function Sidebar({ activeTab, onTabChange }: SidebarProps) {
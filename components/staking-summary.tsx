@@ -0,0 +1,143 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Layers } from "lucide-react"
+import { walletAPI } from "@/lib/wallet-api"
+import type { StakeAccountSummary, StakingProfile } from "@/lib/staking"
+
+interface StakingSummaryProps {
+  wallet: string
+}
+
+const STATUS_COLORS: Record<StakeAccountSummary["status"], string> = {
+  active: "bg-green-500/20 text-green-400 border-green-500/30",
+  deactivated: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  undelegated: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+// Native stake accounts and liquid staking tokens, valued in SOL
+export function StakingSummary({ wallet }: StakingSummaryProps) {
+  const [staking, setStaking] = useState<StakingProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchStaking = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        setStaking(await walletAPI.getStaking(wallet))
+      } catch (error) {
+        console.error("Error fetching staking positions:", error)
+        setError(error instanceof Error ? error.message : "Failed to fetch staking positions")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (wallet) fetchStaking()
+  }, [wallet])
+
+  return (
+    <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-teal-400" />
+          <span>Staking</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse h-16 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !staking || (staking.stakeAccounts.length === 0 && staking.liquidStakingTokens.length === 0) ? (
+          <p className="text-slate-400 text-sm">No stake accounts or liquid staking tokens found</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs text-slate-400">Total staked</p>
+                <p className="text-xl font-bold text-white">{staking.totalStakedSol.toFixed(2)} SOL</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Native stake</p>
+                <p className="text-xl font-bold text-white">{staking.nativeStakeSol.toFixed(2)} SOL</p>
+                <p className="text-xs text-slate-500">{staking.validators.length} validators</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Liquid staking</p>
+                <p className="text-xl font-bold text-white">{staking.liquidStakeSol.toFixed(2)} SOL</p>
+              </div>
+            </div>
+
+            {staking.stakeAccounts.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-slate-800">
+                    <TableHead className="text-slate-400">Stake account</TableHead>
+                    <TableHead className="text-slate-400">Delegated</TableHead>
+                    <TableHead className="text-slate-400">Validator</TableHead>
+                    <TableHead className="text-slate-400">Epochs</TableHead>
+                    <TableHead className="text-slate-400">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staking.stakeAccounts.map((account) => (
+                    <TableRow key={account.address} className="border-slate-800">
+                      <TableCell className="font-mono text-xs text-white" title={account.address}>
+                        <a
+                          href={`https://solscan.io/account/${account.address}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:text-blue-400"
+                        >
+                          {shortAddress(account.address)}
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-white">{account.delegated.toFixed(2)} SOL</TableCell>
+                      <TableCell className="font-mono text-xs text-slate-300" title={account.validator || undefined}>
+                        {account.validator ? shortAddress(account.validator) : "-"}
+                      </TableCell>
+                      <TableCell className="text-xs text-slate-400">
+                        {account.activationEpoch !== null ? `from ${account.activationEpoch}` : "-"}
+                        {account.deactivationEpoch !== null && ` to ${account.deactivationEpoch}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_COLORS[account.status]}>{account.status}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {staking.liquidStakingTokens.length > 0 && (
+              <div className="space-y-2">
+                {staking.liquidStakingTokens.map((holding) => (
+                  <div key={holding.mint} className="flex justify-between text-sm">
+                    <span className="text-slate-300">
+                      {holding.amount.toFixed(4)} {holding.symbol}
+                    </span>
+                    <span className="text-white" title={`${holding.solPerToken.toFixed(4)} SOL per ${holding.symbol}`}>
+                      ≈ {holding.solValue.toFixed(2)} SOL
+                      {holding.rateSource === "par" && <span className="ml-1 text-xs text-slate-500">(at par)</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
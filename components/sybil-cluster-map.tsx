@@ -0,0 +1,269 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import * as d3 from "d3"
+import { Users } from "lucide-react"
+import type { SybilAnalysis, SybilSignal } from "@/lib/sybil"
+
+interface ClusterNode {
+  id: string
+  cluster: number
+  links: number
+  x?: number
+  y?: number
+  fx?: number | null
+  fy?: number | null
+}
+
+interface ClusterLink {
+  source: string | ClusterNode
+  target: string | ClusterNode
+  score: number
+  signals: SybilSignal[]
+}
+
+export const SIGNAL_LABELS: Record<SybilSignal, string> = {
+  "shared-funder": "Shared funder",
+  "shared-fee-payer": "Shared fee payer",
+  "shared-destination": "Shared destination",
+  "identical-sequence": "Identical sequence",
+  "funding-time": "Funded close together",
+}
+
+const CLUSTER_COLORS = ["#ef4444", "#f59e0b", "#8b5cf6", "#ec4899", "#10b981", "#3b82f6", "#14b8a6", "#f97316"]
+const UNCLUSTERED_COLOR = "#475569"
+
+export function clusterColor(cluster: number) {
+  return cluster === 0 ? UNCLUSTERED_COLOR : CLUSTER_COLORS[(cluster - 1) % CLUSTER_COLORS.length]
+}
+
+// Force layout of the analyzed wallets: clustered wallets are pulled
+// together by their links, unclustered ones drift around the edge
+export function SybilClusterMap({ analysis }: { analysis: SybilAnalysis }) {
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  useEffect(() => {
+    if (!svgRef.current) return
+
+    // Clear previous visualization
+    d3.select(svgRef.current).selectAll("*").remove()
+
+    const clusterOf = new Map<string, number>()
+    analysis.clusters.forEach((cluster) => cluster.addresses.forEach((address) => clusterOf.set(address, cluster.id)))
+
+    const linkCounts = new Map<string, number>()
+    analysis.links.forEach((link) => {
+      linkCounts.set(link.source, (linkCounts.get(link.source) || 0) + 1)
+      linkCounts.set(link.target, (linkCounts.get(link.target) || 0) + 1)
+    })
+
+    const nodes: ClusterNode[] = [
+      ...analysis.clusters.reduce<string[]>((all, cluster) => [...all, ...cluster.addresses], []),
+      ...analysis.unclustered,
+    ].map((address) => ({ id: address, cluster: clusterOf.get(address) || 0, links: linkCounts.get(address) || 0 }))
+    const links: ClusterLink[] = analysis.links.map((link) => ({
+      source: link.source,
+      target: link.target,
+      score: link.score,
+      signals: Array.from(new Set(link.evidence.map((item) => item.signal))),
+    }))
+
+    if (nodes.length === 0) return
+
+    const width = svgRef.current.clientWidth
+    const height = svgRef.current.clientHeight
+
+    const svg = d3
+      .select(svgRef.current)
+      .attr("width", width)
+      .attr("height", height)
+      .attr("viewBox", [0, 0, width, height])
+
+    // Create zoom behavior
+    const zoom = d3
+      .zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.1, 4])
+      .on("zoom", (event: any) => {
+        container.attr("transform", event.transform)
+      })
+
+    svg.call(zoom)
+
+    // Create container for zoomable content
+    const container = svg.append("g")
+
+    const radius = (d: ClusterNode) => (d.cluster === 0 ? 5 : Math.min(16, 7 + d.links))
+
+    // Create force simulation
+    const simulation = d3
+      .forceSimulation<ClusterNode>(nodes)
+      .force(
+        "link",
+        d3
+          .forceLink<ClusterNode, ClusterLink>(links)
+          .id((d: ClusterNode) => d.id)
+          .distance((d: ClusterLink) => 90 - Math.min(60, d.score * 5))
+          .strength(0.6),
+      )
+      .force(
+        "charge",
+        d3.forceManyBody<ClusterNode>().strength((d: ClusterNode) => (d.cluster === 0 ? -30 : -120)),
+      )
+      .force("center", d3.forceCenter(width / 2, height / 2))
+      .force(
+        "collision",
+        d3.forceCollide<ClusterNode>().radius((d: ClusterNode) => radius(d) + 4),
+      )
+
+    // Create links, thicker for stronger evidence
+    const link = container
+      .append("g")
+      .selectAll("line")
+      .data(links)
+      .enter()
+      .append("line")
+      .attr("stroke", "#94a3b8")
+      .attr("stroke-opacity", 0.6)
+      .attr("stroke-width", (d: ClusterLink) => Math.min(8, 1 + d.score / 2))
+
+    // Create node groups
+    const nodeGroup = container
+      .append("g")
+      .selectAll("g")
+      .data(nodes)
+      .enter()
+      .append("g")
+      .attr("class", "node")
+      .style("cursor", "pointer")
+      .call(d3.drag<SVGGElement, ClusterNode>().on("start", dragstarted).on("drag", dragged).on("end", dragended))
+
+    nodeGroup
+      .append("circle")
+      .attr("r", radius)
+      .attr("fill", (d: ClusterNode) => clusterColor(d.cluster))
+      .attr("stroke", "#fff")
+      .attr("stroke-width", (d: ClusterNode) => (d.cluster === 0 ? 1 : 2))
+      .attr("opacity", 0.9)
+
+    nodeGroup
+      .filter((d: ClusterNode) => d.cluster !== 0)
+      .append("text")
+      .text((d: ClusterNode) => `${d.id.substring(0, 4)}...${d.id.substring(d.id.length - 4)}`)
+      .attr("font-size", 9)
+      .attr("dx", (d: ClusterNode) => radius(d) + 4)
+      .attr("dy", 3)
+      .attr("fill", "#fff")
+
+    // Add hover effects
+    nodeGroup
+      .on("mouseover", function (this: SVGGElement, event: any, d: ClusterNode) {
+        d3.select(this)
+          .select("circle")
+          .transition()
+          .duration(200)
+          .attr("r", radius(d) * 1.3)
+          .attr("opacity", 1)
+
+        const linkedSignals = links
+          .filter((item) => (item.source as ClusterNode).id === d.id || (item.target as ClusterNode).id === d.id)
+          .reduce<SybilSignal[]>((all, item) => [...all, ...item.signals], [])
+        const signalNames = Array.from(new Set(linkedSignals)).map((signal) => SIGNAL_LABELS[signal])
+
+        const tooltip = d3
+          .select("body")
+          .append("div")
+          .attr("class", "sybil-tooltip")
+          .style("position", "absolute")
+          .style("background", "rgba(0, 0, 0, 0.9)")
+          .style("color", "white")
+          .style("padding", "12px")
+          .style("border-radius", "8px")
+          .style("font-size", "12px")
+          .style("pointer-events", "none")
+          .style("z-index", "1000")
+          .style("border", "1px solid #374151")
+
+        tooltip
+          .html(`
+          <div><strong>${d.cluster === 0 ? "Unclustered" : `Cluster ${d.cluster}`}</strong></div>
+          <div style="font-family: monospace; font-size: 10px; margin: 4px 0;">${d.id}</div>
+          <div>Links: ${d.links}</div>
+          ${signalNames.length > 0 ? `<div>Signals: ${signalNames.join(", ")}</div>` : ""}
+        `)
+          .style("left", event.pageX + 10 + "px")
+          .style("top", event.pageY - 10 + "px")
+      })
+      .on("mouseout", function (this: SVGGElement, event: any, d: ClusterNode) {
+        d3.select(this).select("circle").transition().duration(200).attr("r", radius(d)).attr("opacity", 0.9)
+
+        // Remove tooltip
+        d3.selectAll(".sybil-tooltip").remove()
+      })
+
+    // Update positions on simulation tick
+    simulation.on("tick", () => {
+      link
+        .attr("x1", (d: ClusterLink) => (d.source as ClusterNode).x!)
+        .attr("y1", (d: ClusterLink) => (d.source as ClusterNode).y!)
+        .attr("x2", (d: ClusterLink) => (d.target as ClusterNode).x!)
+        .attr("y2", (d: ClusterLink) => (d.target as ClusterNode).y!)
+
+      nodeGroup.attr("transform", (d: ClusterNode) => `translate(${d.x},${d.y})`)
+    })
+
+    // Drag functions
+    function dragstarted(event: any, d: ClusterNode) {
+      if (!event.active) simulation.alphaTarget(0.3).restart()
+      d.fx = d.x
+      d.fy = d.y
+    }
+
+    function dragged(event: any, d: ClusterNode) {
+      d.fx = event.x
+      d.fy = event.y
+    }
+
+    function dragended(event: any, d: ClusterNode) {
+      if (!event.active) simulation.alphaTarget(0)
+      d.fx = null
+      d.fy = null
+    }
+
+    // Cleanup function
+    return () => {
+      simulation.stop()
+      d3.selectAll(".sybil-tooltip").remove()
+    }
+  }, [analysis])
+
+  return (
+    <div className="relative h-full w-full">
+      {/* Legend */}
+      <div className="absolute top-4 left-4 bg-slate-900/95 p-3 rounded-lg text-xs text-slate-300 z-10 border border-slate-700/50">
+        <div className="font-medium mb-2 flex items-center gap-1">
+          <Users className="w-3 h-3" />
+          Clusters
+        </div>
+        <div className="space-y-1">
+          {analysis.clusters.slice(0, CLUSTER_COLORS.length).map((cluster) => (
+            <div key={cluster.id} className="flex items-center">
+              <div className="w-3 h-3 rounded-full mr-2" style={{ background: clusterColor(cluster.id) }}></div>
+              <span>
+                Cluster {cluster.id} ({cluster.addresses.length})
+              </span>
+            </div>
+          ))}
+          <div className="flex items-center">
+            <div className="w-3 h-3 rounded-full mr-2" style={{ background: UNCLUSTERED_COLOR }}></div>
+            <span>Unclustered ({analysis.unclustered.length})</span>
+          </div>
+        </div>
+        <div className="mt-2 pt-2 border-t border-slate-700/50 text-xs text-slate-400">
+          Drag nodes • Scroll to zoom • Hover for details
+        </div>
+      </div>
+
+      <svg ref={svgRef} className="w-full h-full" />
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { ExternalLink, Loader2, Play, Upload, Users } from "lucide-react"
+import { SIGNAL_LABELS, SybilClusterMap, clusterColor } from "@/components/sybil-cluster-map"
+import { parseAddressList } from "@/lib/batch-scoring"
+import type { SybilAnalysis, SybilSignal } from "@/lib/sybil"
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`
+}
+
+// Screens a list of wallets (e.g. an airdrop list) for groups controlled by
+// the same operator
+export function SybilClusters() {
+  const [input, setInput] = useState("")
+  const [analysis, setAnalysis] = useState<SybilAnalysis | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [expanded, setExpanded] = useState<number | null>(null)
+
+  const addresses = parseAddressList(input)
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) setInput(await file.text())
+  }
+
+  const analyze = async () => {
+    setLoading(true)
+    setError("")
+    setAnalysis(null)
+    setExpanded(null)
+
+    try {
+      const response = await fetch("/api/sybil-clusters", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ addresses }),
+      })
+
+      const result = await response.json()
+      if (!response.ok || result.error) {
+        throw new Error(result.error || `HTTP error! status: ${response.status}`)
+      }
+
+      setAnalysis(result)
+    } catch (analysisError) {
+      console.error("Error analyzing clusters:", analysisError)
+      setError(analysisError instanceof Error ? analysisError.message : "Failed to analyze clusters")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const clusteredCount = (analysis?.clusters || []).reduce((total, cluster) => total + cluster.addresses.length, 0)
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900/50 border-slate-800/50">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center space-x-2">
+            <Users className="w-5 h-5" />
+            <span>Sybil Cluster Detection</span>
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            Groups wallets by shared funding source, shared fee payer, funding time, identical setup transactions and
+            common consolidation destinations
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            rows={6}
+            placeholder="One wallet address per line..."
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={loading}
+            className="bg-slate-800/50 border-slate-700/50 text-white font-mono text-xs"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="inline-flex items-center space-x-2 text-sm text-slate-400 hover:text-white">
+              <Upload className="w-4 h-4" />
+              <span>Upload CSV</span>
+              <input
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+            </label>
+            <span className="text-sm text-slate-500">{addresses.length} addresses</span>
+            <div className="flex-1" />
+            <Button
+              onClick={analyze}
+              disabled={loading || addresses.length < 2}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              {loading ? "Analyzing..." : "Find Clusters"}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+              <p className="text-red-400 text-sm">{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {analysis && (
+        <>
+          <Card className="bg-slate-900/50 border-slate-800/50">
+            <CardHeader>
+              <CardTitle className="text-white">Cluster Graph</CardTitle>
+              <CardDescription className="text-slate-400">
+                {analysis.clusters.length} clusters covering {clusteredCount} wallets,{" "}
+                {analysis.unclustered.length} unclustered
+                {analysis.failed.length > 0 && `, ${analysis.failed.length} could not be loaded`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[500px]">
+                <SybilClusterMap analysis={analysis} />
+              </div>
+            </CardContent>
+          </Card>
+
+          {analysis.clusters.map((cluster) => (
+            <Card key={cluster.id} className="bg-slate-900/50 border-slate-800/50">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-white flex items-center space-x-2">
+                    <div className="w-3 h-3 rounded-full" style={{ background: clusterColor(cluster.id) }} />
+                    <span>
+                      Cluster {cluster.id} · {cluster.addresses.length} wallets
+                    </span>
+                  </CardTitle>
+                  <div className="flex flex-wrap gap-1 justify-end">
+                    {(Object.keys(cluster.signals) as SybilSignal[]).map((signal) => (
+                      <Badge key={signal} variant="outline" className="border-slate-600 text-slate-300">
+                        {SIGNAL_LABELS[signal]} × {cluster.signals[signal]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {cluster.addresses.map((address) => (
+                    <span key={address} className="font-mono text-xs text-slate-300" title={address}>
+                      {shortAddress(address)}
+                    </span>
+                  ))}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpanded(expanded === cluster.id ? null : cluster.id)}
+                  className="text-slate-400 hover:text-white px-0"
+                >
+                  {expanded === cluster.id ? "Hide evidence" : `Show evidence (${cluster.evidence.length})`}
+                </Button>
+                {expanded === cluster.id && (
+                  <div className="space-y-2">
+                    {cluster.evidence.map((item, index) => (
+                      <div key={index} className="p-2 bg-slate-800/30 rounded text-xs space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-white">{SIGNAL_LABELS[item.signal]}</span>
+                          <span className="text-slate-500 font-mono">
+                            {shortAddress(item.addresses[0])} ↔ {shortAddress(item.addresses[1])}
+                          </span>
+                        </div>
+                        <p className="text-slate-400">{item.detail}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {item.signatures.map((signature) => (
+                            <a
+                              key={signature}
+                              href={`https://solscan.io/tx/${signature}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-blue-400 hover:text-blue-300 font-mono"
+                            >
+                              {signature.slice(0, 8)}...
+                              <ExternalLink className="w-3 h-3 ml-1" />
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
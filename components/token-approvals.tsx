@@ -0,0 +1,165 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ExternalLink, ShieldAlert } from "lucide-react"
+import { walletAPI } from "@/lib/wallet-api"
+import type { ApprovalAudit, DelegateRisk } from "@/lib/approvals"
+
+interface TokenApprovalsProps {
+  wallet: string
+}
+
+const RISK_COLORS: Record<DelegateRisk, string> = {
+  high: "bg-red-500/20 text-red-400 border-red-500/30",
+  medium: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  low: "bg-green-500/20 text-green-400 border-green-500/30",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function formatUsd(value: number) {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+}
+
+// Token accounts with an active delegate: who can move the wallet's tokens
+// without asking again, and how much
+export function TokenApprovals({ wallet }: TokenApprovalsProps) {
+  const [audit, setAudit] = useState<ApprovalAudit | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchApprovals = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        setAudit(await walletAPI.getApprovals(wallet))
+      } catch (error) {
+        console.error("Error fetching token approvals:", error)
+        setError(error instanceof Error ? error.message : "Failed to fetch token approvals")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (wallet) fetchApprovals()
+  }, [wallet])
+
+  return (
+    <Card className="bg-slate-900/50 backdrop-blur-xl border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <ShieldAlert className="w-5 h-5 text-orange-400" />
+          <span>Token Approvals</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="animate-pulse h-16 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !audit || audit.delegations.length === 0 ? (
+          <p className="text-slate-400 text-sm">No token account has an active delegate</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <p className="text-xs text-slate-400">Active approvals</p>
+                <p className="text-xl font-bold text-white">{audit.delegations.length}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Flagged or unlabeled</p>
+                <p className={`text-xl font-bold ${audit.riskyCount > 0 ? "text-red-400" : "text-white"}`}>
+                  {audit.riskyCount}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Value exposed</p>
+                <p className="text-xl font-bold text-white">{formatUsd(audit.totalValueUsd)}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-800">
+                  <TableHead className="text-slate-400">Token</TableHead>
+                  <TableHead className="text-slate-400">Delegate</TableHead>
+                  <TableHead className="text-slate-400">Approved</TableHead>
+                  <TableHead className="text-slate-400">Value</TableHead>
+                  <TableHead className="text-slate-400">Risk</TableHead>
+                  <TableHead className="text-slate-400">Granted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {audit.delegations.map((delegation) => (
+                  <TableRow key={delegation.tokenAccount} className="border-slate-800">
+                    <TableCell className="font-mono text-xs text-white" title={delegation.mint}>
+                      <a
+                        href={`https://solscan.io/token/${delegation.mint}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-blue-400"
+                      >
+                        {shortAddress(delegation.mint)}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-xs" title={delegation.delegate}>
+                      <a
+                        href={`https://solscan.io/account/${delegation.delegate}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-slate-300 hover:text-blue-400"
+                      >
+                        {delegation.delegateLabel || (
+                          <span className="font-mono">{shortAddress(delegation.delegate)}</span>
+                        )}
+                      </a>
+                      {delegation.delegateCategory && (
+                        <p className="text-slate-500">{delegation.delegateCategory.replace("_", " ")}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-white">
+                      {delegation.unlimited ? "Unlimited" : delegation.delegatedAmount.toLocaleString()}
+                      <p className="text-xs text-slate-500">of {delegation.balance.toLocaleString()} held</p>
+                    </TableCell>
+                    <TableCell className="text-white">
+                      {delegation.valueUsd !== null ? formatUsd(delegation.valueUsd) : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={RISK_COLORS[delegation.risk]} title={delegation.reasons.join(", ")}>
+                        {delegation.risk}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {delegation.grant ? (
+                        <a
+                          href={`https://solscan.io/tx/${delegation.grant.signature}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center text-blue-400 hover:text-blue-300"
+                        >
+                          {delegation.grant.timestamp
+                            ? new Date(delegation.grant.timestamp * 1000).toLocaleDateString()
+                            : `${delegation.grant.signature.slice(0, 8)}...`}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                      ) : (
+                        <span className="text-slate-500">Unknown</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
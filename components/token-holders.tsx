@@ -0,0 +1,187 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, PieChart } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import type { HolderDistribution, HolderKind } from "@/lib/holders"
+
+interface TokenHoldersProps {
+  distribution: HolderDistribution | null
+  loading: boolean
+  error: string | null
+}
+
+const KIND_LABELS: Record<HolderKind, string> = {
+  "lp-vault": "Liquidity pool",
+  exchange: "Exchange",
+  burn: "Burned",
+  deployer: "Deployer",
+  "deployer-funded": "Deployer-funded",
+  known: "Known",
+  wallet: "Wallet",
+}
+
+const KIND_COLORS: Record<HolderKind, string> = {
+  "lp-vault": "#10b981",
+  exchange: "#3b82f6",
+  burn: "#6b7280",
+  deployer: "#ef4444",
+  "deployer-funded": "#f97316",
+  known: "#8b5cf6",
+  wallet: "#64748b",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function percent(share: number) {
+  return `${(share * 100).toFixed(2)}%`
+}
+
+// Who holds a token: the largest holders by owner, labeled, with
+// concentration measures and a chart of each holder's share
+export function TokenHolders({ distribution, loading, error }: TokenHoldersProps) {
+  const chartData = (distribution?.holders || []).map((holder, index) => ({
+    rank: `#${index + 1}`,
+    share: Number((holder.share * 100).toFixed(2)),
+    kind: holder.kind,
+    owner: holder.owner,
+  }))
+
+  const stats = distribution
+    ? [
+        { label: "Top 10", value: percent(distribution.top10Share), alert: distribution.top10Share > 0.5 },
+        { label: "Top 50", value: percent(distribution.top50Share), alert: false },
+        { label: "Gini", value: distribution.gini.toFixed(2), alert: distribution.gini > 0.8 },
+        {
+          label: "Deployer-linked",
+          value: percent(distribution.deployerLinkedShare),
+          alert: distribution.deployerLinkedShare > 0.1,
+        },
+        { label: "In pools", value: percent(distribution.liquidityPoolShare), alert: false },
+        { label: "Burned", value: percent(distribution.burnedShare), alert: false },
+      ]
+    : []
+
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <PieChart className="w-5 h-5 text-teal-400" />
+          <span>Holder Distribution</span>
+        </CardTitle>
+        {distribution && (
+          <CardDescription className="text-slate-400">
+            {distribution.holderCount.toLocaleString()} holders across{" "}
+            {distribution.accountsAnalyzed.toLocaleString()} token accounts, the largest{" "}
+            {distribution.holders.length} listed. Concentration leaves out pools and burned tokens.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="animate-pulse h-32 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !distribution || distribution.holders.length === 0 ? (
+          <p className="text-slate-400 text-sm">
+            {distribution ? "No holders found" : "Holder distribution unavailable"}
+          </p>
+        ) : (
+          <>
+            {distribution.partial && (
+              <div className="flex items-center space-x-2 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded">
+                <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0" />
+                <p className="text-sm text-yellow-300">
+                  Partial view: the provider could not list every holder, so these measures cover only the{" "}
+                  {distribution.accountsAnalyzed} largest token accounts
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+              {stats.map((stat) => (
+                <div key={stat.label}>
+                  <p className="text-xs text-slate-400">{stat.label}</p>
+                  <p className={`text-xl font-bold ${stat.alert ? "text-red-400" : "text-white"}`}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="rank" stroke="#9ca3af" fontSize={12} />
+                  <YAxis stroke="#9ca3af" fontSize={12} unit="%" />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "#1e293b",
+                      border: "1px solid #475569",
+                      borderRadius: "8px",
+                      color: "#f1f5f9",
+                    }}
+                    formatter={(value, name, item: any) => [
+                      `${value}%`,
+                      `${KIND_LABELS[item.payload.kind as HolderKind]} ${shortAddress(item.payload.owner)}`,
+                    ]}
+                  />
+                  <Bar dataKey="share">
+                    {chartData.map((entry) => (
+                      <Cell key={entry.owner} fill={KIND_COLORS[entry.kind]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-800">
+                  <TableHead className="text-slate-400">#</TableHead>
+                  <TableHead className="text-slate-400">Owner</TableHead>
+                  <TableHead className="text-slate-400">Type</TableHead>
+                  <TableHead className="text-slate-400">Amount</TableHead>
+                  <TableHead className="text-slate-400">Share</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {distribution.holders.map((holder, index) => (
+                  <TableRow key={holder.owner} className="border-slate-800">
+                    <TableCell className="text-slate-400">{index + 1}</TableCell>
+                    <TableCell className="text-xs" title={holder.owner}>
+                      <a
+                        href={`https://solscan.io/account/${holder.owner}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-slate-300 hover:text-blue-400"
+                      >
+                        {holder.label || <span className="font-mono">{shortAddress(holder.owner)}</span>}
+                      </a>
+                      {holder.tokenAccounts.length > 1 && (
+                        <p className="text-slate-500">{holder.tokenAccounts.length} token accounts</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        className="bg-transparent border"
+                        style={{ color: KIND_COLORS[holder.kind], borderColor: KIND_COLORS[holder.kind] }}
+                      >
+                        {KIND_LABELS[holder.kind]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-white">{holder.amount.toLocaleString()}</TableCell>
+                    <TableCell className="text-white">{percent(holder.share)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
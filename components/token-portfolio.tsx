@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { TrendingUp, TrendingDown, ExternalLink } from "lucide-react"
+import { walletAPI } from "@/lib/wallet-api"
 
 interface Token {
   mint: string
@@ -30,16 +31,8 @@ export function TokenPortfolio({ wallet }: TokenPortfolioProps) {
     const fetchTokens = async () => {
       setLoading(true)
       try {
-        // Fetch token balances using Helius API
-        const response = await fetch(
-          `https://api.helius.xyz/v0/addresses/${wallet}/balances?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6`,
-        )
-
-        if (!response.ok) {
-          throw new Error(`Error fetching token balances: ${response.status}`)
-        }
-
-        const data = await response.json()
+        // Fetch token balances through the wallet API
+        const data = await walletAPI.getBalances(wallet)
 
         // Transform the Helius API response to match our Token interface
         const tokens: Token[] = []
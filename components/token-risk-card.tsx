@@ -0,0 +1,87 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { AlertTriangle, Shield, TrendingDown, TrendingUp } from "lucide-react"
+import type { RiskLevel } from "@/lib/scoring-model"
+import type { TokenRiskScore } from "@/lib/token-risk"
+
+interface TokenRiskCardProps {
+  risk: TokenRiskScore | null
+  loading: boolean
+  error: string | null
+}
+
+const RISK_COLORS: Record<RiskLevel, string> = {
+  low: "bg-green-500/20 text-green-400 border-green-500/30",
+  medium: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  high: "bg-red-500/20 text-red-400 border-red-500/30",
+}
+
+const SCORE_COLORS: Record<RiskLevel, string> = {
+  low: "text-green-400",
+  medium: "text-yellow-400",
+  high: "text-red-400",
+}
+
+// Rug-risk score of a mint with the factors behind it
+export function TokenRiskCard({ risk, loading, error }: TokenRiskCardProps) {
+  return (
+    <Card className="bg-slate-900/50 border-slate-800/50">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center space-x-2">
+          <Shield className="w-5 h-5" />
+          <span>Rug Risk</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse h-32 bg-slate-800/50 rounded" />
+        ) : error ? (
+          <p className="text-red-400 text-sm">{error}</p>
+        ) : !risk ? null : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="text-center space-y-2">
+              <div className={`text-4xl font-bold ${SCORE_COLORS[risk.riskLevel]}`}>{risk.score}/100</div>
+              <Badge className={RISK_COLORS[risk.riskLevel]}>{risk.riskLevel.toUpperCase()} RISK</Badge>
+              <Progress value={risk.score} className="h-2" />
+              <p className="text-xs text-slate-500">Higher is safer</p>
+            </div>
+            <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-3">
+              {risk.factors.map((factor) => (
+                <div key={factor.id} className="p-3 bg-slate-800/30 rounded">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium text-white">{factor.name}</span>
+                    <div className="flex items-center space-x-1">
+                      {factor.type === "positive" ? (
+                        <TrendingUp className="w-4 h-4 text-green-400" />
+                      ) : factor.type === "negative" ? (
+                        <TrendingDown className="w-4 h-4 text-red-400" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 text-yellow-400" />
+                      )}
+                      <span
+                        className={`text-sm font-medium ${
+                          factor.type === "positive"
+                            ? "text-green-400"
+                            : factor.type === "negative"
+                              ? "text-red-400"
+                              : "text-yellow-400"
+                        }`}
+                      >
+                        {factor.impact > 0 ? "+" : ""}
+                        {factor.impact}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-400">{factor.description}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -6,7 +6,11 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ZoomIn, ZoomOut, RotateCcw, ExternalLink, AlertCircle } from "lucide-react"
 import * as d3 from "d3"
-import { heliusAPI } from "@/lib/helius-api"
+import { walletAPI } from "@/lib/wallet-api"
+import { labelsAPI } from "@/lib/labels-api"
+import { type AddressEntity, isInfrastructure } from "@/lib/entities"
+import { detectPoisoning, lookalikeMap } from "@/lib/poisoning"
+import { Input } from "@/components/ui/input"
 
 interface Node {
   id: string
@@ -14,6 +18,9 @@ interface Node {
   balance: number
   transactionCount: number
   type: "main" | "frequent" | "occasional"
+  entity?: AddressEntity
+  // Frequent counterparty this address imitates (address poisoning)
+  lookalikeOf?: string
   x?: number
   y?: number
   fx?: number | null
@@ -34,16 +41,6 @@ interface TransactionGraphProps {
   wallet: string
 }
 
-// System addresses to exclude from visualization
-const SYSTEM_ADDRESSES = new Set([
-  "11111111111111111111111111111111", // System Program
-  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", // Token Program
-  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL", // Associated Token Program
-  "ComputeBudget111111111111111111111111111111", // Compute Budget Program
-  "SysvarRent111111111111111111111111111111111", // Sysvar Rent
-  "SysvarC1ock11111111111111111111111111111111", // Sysvar Clock
-])
-
 export function TransactionGraph({ wallet }: TransactionGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null)
   const [selectedNode, setSelectedNode] = useState<Node | null>(null)
@@ -51,6 +48,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [fetchProgress, setFetchProgress] = useState<string | null>(null)
+  const [labelInput, setLabelInput] = useState("")
 
   useEffect(() => {
     console.log("TransactionGraph useEffect triggered with wallet:", wallet)
@@ -111,7 +109,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
         while (retryCount < maxRetries) {
           try {
             transactions = await fetchWithTimeout(
-              () => heliusAPI.getTransactionHistory(trimmedWallet, 100),
+              () => walletAPI.getTransactionHistory(trimmedWallet, 100),
               15000, // 15 second timeout
             )
             console.log(`Successfully fetched ${transactions.length} transactions`)
@@ -154,7 +152,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
         // Try to get balance for the main wallet
         try {
           setFetchProgress("Fetching main wallet balance...")
-          const balanceData = await fetchWithTimeout(() => heliusAPI.getBalances(trimmedWallet), 10000)
+          const balanceData = await fetchWithTimeout(() => walletAPI.getBalances(trimmedWallet), 10000)
           mainNode.balance = balanceData.nativeBalance / 1000000000
           console.log(`Main wallet balance: ${mainNode.balance} SOL`)
         } catch (balanceError) {
@@ -170,6 +168,22 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
           return
         }
 
+        // Label every counterparty up front so system programs and sysvars
+        // can be left out of the graph
+        setFetchProgress("Looking up address labels...")
+        const counterparties = new Set<string>()
+        transactions.forEach((tx) => {
+          tx.nativeTransfers?.forEach((t: any) => counterparties.add(t.fromUserAccount).add(t.toUserAccount))
+          tx.tokenTransfers?.forEach((t: any) => counterparties.add(t.fromUserAccount).add(t.toUserAccount))
+        })
+        const entities = await labelsAPI
+          .lookup(Array.from(counterparties).filter((address) => typeof address === "string" && address))
+          .catch((labelError) => {
+            console.log("Could not fetch address labels:", labelError)
+            return {} as Record<string, AddressEntity>
+          })
+        const isSystemAddress = (address: string) => isInfrastructure(entities[address])
+
         console.log("Processing transactions...")
         setFetchProgress("Analyzing transaction patterns...")
 
@@ -183,7 +197,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
               const amount = (transfer.amount || 0) / 1000000000 // Convert lamports to SOL
 
               // Skip system addresses
-              if (SYSTEM_ADDRESSES.has(fromAddress) || SYSTEM_ADDRESSES.has(toAddress)) {
+              if (isSystemAddress(fromAddress) || isSystemAddress(toAddress)) {
                 return
               }
 
@@ -198,15 +212,15 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
               }
 
               // Track SOL balances (approximate based on transfers)
-              if (fromAddress && typeof fromAddress === "string" && !SYSTEM_ADDRESSES.has(fromAddress)) {
+              if (fromAddress && typeof fromAddress === "string" && !isSystemAddress(fromAddress)) {
                 addressBalance[fromAddress] = (addressBalance[fromAddress] || 0) - amount
               }
-              if (toAddress && typeof toAddress === "string" && !SYSTEM_ADDRESSES.has(toAddress)) {
+              if (toAddress && typeof toAddress === "string" && !isSystemAddress(toAddress)) {
                 addressBalance[toAddress] = (addressBalance[toAddress] || 0) + amount
               }
 
               // Create link between addresses
-              if (fromAddress && toAddress && !SYSTEM_ADDRESSES.has(fromAddress) && !SYSTEM_ADDRESSES.has(toAddress)) {
+              if (fromAddress && toAddress && !isSystemAddress(fromAddress) && !isSystemAddress(toAddress)) {
                 const linkKey = `${fromAddress}-${toAddress}`
 
                 if (linkMap.has(linkKey)) {
@@ -239,7 +253,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
               const toAddress = transfer.toUserAccount
 
               // Skip system addresses
-              if (SYSTEM_ADDRESSES.has(fromAddress) || SYSTEM_ADDRESSES.has(toAddress)) {
+              if (isSystemAddress(fromAddress) || isSystemAddress(toAddress)) {
                 return
               }
 
@@ -251,7 +265,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
               }
 
               // Create link for token transfers
-              if (fromAddress && toAddress && !SYSTEM_ADDRESSES.has(fromAddress) && !SYSTEM_ADDRESSES.has(toAddress)) {
+              if (fromAddress && toAddress && !isSystemAddress(fromAddress) && !isSystemAddress(toAddress)) {
                 const linkKey = `${fromAddress}-${toAddress}`
 
                 if (linkMap.has(linkKey)) {
@@ -282,10 +296,19 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
 
         // Create nodes for connected addresses (limit to top 15 most frequent)
         const topAddresses = Object.entries(addressFrequency)
-          .filter(([address]) => !SYSTEM_ADDRESSES.has(address)) // Filter out system addresses
+          .filter(([address]) => !isSystemAddress(address)) // Filter out system addresses
           .sort(([, a], [, b]) => b - a)
           .slice(0, 15)
 
+        // Poisoning look-alikes rarely make the top addresses but are the
+        // ones most worth seeing next to the address they imitate
+        const lookalikes = lookalikeMap(detectPoisoning(transactions, trimmedWallet))
+        lookalikes.forEach((imitates, address) => {
+          if (addressFrequency[address] && !topAddresses.some(([top]) => top === address)) {
+            topAddresses.push([address, addressFrequency[address]])
+          }
+        })
+
         setFetchProgress("Fetching connected wallet balances...")
 
         // Create nodes for all connected addresses
@@ -302,6 +325,8 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
               balance: approxBalance,
               transactionCount: frequency,
               type: nodeType,
+              entity: entities[address],
+              lookalikeOf: lookalikes.get(address),
             })
           }
         }
@@ -311,7 +336,7 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
           if (address === trimmedWallet) return // Skip main wallet, already fetched
 
           try {
-            const balanceData = await fetchWithTimeout(() => heliusAPI.getBalances(address), 5000)
+            const balanceData = await fetchWithTimeout(() => walletAPI.getBalances(address), 5000)
             const node = nodeMap.get(address)
             if (node) {
               node.balance = balanceData.nativeBalance / 1000000000
@@ -614,8 +639,9 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
           if (d.type === "frequent") return "url(#frequent-gradient)"
           return "#6b7280"
         })
-        .attr("stroke", (d) => (d.type === "main" ? "#ffffff" : "#e2e8f0"))
-        .attr("stroke-width", (d) => (d.type === "main" ? 3 : 2))
+        .attr("stroke", (d) => (d.type === "main" ? "#ffffff" : d.lookalikeOf ? "#ef4444" : "#e2e8f0"))
+        .attr("stroke-width", (d) => (d.type === "main" ? 3 : d.lookalikeOf ? 3 : 2))
+        .attr("stroke-dasharray", (d: Node) => (d.lookalikeOf ? "4,2" : null))
         .style("cursor", "pointer")
         .call(d3.drag<any, any>().on("start", dragstarted).on("drag", dragged).on("end", dragended))
         .on("click", (event, d) => {
@@ -671,10 +697,11 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
         .join("text")
         .text((d) => {
           if (d.type === "main") return "Main Wallet"
-          return d.address.substring(0, 6) + "..."
+          if (d.lookalikeOf) return `⚠ ${d.address.substring(0, 6)}...${d.address.slice(-4)}`
+          return d.entity?.name || d.address.substring(0, 6) + "..."
         })
         .attr("font-size", (d) => (d.type === "main" ? 12 : 10))
-        .attr("fill", "#e2e8f0")
+        .attr("fill", (d: Node) => (d.lookalikeOf ? "#f87171" : "#e2e8f0"))
         .attr("text-anchor", "middle")
         .attr("dy", (d) => (d.radius || 10) + 15)
         .attr("font-weight", (d) => (d.type === "main" ? "bold" : "normal"))
@@ -795,6 +822,20 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
     window.open(`https://solscan.io/account/${address}`, "_blank")
   }
 
+  // Store a user label for the selected wallet; it overrides dataset labels
+  const saveLabel = async () => {
+    if (!selectedNode || !labelInput.trim()) return
+
+    try {
+      const entity = await labelsAPI.setUserLabel(selectedNode.address, labelInput.trim())
+      selectedNode.entity = entity
+      setSelectedNode({ ...selectedNode })
+      setLabelInput("")
+    } catch (labelError) {
+      console.error("Error saving label:", labelError)
+    }
+  }
+
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -972,6 +1013,51 @@ export function TransactionGraph({ wallet }: TransactionGraphProps) {
                   </div>
                 </div>
 
+                {selectedNode.lookalikeOf && (
+                  <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3 flex items-start space-x-2">
+                    <AlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                    <div className="text-sm">
+                      <p className="text-red-400 font-medium">Possible address poisoning</p>
+                      <p className="text-slate-300">
+                        Imitates frequent counterparty{" "}
+                        <span className="font-mono break-all">{selectedNode.lookalikeOf}</span>. Check the full address
+                        before sending funds.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-sm text-slate-400 mb-1">Label</p>
+                  {selectedNode.entity && (
+                    <div className="flex items-center space-x-2 mb-2">
+                      <span className="text-white">{selectedNode.entity.name}</span>
+                      <Badge variant="outline" className="border-slate-600 text-slate-300">
+                        {selectedNode.entity.category.replace("_", " ")}
+                      </Badge>
+                      <span className="text-xs text-slate-500">
+                        {selectedNode.entity.source} · {Math.round(selectedNode.entity.confidence * 100)}% confidence
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex space-x-2">
+                    <Input
+                      placeholder="Add your own label..."
+                      value={labelInput}
+                      onChange={(e) => setLabelInput(e.target.value)}
+                      className="h-8 bg-slate-800/50 border-slate-700/50 text-white"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={saveLabel}
+                      disabled={!labelInput.trim()}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+
                 <div>
                   <p className="text-sm text-slate-400 mb-1">SOL Balance</p>
                   <p className="text-2xl font-bold text-white">{formatSOL(selectedNode.balance)} SOL</p>
@@ -5,7 +5,18 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Search, ArrowUpRight, ArrowDownLeft, Repeat, Download, ExternalLink } from "lucide-react"
+import {
+  Search,
+  ArrowUpRight,
+  ArrowDownLeft,
+  Repeat,
+  Download,
+  ExternalLink,
+  Loader2,
+  AlertTriangle,
+} from "lucide-react"
+import { walletAPI } from "@/lib/wallet-api"
+import { detectPoisoning, lookalikeMap } from "@/lib/poisoning"
 
 interface Transaction {
   signature: string
@@ -18,88 +29,109 @@ interface Transaction {
   fee: number
   status: "success" | "failed"
   category: string
+  // Every other address sending or receiving funds in the transaction
+  counterparties: string[]
 }
 
 interface TransactionHistoryProps {
   wallet: string
 }
 
+const PAGE_SIZE = 20
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
 export function TransactionHistory({ wallet }: TransactionHistoryProps) {
   const [transactions, setTransactions] = useState<Transaction[]>([])
+  // Enhanced transactions as loaded, for look-alike detection across pages
+  const [rawTransactions, setRawTransactions] = useState<any[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState("")
   const [filter, setFilter] = useState<string>("all")
+  const [sinceDate, setSinceDate] = useState("")
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
 
-  useEffect(() => {
-    const fetchTransactions = async () => {
-      setLoading(true)
-      try {
-        // Fetch real transaction history using Helius API
-        const response = await fetch(
-          `https://api.helius.xyz/v0/addresses/${wallet}/transactions?api-key=2a3ff752-d3ef-4b7c-a44a-159dfe9538b6&limit=20`,
-        )
-
-        if (!response.ok) {
-          throw new Error(`Error fetching transactions: ${response.status}`)
-        }
-
-        const data = await response.json()
+  // Map an enhanced transaction onto the row shown in the list
+  const toTransaction = (tx: any): Transaction => {
+    // Enhanced transaction categorization
+    let type: Transaction["type"] = "transfer"
+    let category = "Transfer"
 
-        // Transform the Helius API response to match our Transaction interface
-        const transformedTransactions: Transaction[] = data.map((tx: any) => {
-          // Enhanced transaction categorization
-          let type: Transaction["type"] = "transfer"
-          let category = "Transfer"
+    if (tx.type === "SWAP" || tx.description?.toLowerCase().includes("swap")) {
+      type = "swap"
+      category = "Swap"
+    } else if (tx.type === "NFT_SALE" || tx.type === "NFT_BID" || tx.events?.nft) {
+      type = "nft"
+      category = "NFT"
+    } else if (
+      tx.description?.toLowerCase().includes("stake") ||
+      tx.description?.toLowerCase().includes("delegate")
+    ) {
+      type = "stake"
+      category = "Staking"
+    } else if (tx.description?.toLowerCase().includes("vote")) {
+      category = "Voting"
+    } else if (
+      tx.description?.toLowerCase().includes("create") &&
+      tx.description?.toLowerCase().includes("account")
+    ) {
+      category = "Account Creation"
+    } else if (tx.instructions?.some((inst: any) => inst.programId === "11111111111111111111111111111111")) {
+      category = "System"
+    }
 
-          if (tx.type === "SWAP" || tx.description?.toLowerCase().includes("swap")) {
-            type = "swap"
-            category = "Swap"
-          } else if (tx.type === "NFT_SALE" || tx.type === "NFT_BID" || tx.events?.nft) {
-            type = "nft"
-            category = "NFT"
-          } else if (
-            tx.description?.toLowerCase().includes("stake") ||
-            tx.description?.toLowerCase().includes("delegate")
-          ) {
-            type = "stake"
-            category = "Staking"
-          } else if (tx.description?.toLowerCase().includes("vote")) {
-            category = "Voting"
-          } else if (
-            tx.description?.toLowerCase().includes("create") &&
-            tx.description?.toLowerCase().includes("account")
-          ) {
-            category = "Account Creation"
-          } else if (tx.instructions?.some((inst: any) => inst.programId === "11111111111111111111111111111111")) {
-            category = "System"
-          }
+    // Get amount from native transfers or token transfers
+    let amount = 0
+    let token = "SOL"
 
-          // Get amount from native transfers or token transfers
-          let amount = 0
-          let token = "SOL"
+    if (tx.nativeTransfers && tx.nativeTransfers.length > 0) {
+      amount = tx.nativeTransfers[0].amount / 1000000000 // Convert lamports to SOL
+    } else if (tx.tokenTransfers && tx.tokenTransfers.length > 0) {
+      amount = tx.tokenTransfers[0].tokenAmount
+      token = tx.tokenTransfers[0].symbol || "Unknown"
+    }
 
-          if (tx.nativeTransfers && tx.nativeTransfers.length > 0) {
-            amount = tx.nativeTransfers[0].amount / 1000000000 // Convert lamports to SOL
-          } else if (tx.tokenTransfers && tx.tokenTransfers.length > 0) {
-            amount = tx.tokenTransfers[0].tokenAmount
-            token = tx.tokenTransfers[0].symbol || "Unknown"
-          }
+    return {
+      signature: tx.signature,
+      type: type,
+      amount: amount,
+      token: token,
+      from: tx.feePayer || wallet,
+      to: tx.nativeTransfers?.[0]?.toUserAccount || tx.tokenTransfers?.[0]?.toUserAccount || "Unknown",
+      timestamp: new Date(tx.timestamp * 1000),
+      fee: tx.fee / 1000000000, // Convert lamports to SOL
+      status: tx.err ? "failed" : "success",
+      category: category,
+      counterparties: Array.from(
+        new Set<string>(
+          [...(tx.nativeTransfers || []), ...(tx.tokenTransfers || [])]
+            .reduce((all: string[], transfer: any) => [...all, transfer.fromUserAccount, transfer.toUserAccount], [])
+            .filter((address: string) => address && address !== wallet),
+        ),
+      ),
+    }
+  }
 
-          return {
-            signature: tx.signature,
-            type: type,
-            amount: amount,
-            token: token,
-            from: tx.feePayer || wallet,
-            to: tx.nativeTransfers?.[0]?.toUserAccount || tx.tokenTransfers?.[0]?.toUserAccount || "Unknown",
-            timestamp: new Date(tx.timestamp * 1000),
-            fee: tx.fee / 1000000000, // Convert lamports to SOL
-            status: tx.err ? "failed" : "success",
-            category: category,
-          }
-        })
+  // Fetch one page of history; `before` continues from the last loaded signature
+  const fetchTransactions = async (before?: string) => {
+    const since = sinceDate ? Math.floor(new Date(sinceDate).getTime() / 1000) : undefined
+    // With a start date, load everything back to it instead of a single page
+    const limit = since && !before ? 1000 : PAGE_SIZE
+    const data = await walletAPI.getTransactionHistory(wallet, limit, { before, since })
+    setHasMore(data.length === limit)
+    return data
+  }
 
-        setTransactions(transformedTransactions)
+  useEffect(() => {
+    const loadInitial = async () => {
+      setLoading(true)
+      try {
+        const data = await fetchTransactions()
+        setRawTransactions(data)
+        setTransactions(data.map(toTransaction))
       } catch (error) {
         console.error("Error fetching transactions:", error)
       } finally {
@@ -107,8 +139,27 @@ export function TransactionHistory({ wallet }: TransactionHistoryProps) {
       }
     }
 
-    fetchTransactions()
-  }, [wallet])
+    loadInitial()
+  }, [wallet, sinceDate])
+
+  const loadMore = async () => {
+    const last = transactions[transactions.length - 1]
+    if (!last) return
+
+    setLoadingMore(true)
+    try {
+      const more = await fetchTransactions(last.signature)
+      setRawTransactions((prev) => [...prev, ...more])
+      setTransactions((prev) => [...prev, ...more.map(toTransaction)])
+    } catch (error) {
+      console.error("Error fetching more transactions:", error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  // Counterparties imitating ones the wallet really deals with
+  const lookalikes = lookalikeMap(detectPoisoning(rawTransactions, wallet))
 
   const filteredTransactions = transactions.filter((tx) => {
     const matchesSearch =
@@ -205,6 +256,14 @@ export function TransactionHistory({ wallet }: TransactionHistoryProps) {
             />
           </div>
 
+          <Input
+            type="date"
+            title="Show everything since this date"
+            value={sinceDate}
+            onChange={(e) => setSinceDate(e.target.value)}
+            className="w-40 bg-slate-800/50 border-slate-700/50 text-white"
+          />
+
           <div className="flex space-x-2">
             {["all", "transfer", "swap", "stake", "nft", "system"].map((type) => (
               <Button
@@ -223,42 +282,73 @@ export function TransactionHistory({ wallet }: TransactionHistoryProps) {
 
       <CardContent>
         <div className="space-y-4">
-          {filteredTransactions.map((tx) => (
-            <div
-              key={tx.signature}
-              className="flex items-center space-x-4 p-4 bg-slate-800/30 rounded-lg hover:bg-slate-800/50 transition-colors"
-            >
-              <div className={`p-2 rounded-full ${getTypeColor(tx.type)}`}>{getTransactionIcon(tx.type)}</div>
+          {filteredTransactions.map((tx) => {
+            const lookalike = tx.counterparties.find((address) => lookalikes.has(address))
+            return (
+              <div
+                key={tx.signature}
+                className={`flex items-center space-x-4 p-4 rounded-lg transition-colors ${
+                  lookalike
+                    ? "bg-red-900/20 border border-red-500/50 hover:bg-red-900/30"
+                    : "bg-slate-800/30 hover:bg-slate-800/50"
+                }`}
+              >
+                <div className={`p-2 rounded-full ${getTypeColor(tx.type)}`}>{getTransactionIcon(tx.type)}</div>
 
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => openTransactionInSolscan(tx.signature)}
-                    className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors cursor-pointer flex items-center space-x-1"
-                  >
-                    <span className="truncate">
-                      {tx.signature.substring(0, 8)}...{tx.signature.substring(tx.signature.length - 8)}
-                    </span>
-                    <ExternalLink className="w-3 h-3" />
-                  </button>
-                  <Badge className={getTypeColor(tx.type)}>{tx.type}</Badge>
-                  <Badge variant={tx.status === "success" ? "default" : "destructive"}>{tx.status}</Badge>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => openTransactionInSolscan(tx.signature)}
+                      className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors cursor-pointer flex items-center space-x-1"
+                    >
+                      <span className="truncate">
+                        {tx.signature.substring(0, 8)}...{tx.signature.substring(tx.signature.length - 8)}
+                      </span>
+                      <ExternalLink className="w-3 h-3" />
+                    </button>
+                    <Badge className={getTypeColor(tx.type)}>{tx.type}</Badge>
+                    <Badge variant={tx.status === "success" ? "default" : "destructive"}>{tx.status}</Badge>
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    {tx.timestamp.toLocaleDateString()} {tx.timestamp.toLocaleTimeString()}
+                  </p>
+                  <p className="text-xs text-slate-400">Category: {tx.category}</p>
+                  {lookalike && (
+                    <p className="text-xs text-red-400 flex items-center space-x-1" title={lookalike}>
+                      <AlertTriangle className="w-3 h-3" />
+                      <span>
+                        Possible address poisoning: {shortAddress(lookalike)} imitates{" "}
+                        {shortAddress(lookalikes.get(lookalike) as string)}
+                      </span>
+                    </p>
+                  )}
                 </div>
-                <p className="text-xs text-slate-400">
-                  {tx.timestamp.toLocaleDateString()} {tx.timestamp.toLocaleTimeString()}
-                </p>
-                <p className="text-xs text-slate-400">Category: {tx.category}</p>
-              </div>
 
-              <div className="text-right">
-                <p className="text-sm font-medium text-white">
-                  {formatSOL(tx.amount)} {tx.token}
-                </p>
-                <p className="text-xs text-slate-400">Fee: {formatSOL(tx.fee)} SOL</p>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-white">
+                    {formatSOL(tx.amount)} {tx.token}
+                  </p>
+                  <p className="text-xs text-slate-400">Fee: {formatSOL(tx.fee)} SOL</p>
+                </div>
               </div>
-            </div>
-          ))}
+            )
+          })}
         </div>
+
+        {hasMore && (
+          <div className="flex justify-center mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="border-slate-700 text-slate-400"
+            >
+              {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -6,7 +6,10 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { TrendingUp, TrendingDown, Wallet, DollarSign } from "lucide-react"
 import { BalanceChart } from "@/components/balance-chart"
-import { heliusAPI } from "@/lib/helius-api"
+import { StakingSummary } from "@/components/staking-summary"
+import { TokenApprovals } from "@/components/token-approvals"
+import { DrainIncidents } from "@/components/drain-incidents"
+import { walletAPI } from "@/lib/wallet-api"
 
 interface WalletOverviewProps {
   wallet: string
@@ -79,7 +82,7 @@ export function WalletOverview({ wallet }: WalletOverviewProps) {
         setSolPrice(currentSolPrice)
 
         // Fetch wallet balances
-        const balanceData = await heliusAPI.getBalances(wallet)
+        const balanceData = await walletAPI.getBalances(wallet)
 
         // Get SOL balance
         const solBalance = balanceData.nativeBalance / 1000000000 // Convert lamports to SOL
@@ -91,7 +94,7 @@ export function WalletOverview({ wallet }: WalletOverviewProps) {
         const tokenCount = balanceData.tokens ? balanceData.tokens.length : 0
 
         // Get transaction history
-        const transactions = await heliusAPI.getTransactionHistory(wallet, 100)
+        const transactions = await walletAPI.getTransactionHistory(wallet, 100)
 
         // Analyze transactions for categories, flows, and fees
         let totalInflow = 0
@@ -376,6 +379,12 @@ export function WalletOverview({ wallet }: WalletOverviewProps) {
           <BalanceChart wallet={wallet} timeRange={timeRange} />
         </CardContent>
       </Card>
+
+      <StakingSummary wallet={wallet} />
+
+      <TokenApprovals wallet={wallet} />
+
+      <DrainIncidents wallet={wallet} />
     </div>
   )
 }
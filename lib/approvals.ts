@@ -0,0 +1,176 @@
+import type { ChainDataProvider } from "@/lib/chain-data-provider"
+import { getEntity } from "@/lib/entity-registry"
+import { type EntityCategory, FLAGGED_CATEGORIES } from "@/lib/entities"
+import { type FlagSets, getActiveFlagSets } from "@/lib/flag-lists"
+import { getTokenPrices } from "@/lib/prices"
+
+export type DelegateRisk = "high" | "medium" | "low"
+
+export interface TokenDelegation {
+  tokenAccount: string
+  mint: string
+  delegate: string
+  delegateLabel: string | null
+  delegateCategory: EntityCategory | null
+  risk: DelegateRisk
+  reasons: string[]
+  // Whole tokens the delegate may transfer or burn, and the account's balance
+  delegatedAmount: number
+  balance: number
+  // Approved for u64::MAX, i.e. with no limit at all
+  unlimited: boolean
+  priceUsd: number | null
+  // What the delegate could move right now: the approval, capped at the balance
+  valueUsd: number | null
+  // The approve instruction that set the current delegate
+  grant: { signature: string; timestamp: number | null } | null
+}
+
+export interface ApprovalAudit {
+  delegations: TokenDelegation[]
+  // Delegations not classified as low risk
+  riskyCount: number
+  totalValueUsd: number
+}
+
+// Raw amounts from here up are treated as unlimited approvals (u64::MAX in practice)
+const UNLIMITED_RAW_AMOUNT = Math.pow(2, 63)
+// Recent signatures of a token account searched for the approve instruction
+const GRANT_SEARCH_DEPTH = 50
+const APPROVE_INSTRUCTIONS = ["approve", "approveChecked"]
+const RISK_ORDER: DelegateRisk[] = ["high", "medium", "low"]
+
+function classifyDelegate(
+  delegate: string,
+  coversBalance: boolean,
+  flagSets: FlagSets,
+): Pick<TokenDelegation, "delegateLabel" | "delegateCategory" | "risk" | "reasons"> {
+  const entity = getEntity(delegate)
+  const base = { delegateLabel: entity?.name || null, delegateCategory: entity?.category || null }
+
+  if (flagSets.scamAddresses.has(delegate)) {
+    return { ...base, risk: "high", reasons: ["Delegate is on the scam list"] }
+  }
+  if (entity && FLAGGED_CATEGORIES.includes(entity.category)) {
+    return { ...base, risk: "high", reasons: [`Delegate is labeled ${entity.category.replace("_", " ")}`] }
+  }
+  if (entity) {
+    return { ...base, risk: "low", reasons: [`Delegate is a known ${entity.category.replace("_", " ")} address`] }
+  }
+
+  // Drainers ask for the whole balance to an address nobody has labeled
+  return coversBalance
+    ? { ...base, risk: "high", reasons: ["Unlabeled delegate", "Approval covers the entire balance"] }
+    : { ...base, risk: "medium", reasons: ["Unlabeled delegate"] }
+}
+
+// Token accounts with an active delegate, classified against the entity
+// registry and flag lists. Pure apart from those lookups; grants and prices
+// are filled in by getApprovalAudit.
+export function listDelegations(tokenAccounts: any[], flagSets: FlagSets): TokenDelegation[] {
+  return tokenAccounts
+    .map((account): TokenDelegation | null => {
+      const info = account.account?.data?.parsed?.info
+      if (!info?.delegate || !info.delegatedAmount) return null
+
+      const delegatedAmount = Number(info.delegatedAmount.uiAmount) || 0
+      const balance = Number(info.tokenAmount?.uiAmount) || 0
+      if (delegatedAmount <= 0) return null
+
+      return {
+        tokenAccount: account.pubkey,
+        mint: info.mint,
+        delegate: info.delegate,
+        ...classifyDelegate(info.delegate, balance > 0 && delegatedAmount >= balance, flagSets),
+        delegatedAmount,
+        balance,
+        unlimited: Number(info.delegatedAmount.amount) >= UNLIMITED_RAW_AMOUNT,
+        priceUsd: null,
+        valueUsd: null,
+        grant: null,
+      }
+    })
+    .filter((delegation): delegation is TokenDelegation => delegation !== null)
+    .sort((a, b) => RISK_ORDER.indexOf(a.risk) - RISK_ORDER.indexOf(b.risk))
+}
+
+// Top-level and inner instructions of a jsonParsed transaction
+function parsedInstructions(tx: any): any[] {
+  const inner = (tx.meta?.innerInstructions || []).reduce(
+    (all: any[], group: any) => [...all, ...(group.instructions || [])],
+    [],
+  )
+  return [...(tx.transaction?.message?.instructions || []), ...inner]
+}
+
+// Newest approve instruction on the token account naming the delegate
+async function findGrant(provider: ChainDataProvider, delegation: TokenDelegation) {
+  const signatures = await provider.getSignaturesForAddress(delegation.tokenAccount, { limit: GRANT_SEARCH_DEPTH })
+  const transactions = await provider.getTransactions(signatures.map((info) => info.signature))
+
+  for (let index = 0; index < transactions.length; index++) {
+    const tx = transactions[index]
+    if (!tx || tx.meta?.err) continue
+
+    const granted = parsedInstructions(tx).some(
+      (instruction) =>
+        APPROVE_INSTRUCTIONS.includes(instruction.parsed?.type) &&
+        instruction.parsed.info?.source === delegation.tokenAccount &&
+        instruction.parsed.info?.delegate === delegation.delegate,
+    )
+    if (granted) {
+      return { signature: signatures[index].signature, timestamp: tx.blockTime ?? signatures[index].blockTime }
+    }
+  }
+  return null
+}
+
+// Looks up the transaction that granted each delegation. Lookups that fail
+// leave the grant unknown.
+export async function findDelegationGrants(
+  provider: ChainDataProvider,
+  delegations: TokenDelegation[],
+): Promise<TokenDelegation[]> {
+  return Promise.all(
+    delegations.map(async (delegation) => {
+      try {
+        return { ...delegation, grant: await findGrant(provider, delegation) }
+      } catch (error) {
+        console.warn(`Failed to find approval for ${delegation.tokenAccount}:`, error)
+        return delegation
+      }
+    }),
+  )
+}
+
+// Every active token delegation the wallet has granted, with the delegate's
+// reputation, the grant transaction and the USD value it exposes
+export async function getApprovalAudit(provider: ChainDataProvider, walletAddress: string): Promise<ApprovalAudit> {
+  const [tokenAccounts, flagSets] = await Promise.all([
+    provider.getTokenAccounts(walletAddress),
+    getActiveFlagSets(),
+  ])
+
+  const listed = listDelegations(tokenAccounts, flagSets)
+  const [withGrants, prices] = await Promise.all([
+    findDelegationGrants(provider, listed),
+    getTokenPrices(listed.map((delegation) => delegation.mint)),
+  ])
+
+  const delegations = withGrants.map((delegation) => {
+    const price = prices.get(delegation.mint)
+    return price === undefined
+      ? delegation
+      : {
+          ...delegation,
+          priceUsd: price,
+          valueUsd: Math.min(delegation.delegatedAmount, delegation.balance) * price,
+        }
+  })
+
+  return {
+    delegations,
+    riskyCount: delegations.filter((delegation) => delegation.risk !== "low").length,
+    totalValueUsd: delegations.reduce((total, delegation) => total + (delegation.valueUsd || 0), 0),
+  }
+}
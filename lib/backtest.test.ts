@@ -0,0 +1,92 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { evaluateModel, renderBacktestHtml } from "@/lib/backtest"
+import { type ScoringModel, scoringModelSchema } from "@/lib/scoring-model"
+
+// Scores each wallet at exactly its transaction count
+const model: ScoringModel = scoringModelSchema.parse({
+  id: "count",
+  version: 1,
+  baseScore: 0,
+  riskThresholds: { low: 85, medium: 65 },
+  factors: [
+    {
+      id: "count",
+      name: "Transaction Count",
+      metric: "transactionCount",
+      weight: 1,
+      classification: { above: 0, match: "positive", otherwise: "neutral" },
+    },
+  ],
+})
+
+function sample(address: string, label: "good" | "bad", score: number) {
+  return { address, label, walletAnalysis: { transactionCount: score } }
+}
+
+test("AUC is the share of bad-good pairs where the bad address scores lower", () => {
+  const perfect = evaluateModel([sample("b1", "bad", 10), sample("b2", "bad", 30), sample("g1", "good", 90)], model)
+  assert.equal(perfect.auc, 1)
+
+  const inverted = evaluateModel([sample("b1", "bad", 90), sample("g1", "good", 10)], model)
+  assert.equal(inverted.auc, 0)
+})
+
+test("tied bad and good scores count half toward AUC", () => {
+  const evaluation = evaluateModel(
+    [sample("b1", "bad", 50), sample("b2", "bad", 20), sample("g1", "good", 50), sample("g2", "good", 70)],
+    model,
+  )
+
+  // b1 ties g1 and beats g2; b2 beats both: (0.5 + 1 + 1 + 1) / 4
+  assert.equal(evaluation.auc, 0.875)
+})
+
+test("confusion counts bad addresses scoring below the threshold as flagged", () => {
+  const evaluation = evaluateModel(
+    [
+      sample("b1", "bad", 40),
+      sample("b2", "bad", 70),
+      sample("b3", "bad", 90),
+      sample("g1", "good", 55),
+      sample("g2", "good", 60),
+      sample("g3", "good", 95),
+    ],
+    model,
+  )
+
+  const at60 = evaluation.thresholds.find((metrics) => metrics.threshold === 60)
+  assert.deepEqual(at60?.confusion, { truePositives: 1, falsePositives: 1, trueNegatives: 2, falseNegatives: 2 })
+  assert.equal(at60?.precision, 0.5)
+  assert.equal(at60?.recall, 1 / 3)
+
+  const at80 = evaluation.thresholds.find((metrics) => metrics.threshold === 80)
+  assert.deepEqual(at80?.confusion, { truePositives: 2, falsePositives: 2, trueNegatives: 1, falseNegatives: 1 })
+})
+
+test("every model is measured at 60 and 80, then at its own thresholds", () => {
+  const evaluation = evaluateModel([sample("b1", "bad", 40), sample("g1", "good", 90)], model)
+
+  assert.deepEqual(
+    evaluation.thresholds.map((metrics) => [metrics.threshold, metrics.modelThreshold]),
+    [
+      [60, false],
+      [80, false],
+      [65, true],
+      [85, true],
+    ],
+  )
+})
+
+test("the HTML report labels each cell with its threshold", () => {
+  const evaluation = evaluateModel([sample("b1", "bad", 40), sample("g1", "good", 90)], model)
+  const html = renderBacktestHtml({
+    generatedAt: "2025-01-01T00:00:00.000Z",
+    dataset: { good: 1, bad: 1, skipped: [] },
+    asOf: null,
+    evaluations: [evaluation],
+  })
+
+  assert.ok(html.includes("<b>&lt; 60</b>"))
+  assert.ok(html.includes("<b>&lt; 65 (model)</b>"))
+})
@@ -0,0 +1,298 @@
+import { type ScoredFactor, type ScoringModel, calculateReputabilityScore, modelKey } from "@/lib/scoring-model"
+import { parseCsv } from "@/lib/csv"
+
+export type SampleLabel = "good" | "bad"
+
+export interface LabeledAddress {
+  address: string
+  label: SampleLabel
+}
+
+export interface BacktestDataset {
+  // Score every address as of this point, so results do not drift as fixtures age
+  asOf?: string
+  addresses: LabeledAddress[]
+}
+
+interface ScoredSample extends LabeledAddress {
+  score: number
+  factors: ScoredFactor[]
+}
+
+export interface ConfusionMatrix {
+  truePositives: number
+  falsePositives: number
+  trueNegatives: number
+  falseNegatives: number
+}
+
+export interface ThresholdMetrics {
+  threshold: number
+  // True for the model's own risk thresholds beyond the fixed ones
+  modelThreshold: boolean
+  precision: number
+  recall: number
+  falsePositiveRate: number
+  confusion: ConfusionMatrix
+}
+
+export interface FactorStats {
+  id: string
+  name: string
+  meanImpactGood: number
+  meanImpactBad: number
+  // Share of addresses where the factor moved the score at all
+  firedGood: number
+  firedBad: number
+}
+
+export interface ModelEvaluation {
+  model: string
+  auc: number
+  roc: { threshold: number; truePositiveRate: number; falsePositiveRate: number }[]
+  thresholds: ThresholdMetrics[]
+  factors: FactorStats[]
+  scores: { address: string; label: SampleLabel; score: number }[]
+}
+
+export interface BacktestReport {
+  generatedAt: string
+  dataset: { good: number; bad: number; skipped: { address: string; error: string }[] }
+  asOf: string | null
+  evaluations: ModelEvaluation[]
+}
+
+// Labeled addresses from JSON ({ asOf?, addresses: [{ address, label }] }) or
+// from a CSV with address and label columns
+export function parseDataset(content: string, format: "json" | "csv"): BacktestDataset {
+  const raw =
+    format === "json"
+      ? JSON.parse(content)
+      : { addresses: parseCsv(content).map((row) => ({ address: row.address, label: row.label })) }
+
+  const addresses = (raw.addresses || []).map((entry: any, index: number) => {
+    const label = String(entry.label || "").toLowerCase()
+    if (!entry.address || (label !== "good" && label !== "bad")) {
+      throw new Error(`Dataset entry ${index + 1} needs an address and a label of good or bad`)
+    }
+    return { address: String(entry.address).trim(), label: label as SampleLabel }
+  })
+
+  return { asOf: raw.asOf, addresses }
+}
+
+// Every model is measured at these, so models can be compared at the same cut
+export const REPORTED_THRESHOLDS = [60, 80]
+
+function sum(values: number[]) {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function ratio(numerator: number, denominator: number) {
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+// "Bad" is the positive class: an address is flagged when it scores below the threshold
+function confusionAt(samples: ScoredSample[], threshold: number): ConfusionMatrix {
+  const matrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 }
+  for (const sample of samples) {
+    const flagged = sample.score < threshold
+    if (sample.label === "bad") {
+      if (flagged) matrix.truePositives++
+      else matrix.falseNegatives++
+    } else if (flagged) {
+      matrix.falsePositives++
+    } else {
+      matrix.trueNegatives++
+    }
+  }
+  return matrix
+}
+
+function thresholdMetrics(samples: ScoredSample[], threshold: number, modelThreshold = false): ThresholdMetrics {
+  const confusion = confusionAt(samples, threshold)
+  return {
+    threshold,
+    modelThreshold,
+    precision: ratio(confusion.truePositives, confusion.truePositives + confusion.falsePositives),
+    recall: ratio(confusion.truePositives, confusion.truePositives + confusion.falseNegatives),
+    falsePositiveRate: ratio(confusion.falsePositives, confusion.falsePositives + confusion.trueNegatives),
+    confusion,
+  }
+}
+
+// Probability that a bad address scores below a good one (ties count half),
+// which equals the area under the ROC curve
+function areaUnderCurve(samples: ScoredSample[]) {
+  const bad = samples.filter((sample) => sample.label === "bad")
+  const good = samples.filter((sample) => sample.label === "good")
+  if (bad.length === 0 || good.length === 0) return 0
+
+  let wins = 0
+  for (const badSample of bad) {
+    for (const goodSample of good) {
+      if (badSample.score < goodSample.score) wins++
+      else if (badSample.score === goodSample.score) wins += 0.5
+    }
+  }
+  return wins / (bad.length * good.length)
+}
+
+function factorStats(samples: ScoredSample[]): FactorStats[] {
+  if (samples.length === 0) return []
+
+  return samples[0].factors.map((factor, index) => {
+    const stats = (label: SampleLabel) => {
+      const impacts = samples.filter((sample) => sample.label === label).map((sample) => sample.factors[index].impact)
+      return {
+        mean: ratio(sum(impacts), impacts.length),
+        fired: ratio(impacts.filter((impact) => impact !== 0).length, impacts.length),
+      }
+    }
+    const good = stats("good")
+    const bad = stats("bad")
+    return {
+      id: factor.id,
+      name: factor.name,
+      meanImpactGood: good.mean,
+      meanImpactBad: bad.mean,
+      firedGood: good.fired,
+      firedBad: bad.fired,
+    }
+  })
+}
+
+// Scores already-analyzed wallets with a model and measures how well the
+// score separates bad addresses from good ones, at the fixed reported
+// thresholds and then at the model's own risk thresholds.
+export function evaluateModel(
+  analyses: { address: string; label: SampleLabel; walletAnalysis: any }[],
+  model: ScoringModel,
+): ModelEvaluation {
+  const samples: ScoredSample[] = analyses.map(({ address, label, walletAnalysis }) => {
+    const { score, factors } = calculateReputabilityScore(walletAnalysis, model)
+    return { address, label, score, factors }
+  })
+
+  const roc = []
+  for (let threshold = 0; threshold <= 101; threshold++) {
+    const metrics = thresholdMetrics(samples, threshold)
+    roc.push({ threshold, truePositiveRate: metrics.recall, falsePositiveRate: metrics.falsePositiveRate })
+  }
+
+  return {
+    model: modelKey(model),
+    auc: areaUnderCurve(samples),
+    roc,
+    thresholds: [
+      ...REPORTED_THRESHOLDS.map((threshold) => thresholdMetrics(samples, threshold)),
+      ...[model.riskThresholds.medium, model.riskThresholds.low]
+        .filter((threshold) => !REPORTED_THRESHOLDS.includes(threshold))
+        .map((threshold) => thresholdMetrics(samples, threshold, true)),
+    ],
+    factors: factorStats(samples),
+    scores: samples.map(({ address, label, score }) => ({ address, label, score })),
+  }
+}
+
+const ROC_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#a855f7"]
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+function thresholdLabel(metrics: ThresholdMetrics) {
+  return `&lt; ${metrics.threshold}${metrics.modelThreshold ? " (model)" : ""}`
+}
+
+function rocSvg(evaluations: ModelEvaluation[]) {
+  const size = 320
+  const curves = evaluations.map((evaluation, index) => {
+    const points = evaluation.roc
+      .map((point) => `${point.falsePositiveRate * size},${size - point.truePositiveRate * size}`)
+      .join(" ")
+    return `<polyline fill="none" stroke="${ROC_COLORS[index % ROC_COLORS.length]}" stroke-width="2" points="${points}" />`
+  })
+
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" style="background:#0f172a;border:1px solid #334155">
+  <line x1="0" y1="${size}" x2="${size}" y2="0" stroke="#475569" stroke-dasharray="4 4" />
+  ${curves.join("\n  ")}
+</svg>`
+}
+
+// Standalone HTML page for comparing models side by side
+export function renderBacktestHtml(report: BacktestReport): string {
+  // Models can have different thresholds of their own, so each cell names
+  // the threshold it was computed at
+  const thresholdColumns = Math.max(0, ...report.evaluations.map((evaluation) => evaluation.thresholds.length))
+  const summary = report.evaluations
+    .map((evaluation, index) => {
+      const cells = evaluation.thresholds
+        .map(
+          (metrics) =>
+            `<td><b>${thresholdLabel(metrics)}</b><br />` +
+            `P ${percent(metrics.precision)} / R ${percent(metrics.recall)}<br />` +
+            `TP ${metrics.confusion.truePositives} · FP ${metrics.confusion.falsePositives} · ` +
+            `TN ${metrics.confusion.trueNegatives} · FN ${metrics.confusion.falseNegatives}</td>`,
+        )
+        .join("")
+        .concat("<td></td>".repeat(thresholdColumns - evaluation.thresholds.length))
+      const color = ROC_COLORS[index % ROC_COLORS.length]
+      return `<tr><td><span style="color:${color}">■</span> ${escapeHtml(evaluation.model)}</td><td>${evaluation.auc.toFixed(3)}</td>${cells}</tr>`
+    })
+    .join("\n")
+
+  const factorTables = report.evaluations
+    .map((evaluation) => {
+      const rows = evaluation.factors
+        .map(
+          (factor) =>
+            `<tr><td>${escapeHtml(factor.name)}</td><td>${factor.meanImpactGood.toFixed(2)}</td>` +
+            `<td>${factor.meanImpactBad.toFixed(2)}</td><td>${percent(factor.firedGood)}</td><td>${percent(factor.firedBad)}</td></tr>`,
+        )
+        .join("\n")
+      return `<h3>${escapeHtml(evaluation.model)}</h3>
+<table><tr><th>Factor</th><th>Mean impact (good)</th><th>Mean impact (bad)</th><th>Fired (good)</th><th>Fired (bad)</th></tr>
+${rows}
+</table>`
+    })
+    .join("\n")
+
+  const thresholdHeaders = thresholdColumns
+    ? `<th colspan="${thresholdColumns}">Precision / recall and confusion, flagged below each threshold</th>`
+    : ""
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Reputability backtest ${escapeHtml(report.generatedAt)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; background: #020617; color: #e2e8f0; padding: 24px; }
+  table { border-collapse: collapse; margin-bottom: 24px; }
+  th, td { border: 1px solid #334155; padding: 6px 10px; text-align: left; font-size: 13px; }
+  th { background: #1e293b; }
+  .muted { color: #94a3b8; }
+</style>
+</head>
+<body>
+<h1>Reputability backtest</h1>
+<p class="muted">Generated ${escapeHtml(report.generatedAt)} · ${report.dataset.good} good, ${report.dataset.bad} bad,
+${report.dataset.skipped.length} skipped${report.asOf ? ` · as of ${escapeHtml(report.asOf)}` : ""}.
+Bad addresses are the positive class; an address is flagged when it scores below the threshold.</p>
+<h2>Summary</h2>
+<table><tr><th>Model</th><th>AUC</th>${thresholdHeaders}</tr>
+${summary}
+</table>
+<h2>ROC</h2>
+${rocSvg(report.evaluations)}
+<h2>Factor contributions</h2>
+${factorTables}
+</body>
+</html>
+`
+}
@@ -0,0 +1,39 @@
+import { parseCsv, toCsv } from "@/lib/csv"
+import type { RiskLevel } from "@/lib/scoring-model"
+
+// Addresses accepted in one batch request
+export const MAX_BATCH_ADDRESSES = 500
+
+export interface BatchScoreResult {
+  address: string
+  status: "ok" | "error"
+  score: number | null
+  riskLevel: RiskLevel | null
+  // Most negative factors first, only those that lowered the score
+  topNegativeFactors: { name: string; impact: number }[]
+  model: string | null
+  error: string | null
+}
+
+// Reads addresses from a CSV with an `address` column, or from plain text
+// with one address per line (commas and spaces also separate addresses)
+export function parseAddressList(content: string): string[] {
+  const firstLine = content.split(/\r?\n/, 1)[0] || ""
+  const addresses = /(^|,)\s*"?address"?\s*(,|$)/i.test(firstLine)
+    ? parseCsv(content).map((row) => row.address || row.Address || "")
+    : content.split(/[\s,;]+/)
+
+  return Array.from(new Set(addresses.map((address) => address.trim()).filter(Boolean)))
+}
+
+export function batchResultsToCsv(results: BatchScoreResult[]): string {
+  const rows = results.map((result) => ({
+    address: result.address,
+    score: result.score,
+    riskLevel: result.riskLevel,
+    topNegativeFactors: result.topNegativeFactors.map((factor) => `${factor.name} (${factor.impact})`).join("; "),
+    model: result.model,
+    error: result.error,
+  }))
+  return toCsv(rows, ["address", "score", "riskLevel", "topNegativeFactors", "model", "error"])
+}
@@ -0,0 +1,277 @@
+import type { FactorEvidence } from "@/lib/scoring-model"
+import { isValidAddress } from "@/lib/solana"
+
+export const COMPUTE_BUDGET_PROGRAM_ID = "ComputeBudget111111111111111111111111111111"
+
+export type BehaviorClass = "human" | "bot" | "mixed"
+
+export interface BehaviorSignal {
+  id: "rapid" | "regularity" | "hours" | "repetition" | "priority-fees" | "slots"
+  name: string
+  // 0-1, how strongly this signal points at automation
+  botLikelihood: number
+  detail: string
+}
+
+export interface BehaviorProfile {
+  classification: BehaviorClass
+  // 0-1; low when the classification sits near a boundary or the sample is small
+  confidence: number
+  botLikelihood: number
+  // Transactions the wallet paid for, the only ones its own timing says anything about
+  sampleSize: number
+  timing: {
+    medianGapSeconds: number | null
+    // Share of gaps shorter than RAPID_GAP_SECONDS
+    rapidShare: number
+    // Standard deviation over mean of the gaps; bots on a timer sit near 0
+    gapVariation: number | null
+    histogram: { label: string; count: number }[]
+  }
+  // Shannon entropy of UTC hour-of-day activity, normalized to 0-1
+  hourEntropy: number
+  hourHistogram: number[]
+  repetition: { share: number; programs: string[] }
+  priorityFees: { share: number; uniformity: number }
+  // Share of transactions landing within SLOT_WINDOW slots of another one
+  slotClustering: number
+  signals: BehaviorSignal[]
+  evidence: FactorEvidence[]
+}
+
+const RAPID_GAP_SECONDS = 10
+const SLOT_WINDOW = 2
+// Below this many transactions a signal is left out of the classification
+const MIN_TRANSACTIONS = { timing: 5, hours: 24, repetition: 5 }
+// Sample size at which confidence is no longer discounted
+const FULL_CONFIDENCE_SAMPLE = 50
+const BOT_THRESHOLD = 0.6
+const HUMAN_THRESHOLD = 0.3
+const MAX_EVIDENCE = 25
+
+const SIGNAL_WEIGHTS: Record<BehaviorSignal["id"], number> = {
+  rapid: 0.25,
+  regularity: 0.1,
+  hours: 0.2,
+  repetition: 0.2,
+  "priority-fees": 0.1,
+  slots: 0.15,
+}
+
+const GAP_BUCKETS = [
+  { label: "<10s", max: RAPID_GAP_SECONDS },
+  { label: "10s-1m", max: 60 },
+  { label: "1-10m", max: 600 },
+  { label: "10m-1h", max: 3600 },
+  { label: "1h-1d", max: 86400 },
+  { label: ">1d", max: Infinity },
+]
+
+function clamp(value: number) {
+  return Math.max(0, Math.min(1, value))
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(0)}%`
+}
+
+// Parsed instructions (from the RPC provider) carry no raw data, so they are
+// told apart by their type and the addresses they name
+function instructionPart(instruction: any) {
+  const parsed = instruction.parsed
+  if (parsed && typeof parsed === "object") {
+    const info = parsed.info || {}
+    const addresses = Object.keys(info)
+      .sort()
+      .filter((field) => typeof info[field] === "string" && isValidAddress(info[field]))
+      .map((field) => `${field}=${info[field]}`)
+    return `${instruction.programId}:${parsed.type}:${addresses.join(",")}`
+  }
+  return `${instruction.programId}:${instruction.data}:${(instruction.accounts || []).join(",")}`
+}
+
+// Identical programs, instruction data and accounts mean the same action replayed
+function instructionKey(tx: any) {
+  return (tx.instructions || []).map(instructionPart).join("|")
+}
+
+function classify(botLikelihood: number, sampleSize: number) {
+  const classification: BehaviorClass =
+    botLikelihood >= BOT_THRESHOLD ? "bot" : botLikelihood <= HUMAN_THRESHOLD ? "human" : "mixed"
+
+  // How far inside its band the likelihood sits, discounted for small samples
+  const middle = (BOT_THRESHOLD + HUMAN_THRESHOLD) / 2
+  const margin =
+    classification === "bot"
+      ? (botLikelihood - BOT_THRESHOLD) / (1 - BOT_THRESHOLD)
+      : classification === "human"
+        ? (HUMAN_THRESHOLD - botLikelihood) / HUMAN_THRESHOLD
+        : 1 - Math.abs(botLikelihood - middle) / (middle - HUMAN_THRESHOLD)
+  const confidence = (0.5 + 0.5 * clamp(margin)) * Math.min(1, sampleSize / FULL_CONFIDENCE_SAMPLE)
+
+  return { classification, confidence: Math.round(confidence * 100) / 100 }
+}
+
+// Looks at how a wallet transacts rather than how much: timing, time of day,
+// replayed instructions, priority fees and slot clustering. Pure, so the score
+// and the analytics panel classify the same history the same way.
+export function analyzeBehavior(transactions: any[], walletAddress: string): BehaviorProfile {
+  const signed = transactions
+    .filter((tx) => !tx.feePayer || tx.feePayer === walletAddress)
+    .sort((a, b) => a.timestamp - b.timestamp || a.slot - b.slot)
+  const signals: BehaviorSignal[] = []
+  const evidence: FactorEvidence[] = []
+  const addEvidence = (tx: any, detail: string) => {
+    if (evidence.length < MAX_EVIDENCE && !evidence.some((item) => item.signature === tx.signature)) {
+      evidence.push({ signature: tx.signature, timestamp: tx.timestamp, detail })
+    }
+  }
+
+  // Inter-transaction timing
+  const gaps = signed.slice(1).map((tx, index) => tx.timestamp - signed[index].timestamp)
+  const rapidShare = gaps.length > 0 ? gaps.filter((gap) => gap < RAPID_GAP_SECONDS).length / gaps.length : 0
+  const meanGap = gaps.length > 0 ? gaps.reduce((total, gap) => total + gap, 0) / gaps.length : 0
+  const gapVariation =
+    gaps.length > 0 && meanGap > 0
+      ? Math.sqrt(gaps.reduce((total, gap) => total + Math.pow(gap - meanGap, 2), 0) / gaps.length) / meanGap
+      : null
+  const histogram = GAP_BUCKETS.map((bucket, index) => ({
+    label: bucket.label,
+    count: gaps.filter((gap) => gap < bucket.max && (index === 0 || gap >= GAP_BUCKETS[index - 1].max)).length,
+  }))
+
+  if (signed.length >= MIN_TRANSACTIONS.timing) {
+    signals.push({
+      id: "rapid",
+      name: "Rapid-fire transactions",
+      botLikelihood: clamp(rapidShare / 0.5),
+      detail: `${percent(rapidShare)} of transactions follow the previous one within ${RAPID_GAP_SECONDS}s`,
+    })
+    if (gapVariation !== null) {
+      signals.push({
+        id: "regularity",
+        name: "Timing regularity",
+        botLikelihood: clamp((1 - gapVariation) / 0.7),
+        detail: `Gap variation ${gapVariation.toFixed(2)} (humans are bursty, timers are regular)`,
+      })
+    }
+    signed.slice(1).forEach((tx, index) => {
+      if (gaps[index] < RAPID_GAP_SECONDS) addEvidence(tx, `${gaps[index]}s after the previous transaction`)
+    })
+  }
+
+  // Hour-of-day entropy: people sleep, schedulers do not
+  const hourHistogram = new Array(24).fill(0)
+  signed.forEach((tx) => hourHistogram[new Date(tx.timestamp * 1000).getUTCHours()]++)
+  const hourEntropy =
+    signed.length > 0
+      ? -hourHistogram
+          .filter((count) => count > 0)
+          .reduce((total, count) => total + (count / signed.length) * Math.log(count / signed.length), 0) /
+        Math.log(24)
+      : 0
+  if (signed.length >= MIN_TRANSACTIONS.hours) {
+    const activeHours = hourHistogram.filter((count) => count > 0).length
+    signals.push({
+      id: "hours",
+      name: "Round-the-clock activity",
+      botLikelihood: clamp((hourEntropy - 0.8) / 0.15),
+      detail: `Active in ${activeHours} of 24 hours (entropy ${hourEntropy.toFixed(2)})`,
+    })
+  }
+
+  // Identical instruction sequences
+  const patterns = new Map<string, any[]>()
+  signed.forEach((tx) => {
+    const key = instructionKey(tx)
+    if (key) patterns.set(key, [...(patterns.get(key) || []), tx])
+  })
+  const repeated = Array.from(patterns.values()).sort((a, b) => b.length - a.length)[0] || []
+  const repetitionShare = signed.length > 0 && repeated.length > 1 ? repeated.length / signed.length : 0
+  if (signed.length >= MIN_TRANSACTIONS.repetition) {
+    signals.push({
+      id: "repetition",
+      name: "Repeated identical instructions",
+      botLikelihood: clamp((repetitionShare - 0.2) / 0.5),
+      detail: `${percent(repetitionShare)} of transactions replay the same instructions`,
+    })
+    if (repetitionShare >= 0.2) {
+      repeated.forEach((tx) => addEvidence(tx, "Identical instructions to other transactions"))
+    }
+  }
+
+  // Priority fees, and how uniform they are across transactions
+  const prioritized = signed.filter((tx) =>
+    (tx.instructions || []).some((instruction: any) => instruction.programId === COMPUTE_BUDGET_PROGRAM_ID),
+  )
+  const feeCounts = new Map<number, number>()
+  prioritized.forEach((tx) => feeCounts.set(tx.fee, (feeCounts.get(tx.fee) || 0) + 1))
+  const priorityShare = signed.length > 0 ? prioritized.length / signed.length : 0
+  const feeUniformity = prioritized.length > 0 ? Math.max(...Array.from(feeCounts.values())) / prioritized.length : 0
+  if (signed.length >= MIN_TRANSACTIONS.timing) {
+    signals.push({
+      id: "priority-fees",
+      name: "Priority fee pattern",
+      botLikelihood: clamp(priorityShare * feeUniformity),
+      detail: `${percent(priorityShare)} set a priority fee, ${percent(feeUniformity)} of those the exact same fee`,
+    })
+  }
+
+  // Several transactions landing within a couple of slots of each other
+  const clustered = signed.filter((tx, index) => {
+    const previous = signed[index - 1]
+    const next = signed[index + 1]
+    return (
+      (previous && Math.abs(tx.slot - previous.slot) <= SLOT_WINDOW) ||
+      (next && Math.abs(next.slot - tx.slot) <= SLOT_WINDOW)
+    )
+  })
+  const slotClustering = signed.length > 0 ? clustered.length / signed.length : 0
+  if (signed.length >= MIN_TRANSACTIONS.timing) {
+    signals.push({
+      id: "slots",
+      name: "Slot clustering",
+      botLikelihood: clamp(slotClustering / 0.3),
+      detail: `${percent(slotClustering)} of transactions land within ${SLOT_WINDOW} slots of another`,
+    })
+  }
+
+  const totalWeight = signals.reduce((total, signal) => total + SIGNAL_WEIGHTS[signal.id], 0)
+  const botLikelihood =
+    totalWeight > 0
+      ? Math.round(
+          (signals.reduce((total, signal) => total + signal.botLikelihood * SIGNAL_WEIGHTS[signal.id], 0) /
+            totalWeight) *
+            100,
+        ) / 100
+      : 0
+
+  return {
+    ...classify(botLikelihood, signed.length),
+    botLikelihood,
+    sampleSize: signed.length,
+    timing: {
+      medianGapSeconds: gaps.length > 0 ? median(gaps) : null,
+      rapidShare,
+      gapVariation,
+      histogram,
+    },
+    hourEntropy,
+    hourHistogram,
+    repetition: {
+      share: repetitionShare,
+      programs:
+        repeated.length > 1 ? (repeated[0].instructions || []).map((instruction: any) => instruction.programId) : [],
+    },
+    priorityFees: { share: priorityShare, uniformity: feeUniformity },
+    slotClustering,
+    signals,
+    evidence,
+  }
+}
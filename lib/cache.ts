@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { mkdirSync } from "fs"
+import path from "path"
+import Database from "better-sqlite3"
+import { type NextResponse } from "next/server"
+
+export type CacheStatus = "HIT" | "STALE" | "MISS"
+
+export interface CacheEntry<T> {
+  value: T
+  // Past its TTL but still inside the stale window
+  stale: boolean
+}
+
+export interface CachePolicy {
+  // Seconds an entry is fresh; Infinity for immutable data
+  ttl: number
+  // Further seconds a stale entry may be served while it is refreshed
+  staleWhileRevalidate: number
+}
+
+// Key/value store in a local SQLite file. Values are stored as JSON with the
+// time they were written, and freshness is decided at read time so a policy
+// change applies to existing entries.
+export class SqliteCache {
+  private db: Database.Database
+
+  constructor(file: string) {
+    mkdirSync(path.dirname(file), { recursive: true })
+    this.db = new Database(file)
+    this.db.pragma("journal_mode = WAL")
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS cache (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        stored_at INTEGER NOT NULL
+      )
+    `)
+  }
+
+  get<T>(key: string, policy: CachePolicy): CacheEntry<T> | null {
+    const row = this.db.prepare("SELECT value, stored_at FROM cache WHERE key = ?").get(key) as
+      | { value: string; stored_at: number }
+      | undefined
+    if (!row) return null
+
+    const age = (Date.now() - row.stored_at) / 1000
+    if (age > policy.ttl + policy.staleWhileRevalidate) return null
+
+    return { value: JSON.parse(row.value), stale: age > policy.ttl }
+  }
+
+  set(key: string, value: any) {
+    this.db
+      .prepare("INSERT OR REPLACE INTO cache (key, value, stored_at) VALUES (?, ?, ?)")
+      .run(key, JSON.stringify(value), Date.now())
+  }
+}
+
+// Per-request tally of cache results, so a route can report how its response
+// was served without threading state through every helper it calls.
+interface CacheStats {
+  hits: number
+  stale: number
+  misses: number
+}
+
+const cacheStats = new AsyncLocalStorage<CacheStats>()
+
+export function recordCacheStatus(status: CacheStatus) {
+  const stats = cacheStats.getStore()
+  if (!stats) return
+
+  if (status === "HIT") stats.hits++
+  else if (status === "STALE") stats.stale++
+  else stats.misses++
+}
+
+function overallStatus(stats: CacheStats): CacheStatus {
+  if (stats.misses > 0) return "MISS"
+  if (stats.stale > 0) return "STALE"
+  return "HIT"
+}
+
+// Wrap a route handler to add X-Cache headers describing how the chain data
+// behind the response was served. Responses that touched no cached data get
+// no header.
+export function withCacheStatus<Args extends any[]>(handler: (...args: Args) => Promise<NextResponse>) {
+  return async (...args: Args) => {
+    const stats: CacheStats = { hits: 0, stale: 0, misses: 0 }
+    const response = await cacheStats.run(stats, () => handler(...args))
+
+    if (stats.hits + stats.stale + stats.misses > 0) {
+      response.headers.set("X-Cache", overallStatus(stats))
+      response.headers.set("X-Cache-Hits", String(stats.hits + stats.stale))
+      response.headers.set("X-Cache-Misses", String(stats.misses))
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,208 @@
+import type {
+  AssetPage,
+  ChainDataProvider,
+  EnhancedTransaction,
+  MintTokenAccounts,
+  SignatureInfo,
+  SignatureQuery,
+  WalletBalances,
+} from "@/lib/chain-data-provider"
+import { type CachePolicy, type SqliteCache, recordCacheStatus } from "@/lib/cache"
+
+// Finalized transactions never change, and neither does a signature page
+// fetched with a `before` cursor. Anything that follows the chain head or
+// account state gets a short TTL and is refreshed in the background.
+const IMMUTABLE: CachePolicy = { ttl: Infinity, staleWhileRevalidate: 0 }
+const CHAIN_HEAD: CachePolicy = { ttl: 30, staleWhileRevalidate: 300 }
+const ACCOUNT_STATE: CachePolicy = { ttl: 30, staleWhileRevalidate: 300 }
+const ACCOUNT_INFO: CachePolicy = { ttl: 60, staleWhileRevalidate: 600 }
+const ASSETS: CachePolicy = { ttl: 300, staleWhileRevalidate: 3600 }
+const TOKEN_METADATA: CachePolicy = { ttl: 3600, staleWhileRevalidate: 86400 }
+
+function pagePolicy(query?: SignatureQuery) {
+  return query?.before ? IMMUTABLE : CHAIN_HEAD
+}
+
+// Serves provider calls from the SQLite cache, keyed by provider, method and
+// arguments. Stale entries are returned immediately while a refresh runs.
+export class CachedProvider implements ChainDataProvider {
+  readonly name: string
+  private provider: ChainDataProvider
+  private cache: SqliteCache
+  private refreshing = new Set<string>()
+
+  constructor(provider: ChainDataProvider, cache: SqliteCache) {
+    this.name = provider.name
+    this.provider = provider
+    this.cache = cache
+  }
+
+  private key(method: string, args: any[]) {
+    return `${this.provider.name}:${method}:${JSON.stringify(args)}`
+  }
+
+  private store(key: string, value: any) {
+    try {
+      this.cache.set(key, value)
+    } catch (error) {
+      console.warn(`Failed to cache ${key}:`, error)
+    }
+  }
+
+  private revalidate<T>(key: string, fetcher: () => Promise<T>, shouldStore: (value: T) => boolean) {
+    if (this.refreshing.has(key)) return
+    this.refreshing.add(key)
+
+    fetcher()
+      .then((value) => {
+        if (shouldStore(value)) this.store(key, value)
+      })
+      .catch((error) => console.warn(`Failed to refresh ${key}:`, error))
+      .finally(() => this.refreshing.delete(key))
+  }
+
+  private async cached<T>(
+    method: string,
+    args: any[],
+    policy: CachePolicy,
+    fetcher: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true,
+  ): Promise<T> {
+    const key = this.key(method, args)
+    const entry = this.cache.get<T>(key, policy)
+
+    if (entry && !entry.stale) {
+      recordCacheStatus("HIT")
+      return entry.value
+    }
+
+    if (entry) {
+      recordCacheStatus("STALE")
+      this.revalidate(key, fetcher, shouldStore)
+      return entry.value
+    }
+
+    recordCacheStatus("MISS")
+    const value = await fetcher()
+    if (shouldStore(value)) this.store(key, value)
+    return value
+  }
+
+  async getSignaturesForAddress(address: string, query?: SignatureQuery): Promise<SignatureInfo[]> {
+    return this.cached("getSignaturesForAddress", [address, query], pagePolicy(query), () =>
+      this.provider.getSignaturesForAddress(address, query),
+    )
+  }
+
+  async getTransaction(signature: string) {
+    // Not-found may just mean not yet finalized, so only cache real results
+    return this.cached(
+      "getTransaction",
+      [signature],
+      IMMUTABLE,
+      () => this.provider.getTransaction(signature),
+      (tx) => tx !== null,
+    )
+  }
+
+  // Shares the getTransaction cache entries, fetching only the missing ones
+  async getTransactions(signatures: string[]) {
+    const found = new Map<string, any>()
+    const missing: string[] = []
+
+    for (const signature of signatures) {
+      const entry = this.cache.get(this.key("getTransaction", [signature]), IMMUTABLE)
+      if (entry) {
+        recordCacheStatus("HIT")
+        found.set(signature, entry.value)
+      } else {
+        missing.push(signature)
+      }
+    }
+
+    if (missing.length > 0) {
+      recordCacheStatus("MISS")
+      const transactions = await this.provider.getTransactions(missing)
+      transactions.forEach((tx, index) => {
+        if (!tx) return
+        this.store(this.key("getTransaction", [missing[index]]), tx)
+        found.set(missing[index], tx)
+      })
+    }
+
+    return signatures.map((signature) => found.get(signature) ?? null)
+  }
+
+  async getTransactionHistory(address: string, query?: SignatureQuery): Promise<EnhancedTransaction[]> {
+    return this.cached("getTransactionHistory", [address, query], pagePolicy(query), () =>
+      this.provider.getTransactionHistory(address, query),
+    )
+  }
+
+  // Cached per signature, so overlapping batches only fetch what is missing
+  async parseTransactions(signatures: string[]): Promise<EnhancedTransaction[]> {
+    const found = new Map<string, EnhancedTransaction>()
+    const missing: string[] = []
+
+    for (const signature of signatures) {
+      const entry = this.cache.get<EnhancedTransaction>(this.key("parseTransactions", [signature]), IMMUTABLE)
+      if (entry) {
+        recordCacheStatus("HIT")
+        found.set(signature, entry.value)
+      } else {
+        missing.push(signature)
+      }
+    }
+
+    if (missing.length > 0) {
+      recordCacheStatus("MISS")
+      const transactions = await this.provider.parseTransactions(missing)
+      for (const tx of transactions) {
+        this.store(this.key("parseTransactions", [tx.signature]), tx)
+        found.set(tx.signature, tx)
+      }
+    }
+
+    return signatures.map((signature) => found.get(signature)).filter((tx): tx is EnhancedTransaction => !!tx)
+  }
+
+  async getBalances(address: string): Promise<WalletBalances> {
+    return this.cached("getBalances", [address], ACCOUNT_STATE, () => this.provider.getBalances(address))
+  }
+
+  async getTokenAccounts(address: string): Promise<any[]> {
+    return this.cached("getTokenAccounts", [address], ACCOUNT_STATE, () => this.provider.getTokenAccounts(address))
+  }
+
+  async getAccountInfo(address: string) {
+    return this.cached("getAccountInfo", [address], ACCOUNT_INFO, () => this.provider.getAccountInfo(address))
+  }
+
+  async getTokenLargestAccounts(mintAddress: string): Promise<any[]> {
+    return this.cached("getTokenLargestAccounts", [mintAddress], ACCOUNT_STATE, () =>
+      this.provider.getTokenLargestAccounts(mintAddress),
+    )
+  }
+
+  async getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts> {
+    return this.cached("getMintTokenAccounts", [mintAddress], ACCOUNT_STATE, () =>
+      this.provider.getMintTokenAccounts(mintAddress),
+    )
+  }
+
+  async getStakeAccounts(address: string): Promise<any[]> {
+    return this.cached("getStakeAccounts", [address], ACCOUNT_STATE, () => this.provider.getStakeAccounts(address))
+  }
+
+  async getAssetsByOwner(address: string, page?: number, limit?: number): Promise<AssetPage> {
+    return this.cached("getAssetsByOwner", [address, page, limit], ASSETS, () =>
+      this.provider.getAssetsByOwner(address, page, limit),
+    )
+  }
+
+  async getTokenMetadata(mintAddress: string) {
+    return this.cached("getTokenMetadata", [mintAddress], TOKEN_METADATA, () =>
+      this.provider.getTokenMetadata(mintAddress),
+    )
+  }
+}
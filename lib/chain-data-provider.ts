@@ -0,0 +1,138 @@
+import {
+  CHAIN_DATA_CACHE_PATH,
+  CHAIN_DATA_FIXTURE_DIR,
+  CHAIN_DATA_PROVIDER,
+  CHAIN_DATA_RECORD_DIR,
+  SOLANA_RPC_URL,
+} from "@/lib/config"
+import { HeliusAPI } from "@/lib/helius-api"
+import { SolanaRpcProvider } from "@/lib/solana-rpc"
+import { FixtureProvider, RecordingProvider } from "@/lib/fixture-provider"
+import { SqliteCache } from "@/lib/cache"
+import { CachedProvider } from "@/lib/cached-provider"
+
+export interface SignatureInfo {
+  signature: string
+  slot: number
+  blockTime: number | null
+  err: any
+  memo: string | null
+}
+
+export interface SignatureQuery {
+  limit?: number
+  before?: string
+  until?: string
+}
+
+// Helius "enhanced" transaction shape. Providers without an enhanced API
+// derive it from the parsed transaction.
+export interface EnhancedTransaction {
+  signature: string
+  slot: number
+  timestamp: number
+  fee: number
+  feePayer: string
+  // Accounts that signed, when the source reports them
+  signers?: string[]
+  type?: string
+  description?: string
+  transactionError?: any
+  instructions: any[]
+  events: any
+  nativeTransfers: any[]
+  tokenTransfers: any[]
+}
+
+export interface TokenBalance {
+  mint: string
+  amount: number
+  decimals: number
+  tokenAccount: string
+}
+
+export interface WalletBalances {
+  nativeBalance: number
+  tokens: TokenBalance[]
+}
+
+// A token account of a mint, with its amount in base units
+export interface MintTokenAccount {
+  address: string
+  owner: string
+  amount: number
+}
+
+export interface MintTokenAccounts {
+  accounts: MintTokenAccount[]
+  // False when the provider stopped before listing every account
+  complete: boolean
+}
+
+export interface AssetPage {
+  total: number
+  limit: number
+  page: number
+  items: any[]
+}
+
+export interface ChainDataProvider {
+  readonly name: string
+  getSignaturesForAddress(address: string, query?: SignatureQuery): Promise<SignatureInfo[]>
+  getTransaction(signature: string): Promise<any | null>
+  // Several transactions in one round trip where the provider supports it;
+  // results line up with the signatures, null where not found
+  getTransactions(signatures: string[]): Promise<(any | null)[]>
+  // One page of enhanced history, newest first. Use iterateTransactionHistory
+  // from lib/transaction-history to walk the full history.
+  getTransactionHistory(address: string, query?: SignatureQuery): Promise<EnhancedTransaction[]>
+  parseTransactions(signatures: string[]): Promise<EnhancedTransaction[]>
+  getBalances(address: string): Promise<WalletBalances>
+  getTokenAccounts(address: string): Promise<any[]>
+  getAccountInfo(address: string): Promise<any | null>
+  // Largest token accounts of a mint (up to 20), as getTokenLargestAccounts returns them
+  getTokenLargestAccounts(mintAddress: string): Promise<any[]>
+  // Every token account of a mint that holds a balance
+  getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts>
+  // Native stake accounts (jsonParsed) with the address as stake or withdraw authority
+  getStakeAccounts(address: string): Promise<any[]>
+  getAssetsByOwner(address: string, page?: number, limit?: number): Promise<AssetPage>
+  getTokenMetadata(mintAddress: string): Promise<any | null>
+}
+
+let provider: ChainDataProvider | null = null
+
+export function createChainDataProvider(name = CHAIN_DATA_PROVIDER): ChainDataProvider {
+  switch (name) {
+    case "helius":
+      return new HeliusAPI()
+    case "rpc":
+      return new SolanaRpcProvider(SOLANA_RPC_URL)
+    case "fixture":
+      return new FixtureProvider(CHAIN_DATA_FIXTURE_DIR)
+    default:
+      throw new Error(`Unknown chain data provider: ${name}`)
+  }
+}
+
+export function getChainDataProvider(): ChainDataProvider {
+  if (!provider) {
+    provider = createChainDataProvider()
+
+    // Record live responses so the app can later be replayed offline
+    if (CHAIN_DATA_RECORD_DIR && provider.name !== "fixture") {
+      provider = new RecordingProvider(provider, CHAIN_DATA_RECORD_DIR)
+    }
+
+    if (CHAIN_DATA_CACHE_PATH && provider.name !== "fixture") {
+      try {
+        provider = new CachedProvider(provider, new SqliteCache(CHAIN_DATA_CACHE_PATH))
+      } catch (error) {
+        // A missing native SQLite binding should cost us caching, not the app
+        console.warn("Chain data cache unavailable, continuing without it:", error)
+      }
+    }
+  }
+
+  return provider
+}
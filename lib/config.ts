@@ -0,0 +1,27 @@
+// Server-side provider configuration. These values are read from the server
+// environment and must never be imported into client components.
+export const HELIUS_API_KEY = process.env.HELIUS_API_KEY || ""
+export const HELIUS_BASE_URL = process.env.HELIUS_BASE_URL || "https://api.helius.xyz/v0"
+export const HELIUS_RPC_URL = process.env.HELIUS_RPC_URL || `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
+export const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com"
+// USD token prices, in the Jupiter price API v2 format
+export const TOKEN_PRICE_URL = process.env.TOKEN_PRICE_URL || "https://lite-api.jup.ag/price/v2"
+
+// Which ChainDataProvider to use: "helius", "rpc" or "fixture"
+export const CHAIN_DATA_PROVIDER = process.env.CHAIN_DATA_PROVIDER || "helius"
+export const CHAIN_DATA_FIXTURE_DIR = process.env.CHAIN_DATA_FIXTURE_DIR || "fixtures"
+// When set, live provider responses are also written here as fixtures
+export const CHAIN_DATA_RECORD_DIR = process.env.CHAIN_DATA_RECORD_DIR || ""
+// SQLite file backing the chain data cache; set to an empty string to disable
+export const CHAIN_DATA_CACHE_PATH = process.env.CHAIN_DATA_CACHE_PATH ?? ".cache/chain-data.sqlite"
+// Versioned address label datasets (JSON and CSV) loaded by the entity registry
+export const ENTITY_DATA_DIR = process.env.ENTITY_DATA_DIR || "data/entities"
+// When set, writes to flag lists and address labels need it as a bearer token.
+// Unset, anyone who can reach the server can edit them, which suits only a
+// local install. The browser UI sends the token entered on the lists screen.
+export const WRITE_API_TOKEN = process.env.WRITE_API_TOKEN || ""
+// Local storage for user-managed data such as custom address labels
+export const USER_DATA_DIR = process.env.USER_DATA_DIR || ".data"
+// Versioned reputability scoring models, and the one used when a request names none
+export const SCORING_MODEL_DIR = process.env.SCORING_MODEL_DIR || "data/scoring-models"
+export const DEFAULT_SCORING_MODEL = process.env.DEFAULT_SCORING_MODEL || "default"
@@ -0,0 +1,47 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { parseCsv, toCsv } from "@/lib/csv"
+
+interface Row {
+  address: string
+  score: number | null
+  error: string
+}
+
+test("rows survive a round trip through toCsv and parseCsv", () => {
+  const rows: Row[] = [
+    { address: "WaLLetoneBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB", score: 72, error: "" },
+    { address: "WaLLettwoCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC", score: null, error: 'Failed: "rate limited", retried' },
+  ]
+
+  assert.deepEqual(parseCsv(toCsv(rows, ["address", "score", "error"])), [
+    { address: rows[0].address, score: "72", error: "" },
+    { address: rows[1].address, score: "", error: 'Failed: "rate limited", retried' },
+  ])
+})
+
+test("text cells a spreadsheet would run as a formula get a leading quote", () => {
+  const rows: Row[] = ["=HYPERLINK(\"https://evil\")", "+1", "-1+1", "@SUM(A1)", "\tcmd"].map((error) => ({
+    address: "x",
+    score: -1,
+    error,
+  }))
+
+  const lines = toCsv(rows, ["address", "score", "error"]).split("\n").slice(1)
+  assert.deepEqual(lines, [
+    "x,-1,\"'=HYPERLINK(\"\"https://evil\"\")\"",
+    "x,-1,'+1",
+    "x,-1,'-1+1",
+    "x,-1,'@SUM(A1)",
+    "x,-1,'\tcmd",
+  ])
+})
+
+test("the formula guard is removed when the CSV is read back", () => {
+  const rows: Row[] = [{ address: "x", score: 1, error: "=1+1" }, { address: "y", score: 2, error: "-2" }]
+
+  assert.deepEqual(
+    parseCsv(toCsv(rows, ["address", "score", "error"])).map((row) => row.error),
+    ["=1+1", "-2"],
+  )
+})
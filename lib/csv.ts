@@ -0,0 +1,44 @@
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+// The quote toCsv puts in front of such a text cell, removed again on reading
+const FORMULA_GUARD = /^'(?=[=+\-@\t\r])/
+
+// Minimal CSV reader for label datasets and list imports: a header row, comma
+// separated, double quotes around fields that contain commas. Reads back the
+// formula guard toCsv adds.
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const fields = (line.match(/("([^"]|"")*"|[^,]*)(,|$)/g) || []).map((field) => field.replace(/,$/, ""))
+      // The pattern also matches the empty string after the last field
+      return line.endsWith(",") ? fields : fields.slice(0, -1)
+    })
+    .map((fields) =>
+      fields.map((field) => field.replace(/^"|"$/g, "").replace(/""/g, '"').replace(FORMULA_GUARD, "").trim()),
+    )
+
+  const [header, ...records] = rows
+  if (!header) return []
+
+  return records.map((fields) => {
+    const record: Record<string, string> = {}
+    header.forEach((name, index) => {
+      record[name] = fields[index] ?? ""
+    })
+    return record
+  })
+}
+
+function escapeCsvField(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value)
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Writes rows as CSV with a header row of the given columns
+export function toCsv<T>(rows: T[], columns: (keyof T & string)[]): string {
+  const lines = rows.map((row) => columns.map((column) => escapeCsvField(row[column])).join(","))
+  return [columns.join(","), ...lines].join("\n")
+}
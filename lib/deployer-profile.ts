@@ -0,0 +1,212 @@
+import type { ChainDataProvider, EnhancedTransaction } from "@/lib/chain-data-provider"
+import { decodeBase58 } from "@/lib/solana"
+import { TOKEN_PROGRAM_IDS } from "@/lib/solana-rpc"
+import { lookupTokenPrices } from "@/lib/prices"
+import { getEmbeddedMetadata } from "@/lib/token-extensions"
+import { collectTransactionHistory } from "@/lib/transaction-history"
+
+// Active: still trades. New: too young to judge. Abandoned: no market and
+// the deployer kept its tokens. Rugged: no market after the deployer sold.
+// Unknown: the price lookup failed, so whether it trades is not known.
+export type LaunchStatus = "active" | "new" | "abandoned" | "rugged" | "unknown"
+
+export interface TokenLaunch {
+  mint: string
+  // The transaction that initialized the mint
+  signature: string
+  createdAt: number
+  name: string | null
+  symbol: string | null
+  // Whole tokens; null when the mint account could not be read
+  supply: number | null
+  mintAuthorityActive: boolean | null
+  freezeAuthorityActive: boolean | null
+  priceUsd: number | null
+  // False when the price lookup failed, so a null price says nothing
+  priceChecked: boolean
+  // Whole tokens the deployer received and sent on, within the history scanned
+  deployerReceived: number
+  deployerSold: number
+  status: LaunchStatus
+  reasons: string[]
+}
+
+export interface DeployerProfile {
+  deployer: string
+  // Newest first
+  launches: TokenLaunch[]
+  transactionsScanned: number
+  activeCount: number
+  abandonedCount: number
+  ruggedCount: number
+  // Launches whose market could not be checked
+  unknownCount: number
+  serialLauncher: boolean
+}
+
+// Deployer transactions scanned for mint initializations
+const PROFILE_HISTORY_LIMIT = 1000
+// Mints looked up in detail; older launches beyond this are dropped
+const MAX_PROFILE_LAUNCHES = 50
+// Launches younger than this are not judged yet
+const NEW_LAUNCH_SECONDS = 24 * 60 * 60
+// Share of its tokens a deployer has to have sold for a dead token to count as rugged
+const RUG_SOLD_SHARE = 0.5
+// Launches from here up make a serial launcher
+export const SERIAL_LAUNCHER_MIN = 3
+
+// initializeMint and initializeMint2 instruction tags
+const INITIALIZE_MINT_TAGS = [0, 20]
+
+function initializedMint(instruction: any): string | null {
+  if (!TOKEN_PROGRAM_IDS.includes(instruction.programId)) return null
+
+  const parsed = instruction.parsed
+  if (parsed && typeof parsed === "object") {
+    return parsed.type === "initializeMint" || parsed.type === "initializeMint2" ? parsed.info?.mint || null : null
+  }
+
+  const data = decodeBase58(instruction.data || "")
+  return INITIALIZE_MINT_TAGS.includes(data[0]) ? (instruction.accounts || [])[0] || null : null
+}
+
+// Mints initialized in transactions the deployer paid for, oldest first.
+// Launchpads initialize the mint from inside their own program, so inner
+// instructions are searched too.
+export function findInitializedMints(transactions: EnhancedTransaction[], deployer: string) {
+  const mints = new Map<string, { signature: string; createdAt: number }>()
+  const ordered = [...transactions].sort((a, b) => a.timestamp - b.timestamp || a.slot - b.slot)
+
+  ordered.forEach((tx) => {
+    if (tx.transactionError || tx.feePayer !== deployer) return
+    const instructions = (tx.instructions || []).reduce(
+      (all: any[], instruction: any) => [...all, instruction, ...(instruction.innerInstructions || [])],
+      [],
+    )
+    instructions.forEach((instruction: any) => {
+      const mint = initializedMint(instruction)
+      if (mint && !mints.has(mint)) mints.set(mint, { signature: tx.signature, createdAt: tx.timestamp })
+    })
+  })
+
+  return mints
+}
+
+// Whether a launch still trades, and if not whether the deployer sold out of it
+export function judgeLaunch(launch: Omit<TokenLaunch, "status" | "reasons">, now: number) {
+  const reasons: string[] = []
+  const soldShare = launch.deployerReceived > 0 ? launch.deployerSold / launch.deployerReceived : 0
+  if (soldShare > 0) reasons.push(`Deployer sold ${(soldShare * 100).toFixed(0)}% of the tokens it received`)
+  if (launch.mintAuthorityActive) reasons.push("Mint authority still active")
+  if (launch.freezeAuthorityActive) reasons.push("Freeze authority still active")
+
+  let status: LaunchStatus
+  if (launch.priceUsd !== null) {
+    status = "active"
+  } else if (now - launch.createdAt < NEW_LAUNCH_SECONDS) {
+    status = "new"
+  } else if (!launch.priceChecked) {
+    status = "unknown"
+    reasons.unshift("Price lookup failed")
+  } else if (soldShare >= RUG_SOLD_SHARE) {
+    status = "rugged"
+    reasons.unshift("No longer trades")
+  } else {
+    status = "abandoned"
+    reasons.unshift("No market price")
+  }
+
+  return { status, reasons }
+}
+
+async function describeMint(provider: ChainDataProvider, mint: string) {
+  try {
+    const account = await provider.getAccountInfo(mint)
+    const info = account?.data?.parsed?.info
+    if (!info) return null
+
+    const embedded = getEmbeddedMetadata(info.extensions)
+    const metadata = embedded
+      ? null
+      : await provider.getTokenMetadata(mint).catch((error) => {
+          console.warn(`Failed to fetch metadata of ${mint}:`, error)
+          return null
+        })
+    const data = metadata?.onChainMetadata?.metadata?.data
+
+    return {
+      name: embedded?.name || data?.name || null,
+      symbol: embedded?.symbol || data?.symbol || null,
+      supply: Number(info.supply) / Math.pow(10, info.decimals || 0),
+      mintAuthorityActive: !!info.mintAuthority,
+      freezeAuthorityActive: !!info.freezeAuthority,
+    }
+  } catch (error) {
+    console.warn(`Failed to read mint ${mint}:`, error)
+    return null
+  }
+}
+
+// Every token the deployer launched within its recent history, with its
+// supply, authorities, market and whether it looks abandoned or rugged
+export async function getDeployerProfile(provider: ChainDataProvider, deployer: string): Promise<DeployerProfile> {
+  const transactions = await collectTransactionHistory(provider, deployer, { maxTransactions: PROFILE_HISTORY_LIMIT })
+  const initialized = findInitializedMints(transactions, deployer)
+  const mints = Array.from(initialized.keys()).slice(-MAX_PROFILE_LAUNCHES)
+
+  // What the deployer received and sent on of each launched token
+  const received = new Map<string, number>()
+  const sold = new Map<string, number>()
+  transactions.forEach((tx) => {
+    if (tx.transactionError) return
+    const tokenTransfers: any[] = tx.tokenTransfers || []
+    tokenTransfers.forEach((transfer) => {
+      const { mint, fromUserAccount, toUserAccount } = transfer
+      if (!initialized.has(mint) || fromUserAccount === toUserAccount) return
+      const amount = Number(transfer.tokenAmount) || 0
+      if (toUserAccount === deployer) received.set(mint, (received.get(mint) || 0) + amount)
+      if (fromUserAccount === deployer) sold.set(mint, (sold.get(mint) || 0) + amount)
+    })
+  })
+
+  const [details, prices] = await Promise.all([
+    Promise.all(mints.map((mint) => describeMint(provider, mint))),
+    lookupTokenPrices(mints),
+  ])
+
+  const now = Date.now() / 1000
+  const launches: TokenLaunch[] = mints
+    .map((mint, index) => {
+      const creation = initialized.get(mint) as { signature: string; createdAt: number }
+      const detail = details[index]
+      const launch = {
+        mint,
+        signature: creation.signature,
+        createdAt: creation.createdAt,
+        name: detail?.name || null,
+        symbol: detail?.symbol || null,
+        supply: detail ? detail.supply : null,
+        mintAuthorityActive: detail ? detail.mintAuthorityActive : null,
+        freezeAuthorityActive: detail ? detail.freezeAuthorityActive : null,
+        priceUsd: prices.get(mint) ?? null,
+        priceChecked: prices.has(mint),
+        deployerReceived: received.get(mint) || 0,
+        deployerSold: sold.get(mint) || 0,
+      }
+      return { ...launch, ...judgeLaunch(launch, now) }
+    })
+    .reverse()
+
+  const count = (status: LaunchStatus) => launches.filter((launch) => launch.status === status).length
+
+  return {
+    deployer,
+    launches,
+    transactionsScanned: transactions.length,
+    activeCount: count("active"),
+    abandonedCount: count("abandoned"),
+    ruggedCount: count("rugged"),
+    unknownCount: count("unknown"),
+    serialLauncher: launches.length >= SERIAL_LAUNCHER_MIN,
+  }
+}
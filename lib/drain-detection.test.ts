@@ -0,0 +1,167 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { detectDrainIncidents } from "@/lib/drain-detection"
+import { encodeBase58 } from "@/lib/solana"
+import { TOKEN_PROGRAM_ID } from "@/lib/solana-rpc"
+
+const HOUR = 60 * 60
+
+function address(seed: number) {
+  return encodeBase58(Array.from({ length: 32 }, () => seed))
+}
+
+const WALLET = address(1)
+const DRAINER = address(2)
+const TOKEN_ACCOUNT = address(3)
+const DRAINER_TOKEN_ACCOUNT = address(4)
+const MINTS = [address(5), address(6), address(7)]
+
+function transaction(signature: string, timestamp: number, feePayer: string, changes: Record<string, any> = {}) {
+  return {
+    signature,
+    slot: timestamp,
+    timestamp,
+    feePayer,
+    transactionError: null,
+    instructions: [],
+    nativeTransfers: [],
+    tokenTransfers: [],
+    ...changes,
+  }
+}
+
+// SOL and two tokens from one owner to one destination
+function sweep(signature: string, from: string, to: string, feePayer: string) {
+  return transaction(signature, 1000, feePayer, {
+    nativeTransfers: [{ fromUserAccount: from, toUserAccount: to, amount: 1000000 }],
+    tokenTransfers: MINTS.slice(0, 2).map((mint) => ({ fromUserAccount: from, toUserAccount: to, mint })),
+  })
+}
+
+// The wallet's tokens moved out by DRAINER, signing as delegate
+function delegateTransfer(signature: string, timestamp: number, instruction: any) {
+  return transaction(signature, timestamp, DRAINER, {
+    instructions: [instruction],
+    tokenTransfers: [
+      {
+        fromUserAccount: WALLET,
+        toUserAccount: DRAINER,
+        fromTokenAccount: TOKEN_ACCOUNT,
+        toTokenAccount: DRAINER_TOKEN_ACCOUNT,
+        mint: MINTS[0],
+      },
+    ],
+  })
+}
+
+function approval(signature: string, timestamp: number) {
+  return transaction(signature, timestamp, WALLET, {
+    instructions: [
+      {
+        programId: TOKEN_PROGRAM_ID,
+        accounts: [],
+        parsed: { type: "approve", info: { source: TOKEN_ACCOUNT, delegate: DRAINER, owner: WALLET } },
+      },
+    ],
+  })
+}
+
+test("a sweep out of the wallet paid for by someone else is a high-severity drain", () => {
+  const report = detectDrainIncidents([sweep("swept", WALLET, DRAINER, DRAINER)], WALLET)
+
+  assert.equal(report.role, "victim")
+  assert.equal(report.incidents[0].type, "multi-token-sweep")
+  assert.equal(report.incidents[0].severity, "high")
+  assert.equal(report.incidents[0].counterparty, DRAINER)
+})
+
+test("a sweep into the wallet its sender paid for is not counted as a drain", () => {
+  const report = detectDrainIncidents([sweep("consolidated", DRAINER, WALLET, DRAINER)], WALLET)
+
+  assert.equal(report.perpetratorIncidents, 1)
+  assert.equal(report.perpetratorDrains, 0)
+  assert.equal(report.role, "none")
+})
+
+test("a sweep into the wallet the wallet paid for is counted as a drain", () => {
+  const report = detectDrainIncidents([sweep("took", DRAINER, WALLET, WALLET)], WALLET)
+
+  assert.equal(report.perpetratorDrains, 1)
+  assert.equal(report.role, "perpetrator")
+})
+
+test("a delegate transfer soon after an approval is found from jsonParsed instructions", () => {
+  const transfer = delegateTransfer("drained", 2 * HOUR, {
+    programId: TOKEN_PROGRAM_ID,
+    accounts: [],
+    parsed: {
+      type: "transferChecked",
+      info: { source: TOKEN_ACCOUNT, destination: DRAINER_TOKEN_ACCOUNT, authority: DRAINER },
+    },
+  })
+  const report = detectDrainIncidents([approval("approved", HOUR), transfer], WALLET)
+
+  assert.equal(report.incidents.length, 1)
+  assert.equal(report.incidents[0].type, "delegate-transfer")
+  assert.equal(report.incidents[0].severity, "high")
+  assert.deepEqual(report.incidents[0].relatedSignatures, ["approved"])
+})
+
+test("a delegate transfer is found from raw instruction data", () => {
+  const transfer = delegateTransfer("drained", 2 * HOUR, {
+    programId: TOKEN_PROGRAM_ID,
+    // Transfer: tag 3 then the amount
+    accounts: [TOKEN_ACCOUNT, DRAINER_TOKEN_ACCOUNT, DRAINER],
+    data: encodeBase58([3, 1, 0, 0, 0, 0, 0, 0, 0]),
+  })
+
+  const victim = detectDrainIncidents([transfer], WALLET)
+  assert.equal(victim.incidents[0].type, "delegate-transfer")
+  assert.equal(victim.incidents[0].role, "victim")
+  assert.equal(victim.incidents[0].severity, "medium")
+
+  const perpetrator = detectDrainIncidents([transfer], DRAINER)
+  assert.equal(perpetrator.incidents[0].role, "perpetrator")
+  assert.equal(perpetrator.perpetratorDrains, 1)
+})
+
+test("handing over a token account's owner is found from jsonParsed instructions", () => {
+  const handover = transaction("handover", HOUR, DRAINER, {
+    instructions: [
+      {
+        programId: TOKEN_PROGRAM_ID,
+        accounts: [],
+        parsed: {
+          type: "setAuthority",
+          info: { account: TOKEN_ACCOUNT, authority: WALLET, authorityType: "accountOwner", newAuthority: DRAINER },
+        },
+      },
+    ],
+  })
+
+  const report = detectDrainIncidents([handover], WALLET)
+  assert.equal(report.incidents[0].type, "set-authority")
+  assert.equal(report.incidents[0].severity, "high")
+  assert.equal(report.incidents[0].counterparty, DRAINER)
+})
+
+test("handing over a token account's owner is found from raw instruction data", () => {
+  const handover = transaction("handover", HOUR, DRAINER, {
+    instructions: [
+      {
+        programId: TOKEN_PROGRAM_ID,
+        // SetAuthority: tag 6, authority type 2 (account owner), then the new owner
+        accounts: [TOKEN_ACCOUNT, WALLET],
+        data: encodeBase58([6, 2, 1, ...Array.from({ length: 32 }, () => 2)]),
+      },
+    ],
+  })
+
+  const victim = detectDrainIncidents([handover], WALLET)
+  assert.equal(victim.incidents[0].type, "set-authority")
+  assert.equal(victim.incidents[0].counterparty, DRAINER)
+
+  const perpetrator = detectDrainIncidents([handover], DRAINER)
+  assert.equal(perpetrator.role, "perpetrator")
+  assert.equal(perpetrator.perpetratorDrains, 1)
+})
@@ -0,0 +1,310 @@
+import { decodeBase58, encodeBase58 } from "@/lib/solana"
+import { TOKEN_PROGRAM_IDS } from "@/lib/solana-rpc"
+
+export type DrainIncidentType = "multi-token-sweep" | "delegate-transfer" | "set-authority"
+// Victim: the wallet lost control of funds. Perpetrator: the wallet took them.
+export type DrainRole = "victim" | "perpetrator"
+
+export interface DrainIncident {
+  type: DrainIncidentType
+  role: DrainRole
+  severity: "high" | "medium" | "low"
+  signature: string
+  timestamp: number
+  // The other side: drainer, delegate, or the previous or new authority
+  counterparty: string
+  detail: string
+  // Earlier transactions that set the incident up, e.g. the approval a delegate used
+  relatedSignatures: string[]
+}
+
+export interface DrainReport {
+  // Perpetrator only on incidents that show drain evidence
+  role: DrainRole | "both" | "none"
+  victimIncidents: number
+  perpetratorIncidents: number
+  // Perpetrator incidents that show drain evidence; see showsDrainEvidence
+  perpetratorDrains: number
+  incidents: DrainIncident[]
+}
+
+// Distinct assets (SOL counts as one) moved from one owner to one
+// destination in a single transaction before it reads as a sweep
+const SWEEP_MIN_ASSETS = 3
+// A delegate transfer this soon after the approval is the drainer pattern
+const APPROVAL_DRAIN_WINDOW_SECONDS = 24 * 60 * 60
+const MAX_INCIDENTS = 100
+
+// SPL token SetAuthority authority types, by their instruction byte
+const AUTHORITY_TYPES = ["mintTokens", "freezeAccount", "accountOwner", "closeAccount"]
+
+interface TokenInstruction {
+  type: "transfer" | "approve" | "setAuthority"
+  // Token account the instruction acts on
+  account: string
+  // Signer: owner, delegate or current authority
+  authority: string
+  destination?: string
+  delegate?: string
+  authorityType?: string
+  newAuthority?: string | null
+}
+
+// Reads the token instructions drains are made of, from either jsonParsed
+// fields (RPC provider) or raw base58 data (enhanced API)
+function decodeTokenInstruction(instruction: any): TokenInstruction | null {
+  if (!TOKEN_PROGRAM_IDS.includes(instruction.programId)) return null
+
+  const parsed = instruction.parsed
+  if (parsed && typeof parsed === "object") {
+    const info = parsed.info || {}
+    switch (parsed.type) {
+      case "transfer":
+      case "transferChecked":
+      case "transferCheckedWithFee":
+        return {
+          type: "transfer",
+          account: info.source,
+          destination: info.destination,
+          authority: info.authority || info.multisigAuthority,
+        }
+      case "approve":
+      case "approveChecked":
+        return { type: "approve", account: info.source, delegate: info.delegate, authority: info.owner }
+      case "setAuthority":
+        return {
+          type: "setAuthority",
+          account: info.account || info.mint,
+          authority: info.authority || info.multisigAuthority,
+          authorityType: info.authorityType,
+          newAuthority: info.newAuthority ?? null,
+        }
+    }
+    return null
+  }
+
+  const data = decodeBase58(instruction.data || "")
+  const accounts: string[] = instruction.accounts || []
+  switch (data[0]) {
+    case 3:
+      return { type: "transfer", account: accounts[0], destination: accounts[1], authority: accounts[2] }
+    case 12:
+      return { type: "transfer", account: accounts[0], destination: accounts[2], authority: accounts[3] }
+    case 26:
+      // Token-2022 transfer fee extension; 1 is transferCheckedWithFee
+      return data[1] === 1
+        ? { type: "transfer", account: accounts[0], destination: accounts[2], authority: accounts[3] }
+        : null
+    case 4:
+      return { type: "approve", account: accounts[0], delegate: accounts[1], authority: accounts[2] }
+    case 13:
+      return { type: "approve", account: accounts[0], delegate: accounts[2], authority: accounts[3] }
+    case 6:
+      return {
+        type: "setAuthority",
+        account: accounts[0],
+        authority: accounts[1],
+        authorityType: AUTHORITY_TYPES[data[1]],
+        newAuthority: data[2] === 1 ? encodeBase58(data.slice(3, 35)) : null,
+      }
+  }
+  return null
+}
+
+// Top-level and inner token instructions of an enhanced transaction
+function tokenInstructions(tx: any): TokenInstruction[] {
+  const instructions = (tx.instructions || []).reduce(
+    (all: any[], instruction: any) => [...all, instruction, ...(instruction.innerInstructions || [])],
+    [],
+  )
+  return instructions
+    .map(decodeTokenInstruction)
+    .filter((instruction: TokenInstruction | null): instruction is TokenInstruction => instruction !== null)
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+// A sweep into the wallet that its sender paid for looks the same as someone
+// consolidating their own wallets. Only sweeps someone else paid for, and
+// every delegate transfer or authority takeover, count against the taker.
+export function showsDrainEvidence(incident: DrainIncident) {
+  return incident.type !== "multi-token-sweep" || incident.severity === "high" || incident.relatedSignatures.length > 0
+}
+
+// Finds drain patterns in a wallet's history and whether the wallet was on
+// the losing or the taking side: multi-asset sweeps, delegates moving tokens
+// after an approval, and token account authority handed over. Pure, so the
+// score and the overview report the same incidents.
+export function detectDrainIncidents(transactions: any[], walletAddress: string): DrainReport {
+  const ordered = [...transactions].sort((a, b) => a.timestamp - b.timestamp || a.slot - b.slot)
+  const incidents: DrainIncident[] = []
+  const add = (incident: DrainIncident) => {
+    if (!incidents.some((item) => item.signature === incident.signature && item.type === incident.type)) {
+      incidents.push(incident)
+    }
+  }
+
+  // Approvals the wallet granted: delegate -> signatures and times
+  const approvals = new Map<string, { signature: string; timestamp: number }[]>()
+
+  ordered.forEach((tx) => {
+    if (tx.transactionError) return
+
+    const tokenTransfers: any[] = tx.tokenTransfers || []
+    const transfers = [
+      ...(tx.nativeTransfers || []).map((transfer: any) => ({
+        from: transfer.fromUserAccount,
+        to: transfer.toUserAccount,
+        asset: "SOL",
+      })),
+      ...tokenTransfers.map((transfer) => ({
+        from: transfer.fromUserAccount,
+        to: transfer.toUserAccount,
+        asset: transfer.mint,
+      })),
+    ].filter((transfer) => transfer.from && transfer.to && transfer.from !== transfer.to)
+
+    // Token account -> owner, as far as this transaction's transfers show
+    const owners = new Map<string, string>()
+    tokenTransfers.forEach((transfer) => {
+      if (transfer.fromTokenAccount) owners.set(transfer.fromTokenAccount, transfer.fromUserAccount)
+      if (transfer.toTokenAccount) owners.set(transfer.toTokenAccount, transfer.toUserAccount)
+    })
+
+    // Many assets from one owner to one destination at once
+    const sweeps = new Map<string, Set<string>>()
+    transfers
+      .filter((transfer) => transfer.from === walletAddress || transfer.to === walletAddress)
+      .forEach((transfer) => {
+        const key = `${transfer.from}>${transfer.to}`
+        sweeps.set(key, (sweeps.get(key) || new Set<string>()).add(transfer.asset))
+      })
+    sweeps.forEach((assets, key) => {
+      if (assets.size < SWEEP_MIN_ASSETS) return
+      const [from, to] = key.split(">")
+      const victim = from === walletAddress
+      add({
+        type: "multi-token-sweep",
+        role: victim ? "victim" : "perpetrator",
+        // A sweep paid for by someone other than the owner was not the owner's doing
+        severity: tx.feePayer && tx.feePayer !== from ? "high" : "medium",
+        signature: tx.signature,
+        timestamp: tx.timestamp,
+        counterparty: victim ? to : from,
+        detail: victim
+          ? `${assets.size} assets swept to ${shortAddress(to)} in one transaction`
+          : `${assets.size} assets swept in from ${shortAddress(from)} in one transaction`,
+        relatedSignatures: [],
+      })
+    })
+
+    tokenInstructions(tx).forEach((instruction) => {
+      if (instruction.type === "approve" && instruction.authority === walletAddress && instruction.delegate) {
+        approvals.set(instruction.delegate, [
+          ...(approvals.get(instruction.delegate) || []),
+          { signature: tx.signature, timestamp: tx.timestamp },
+        ])
+      }
+
+      // A transfer signed by someone other than the token account's owner
+      // can only be a delegate spending an approval
+      if (instruction.type === "transfer") {
+        const owner = owners.get(instruction.account)
+        if (!owner || !instruction.authority || owner === instruction.authority) return
+
+        if (owner === walletAddress) {
+          const granted = approvals.get(instruction.authority) || []
+          const recent = granted.filter(
+            (approval) => tx.timestamp - approval.timestamp <= APPROVAL_DRAIN_WINDOW_SECONDS,
+          )
+          add({
+            type: "delegate-transfer",
+            role: "victim",
+            severity: recent.length > 0 ? "high" : "medium",
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            counterparty: instruction.authority,
+            detail:
+              recent.length > 0
+                ? `Delegate ${shortAddress(instruction.authority)} moved tokens shortly after being approved`
+                : `Delegate ${shortAddress(instruction.authority)} moved tokens out of the wallet`,
+            relatedSignatures: granted.map((approval) => approval.signature),
+          })
+        } else if (instruction.authority === walletAddress) {
+          add({
+            type: "delegate-transfer",
+            role: "perpetrator",
+            severity: "medium",
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            counterparty: owner,
+            detail: `Moved tokens out of ${shortAddress(owner)} as its delegate`,
+            relatedSignatures: [],
+          })
+        }
+      }
+
+      // Handing over a token account's owner or close authority gives away
+      // its balance
+      if (
+        instruction.type === "setAuthority" &&
+        (instruction.authorityType === "accountOwner" || instruction.authorityType === "closeAccount") &&
+        instruction.newAuthority &&
+        instruction.newAuthority !== instruction.authority
+      ) {
+        const ownerChange = instruction.authorityType === "accountOwner"
+        if (instruction.authority === walletAddress) {
+          add({
+            type: "set-authority",
+            role: "victim",
+            severity: ownerChange ? "high" : "medium",
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            counterparty: instruction.newAuthority,
+            detail: `${ownerChange ? "Owner" : "Close authority"} of token account ${shortAddress(
+              instruction.account,
+            )} handed to ${shortAddress(instruction.newAuthority)}`,
+            relatedSignatures: [],
+          })
+        } else if (instruction.newAuthority === walletAddress) {
+          add({
+            type: "set-authority",
+            role: "perpetrator",
+            severity: "high",
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            counterparty: instruction.authority,
+            detail: `Took over ${ownerChange ? "ownership" : "close authority"} of token account ${shortAddress(
+              instruction.account,
+            )} from ${shortAddress(instruction.authority)}`,
+            relatedSignatures: [],
+          })
+        }
+      }
+    })
+  })
+
+  const newestFirst = incidents.sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_INCIDENTS)
+  const victimIncidents = newestFirst.filter((incident) => incident.role === "victim").length
+  const perpetratorIncidents = newestFirst.length - victimIncidents
+  const perpetratorDrains = newestFirst.filter(
+    (incident) => incident.role === "perpetrator" && showsDrainEvidence(incident),
+  ).length
+
+  return {
+    role:
+      victimIncidents > 0 && perpetratorDrains > 0
+        ? "both"
+        : victimIncidents > 0
+          ? "victim"
+          : perpetratorDrains > 0
+            ? "perpetrator"
+            : "none",
+    victimIncidents,
+    perpetratorIncidents,
+    perpetratorDrains,
+    incidents: newestFirst,
+  }
+}
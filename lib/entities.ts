@@ -0,0 +1,46 @@
+// Shared shapes for labeled addresses. Safe to import from client components;
+// the registry that loads and stores labels lives in lib/entity-registry.
+
+export type EntityCategory =
+  | "system"
+  | "program"
+  | "defi"
+  | "exchange"
+  | "bridge"
+  | "market_maker"
+  | "token"
+  | "scam"
+  | "malicious_program"
+  | "other"
+
+export const ENTITY_CATEGORIES: EntityCategory[] = [
+  "system",
+  "program",
+  "defi",
+  "exchange",
+  "bridge",
+  "market_maker",
+  "token",
+  "scam",
+  "malicious_program",
+  "other",
+]
+
+export interface AddressEntity {
+  address: string
+  name: string
+  category: EntityCategory
+  // Dataset or person the label came from
+  source: string
+  // 0-1, how sure the source is about the label
+  confidence: number
+}
+
+// Interacting with these is a risk signal
+export const FLAGGED_CATEGORIES: EntityCategory[] = ["scam", "malicious_program"]
+
+// Runtime programs and sysvars that appear in most transactions and say
+// nothing about who a wallet deals with
+export function isInfrastructure(entity: AddressEntity | null | undefined) {
+  return entity?.category === "system"
+}
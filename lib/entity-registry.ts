@@ -0,0 +1,154 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs"
+import path from "path"
+import { ENTITY_DATA_DIR, USER_DATA_DIR } from "@/lib/config"
+import { parseCsv } from "@/lib/csv"
+import { type AddressEntity, type EntityCategory, ENTITY_CATEGORIES } from "@/lib/entities"
+
+export type { AddressEntity, EntityCategory } from "@/lib/entities"
+
+const USER_LABELS_FILE = "user-labels.json"
+
+function toEntity(raw: any, fallbackSource: string): AddressEntity | null {
+  if (!raw?.address || !raw?.name) return null
+
+  const category = ENTITY_CATEGORIES.includes(raw.category) ? raw.category : "other"
+  const confidence = Number(raw.confidence)
+
+  return {
+    address: String(raw.address).trim(),
+    name: String(raw.name).trim(),
+    category,
+    source: raw.source ? String(raw.source) : fallbackSource,
+    confidence: Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) : 0.5,
+  }
+}
+
+// Each dataset file is named <name>.v<version>.(json|csv). When a dataset has
+// several versions only the newest is loaded.
+function loadDatasets(dir: string): AddressEntity[] {
+  let files: string[]
+  try {
+    files = readdirSync(dir)
+  } catch (error) {
+    console.warn(`Entity data directory ${dir} not readable:`, error)
+    return []
+  }
+
+  const newest = new Map<string, { file: string; version: number }>()
+  for (const file of files) {
+    const match = file.match(/^(.+)\.v(\d+)\.(json|csv)$/)
+    if (!match) continue
+    const version = Number(match[2])
+    const current = newest.get(match[1])
+    if (!current || version > current.version) newest.set(match[1], { file, version })
+  }
+
+  const entities: AddressEntity[] = []
+  newest.forEach(({ file }, dataset) => {
+    try {
+      const content = readFileSync(path.join(dir, file), "utf8")
+      const records = file.endsWith(".json") ? JSON.parse(content).entities || [] : parseCsv(content)
+      for (const record of records) {
+        const entity = toEntity(record, dataset)
+        if (entity) entities.push(entity)
+      }
+    } catch (error) {
+      console.warn(`Failed to load entity dataset ${file}:`, error)
+    }
+  })
+
+  return entities
+}
+
+function loadUserLabels(): AddressEntity[] {
+  try {
+    const content = readFileSync(path.join(USER_DATA_DIR, USER_LABELS_FILE), "utf8")
+    return (JSON.parse(content) as any[]).map((raw) => toEntity(raw, "user")).filter((e): e is AddressEntity => !!e)
+  } catch (error: any) {
+    if (error?.code !== "ENOENT") console.warn("Failed to load user labels:", error)
+    return []
+  }
+}
+
+// Labels from the bundled datasets plus user-added ones. Where datasets
+// disagree the most confident label wins; user labels always win.
+class EntityRegistry {
+  private datasetEntities = new Map<string, AddressEntity>()
+  private userEntities = new Map<string, AddressEntity>()
+
+  constructor() {
+    for (const entity of loadDatasets(ENTITY_DATA_DIR)) {
+      const existing = this.datasetEntities.get(entity.address)
+      if (!existing || entity.confidence > existing.confidence) {
+        this.datasetEntities.set(entity.address, entity)
+      }
+    }
+
+    for (const entity of loadUserLabels()) {
+      this.userEntities.set(entity.address, entity)
+    }
+  }
+
+  getEntity(address: string): AddressEntity | null {
+    return this.userEntities.get(address) || this.datasetEntities.get(address) || null
+  }
+
+  getEntities(addresses: string[]): Record<string, AddressEntity> {
+    const entities: Record<string, AddressEntity> = {}
+    for (const address of addresses) {
+      const entity = this.getEntity(address)
+      if (entity) entities[address] = entity
+    }
+    return entities
+  }
+
+  getByCategory(category: EntityCategory): AddressEntity[] {
+    const merged = new Map([...Array.from(this.datasetEntities), ...Array.from(this.userEntities)])
+    return Array.from(merged.values()).filter((entity) => entity.category === category)
+  }
+
+  listUserLabels(): AddressEntity[] {
+    return Array.from(this.userEntities.values())
+  }
+
+  setUserLabel(label: { address: string; name: string; category?: EntityCategory }): AddressEntity {
+    const entity = toEntity({ ...label, source: "user", confidence: 1 }, "user")
+    if (!entity) throw new Error("Address and name are required")
+
+    this.userEntities.set(entity.address, entity)
+    this.saveUserLabels()
+    return entity
+  }
+
+  removeUserLabel(address: string): boolean {
+    const removed = this.userEntities.delete(address)
+    if (removed) this.saveUserLabels()
+    return removed
+  }
+
+  private saveUserLabels() {
+    mkdirSync(USER_DATA_DIR, { recursive: true })
+    writeFileSync(path.join(USER_DATA_DIR, USER_LABELS_FILE), JSON.stringify(this.listUserLabels(), null, 2))
+  }
+}
+
+let registry: EntityRegistry | null = null
+
+export function getEntityRegistry(): EntityRegistry {
+  if (!registry) {
+    registry = new EntityRegistry()
+  }
+  return registry
+}
+
+export function getEntity(address: string): AddressEntity | null {
+  return getEntityRegistry().getEntity(address)
+}
+
+export function getAddressLabel(address: string): string | undefined {
+  return getEntity(address)?.name
+}
+
+export function getEntityCategory(address: string): EntityCategory | null {
+  return getEntity(address)?.category || null
+}
@@ -0,0 +1,244 @@
+import { promises as fs } from "fs"
+import path from "path"
+import type {
+  AssetPage,
+  ChainDataProvider,
+  EnhancedTransaction,
+  MintTokenAccounts,
+  SignatureInfo,
+  SignatureQuery,
+  WalletBalances,
+} from "@/lib/chain-data-provider"
+
+// Fixtures live at <dir>/<method>/<key>.json where key is the address, mint
+// or signature the method was called with. Paging arguments are applied to the
+// recorded data at replay time, so one recording serves every page size.
+function fixturePath(dir: string, method: string, key: string) {
+  return path.join(dir, method, `${key}.json`)
+}
+
+async function readFixture<T>(dir: string, method: string, key: string): Promise<T | null> {
+  try {
+    const content = await fs.readFile(fixturePath(dir, method, key), "utf8")
+    return JSON.parse(content)
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return null
+    throw error
+  }
+}
+
+async function writeFixture(dir: string, method: string, key: string, value: any) {
+  await fs.mkdir(path.join(dir, method), { recursive: true })
+  await fs.writeFile(fixturePath(dir, method, key), JSON.stringify(value, null, 2))
+}
+
+// Merge a newly recorded page into an existing signature-ordered list
+function mergeBySignature<T extends { signature: string; slot: number }>(existing: T[] | null, page: T[]): T[] {
+  const merged = new Map<string, T>()
+  for (const item of [...(existing || []), ...page]) {
+    merged.set(item.signature, item)
+  }
+  return Array.from(merged.values()).sort((a, b) => b.slot - a.slot)
+}
+
+function applySignatureQuery<T extends { signature: string }>(signatures: T[], query: SignatureQuery = {}) {
+  let start = 0
+  if (query.before) {
+    const index = signatures.findIndex((sig) => sig.signature === query.before)
+    start = index === -1 ? signatures.length : index + 1
+  }
+
+  let end = signatures.length
+  if (query.until) {
+    const index = signatures.findIndex((sig) => sig.signature === query.until)
+    if (index !== -1) end = index
+  }
+
+  return signatures.slice(start, Math.max(start, end)).slice(0, query.limit || 1000)
+}
+
+// Replays responses previously written by RecordingProvider. Missing fixtures
+// behave like an account with no data rather than an error.
+export class FixtureProvider implements ChainDataProvider {
+  readonly name = "fixture"
+  private dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  // Whether a response was recorded at all, since a missing one reads as empty
+  async hasFixture(method: string, key: string): Promise<boolean> {
+    return (await readFixture(this.dir, method, key)) !== null
+  }
+
+  async getSignaturesForAddress(address: string, query?: SignatureQuery): Promise<SignatureInfo[]> {
+    const signatures = await readFixture<SignatureInfo[]>(this.dir, "getSignaturesForAddress", address)
+    return applySignatureQuery(signatures || [], query)
+  }
+
+  async getTransaction(signature: string) {
+    return readFixture(this.dir, "getTransaction", signature)
+  }
+
+  async getTransactions(signatures: string[]) {
+    return Promise.all(signatures.map((signature) => this.getTransaction(signature)))
+  }
+
+  async getTransactionHistory(address: string, query: SignatureQuery = {}): Promise<EnhancedTransaction[]> {
+    const transactions = await readFixture<EnhancedTransaction[]>(this.dir, "getTransactionHistory", address)
+    return applySignatureQuery(transactions || [], { ...query, limit: Math.min(query.limit || 50, 100) })
+  }
+
+  async parseTransactions(signatures: string[]): Promise<EnhancedTransaction[]> {
+    const transactions = await Promise.all(
+      signatures.map((signature) => readFixture<EnhancedTransaction>(this.dir, "parseTransactions", signature)),
+    )
+    return transactions.filter((tx): tx is EnhancedTransaction => tx !== null)
+  }
+
+  async getBalances(address: string): Promise<WalletBalances> {
+    return (await readFixture<WalletBalances>(this.dir, "getBalances", address)) || { nativeBalance: 0, tokens: [] }
+  }
+
+  async getTokenAccounts(address: string): Promise<any[]> {
+    return (await readFixture<any[]>(this.dir, "getTokenAccounts", address)) || []
+  }
+
+  async getAccountInfo(address: string) {
+    return readFixture(this.dir, "getAccountInfo", address)
+  }
+
+  async getTokenLargestAccounts(mintAddress: string): Promise<any[]> {
+    return (await readFixture<any[]>(this.dir, "getTokenLargestAccounts", mintAddress)) || []
+  }
+
+  async getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts> {
+    // Not recorded means not enumerated, rather than a mint with no holders
+    const recorded = await readFixture<MintTokenAccounts>(this.dir, "getMintTokenAccounts", mintAddress)
+    return recorded || { accounts: [], complete: false }
+  }
+
+  async getStakeAccounts(address: string): Promise<any[]> {
+    return (await readFixture<any[]>(this.dir, "getStakeAccounts", address)) || []
+  }
+
+  async getAssetsByOwner(address: string, page = 1, limit = 20): Promise<AssetPage> {
+    const assets = await readFixture<AssetPage>(this.dir, "getAssetsByOwner", address)
+    const items = assets?.items || []
+    return { total: items.length, limit, page, items: items.slice((page - 1) * limit, page * limit) }
+  }
+
+  async getTokenMetadata(mintAddress: string) {
+    return readFixture(this.dir, "getTokenMetadata", mintAddress)
+  }
+}
+
+// Wraps a live provider and writes every response to disk in the layout
+// FixtureProvider reads.
+export class RecordingProvider implements ChainDataProvider {
+  readonly name: string
+  private provider: ChainDataProvider
+  private dir: string
+
+  constructor(provider: ChainDataProvider, dir: string) {
+    this.name = provider.name
+    this.provider = provider
+    this.dir = dir
+  }
+
+  private async record(method: string, key: string, value: any) {
+    try {
+      await writeFixture(this.dir, method, key, value)
+    } catch (error) {
+      console.warn(`Failed to record ${method} fixture for ${key}:`, error)
+    }
+  }
+
+  async getSignaturesForAddress(address: string, query?: SignatureQuery): Promise<SignatureInfo[]> {
+    const signatures = await this.provider.getSignaturesForAddress(address, query)
+    const existing = await readFixture<SignatureInfo[]>(this.dir, "getSignaturesForAddress", address)
+    await this.record("getSignaturesForAddress", address, mergeBySignature(existing, signatures))
+    return signatures
+  }
+
+  async getTransaction(signature: string) {
+    const tx = await this.provider.getTransaction(signature)
+    if (tx) await this.record("getTransaction", signature, tx)
+    return tx
+  }
+
+  async getTransactions(signatures: string[]) {
+    const transactions = await this.provider.getTransactions(signatures)
+    await Promise.all(
+      transactions.map((tx, index) => (tx ? this.record("getTransaction", signatures[index], tx) : null)),
+    )
+    return transactions
+  }
+
+  async getTransactionHistory(address: string, query?: SignatureQuery): Promise<EnhancedTransaction[]> {
+    const transactions = await this.provider.getTransactionHistory(address, query)
+    const existing = await readFixture<EnhancedTransaction[]>(this.dir, "getTransactionHistory", address)
+    await this.record("getTransactionHistory", address, mergeBySignature(existing, transactions))
+    return transactions
+  }
+
+  async parseTransactions(signatures: string[]): Promise<EnhancedTransaction[]> {
+    const transactions = await this.provider.parseTransactions(signatures)
+    await Promise.all(transactions.map((tx) => this.record("parseTransactions", tx.signature, tx)))
+    return transactions
+  }
+
+  async getBalances(address: string): Promise<WalletBalances> {
+    const balances = await this.provider.getBalances(address)
+    await this.record("getBalances", address, balances)
+    return balances
+  }
+
+  async getTokenAccounts(address: string): Promise<any[]> {
+    const accounts = await this.provider.getTokenAccounts(address)
+    await this.record("getTokenAccounts", address, accounts)
+    return accounts
+  }
+
+  async getAccountInfo(address: string) {
+    const account = await this.provider.getAccountInfo(address)
+    if (account) await this.record("getAccountInfo", address, account)
+    return account
+  }
+
+  async getTokenLargestAccounts(mintAddress: string): Promise<any[]> {
+    const accounts = await this.provider.getTokenLargestAccounts(mintAddress)
+    await this.record("getTokenLargestAccounts", mintAddress, accounts)
+    return accounts
+  }
+
+  async getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts> {
+    const accounts = await this.provider.getMintTokenAccounts(mintAddress)
+    await this.record("getMintTokenAccounts", mintAddress, accounts)
+    return accounts
+  }
+
+  async getStakeAccounts(address: string): Promise<any[]> {
+    const accounts = await this.provider.getStakeAccounts(address)
+    await this.record("getStakeAccounts", address, accounts)
+    return accounts
+  }
+
+  async getAssetsByOwner(address: string, page?: number, limit?: number): Promise<AssetPage> {
+    const assets = await this.provider.getAssetsByOwner(address, page, limit)
+    const existing = await readFixture<AssetPage>(this.dir, "getAssetsByOwner", address)
+    const items = new Map<string, any>()
+    for (const item of [...(existing?.items || []), ...(assets?.items || [])]) {
+      items.set(item.id, item)
+    }
+    await this.record("getAssetsByOwner", address, { ...assets, items: Array.from(items.values()) })
+    return assets
+  }
+
+  async getTokenMetadata(mintAddress: string) {
+    const metadata = await this.provider.getTokenMetadata(mintAddress)
+    if (metadata) await this.record("getTokenMetadata", mintAddress, metadata)
+    return metadata
+  }
+}
@@ -0,0 +1,180 @@
+import { randomUUID } from "crypto"
+import { parseCsv } from "@/lib/csv"
+import { JsonStore } from "@/lib/json-store"
+import { isValidAddress } from "@/lib/solana"
+
+// "scam" holds wallets to flag as counterparties, "blacklist" holds programs
+export type FlagListName = "scam" | "blacklist"
+
+export const FLAG_LISTS: FlagListName[] = ["scam", "blacklist"]
+
+export interface FlagEntry {
+  id: string
+  address: string
+  list: FlagListName
+  reason: string
+  evidenceUrl: string | null
+  addedBy: string
+  addedAt: string
+  // ISO timestamp after which the entry no longer applies
+  expiresAt: string | null
+}
+
+export type FlagEntryInput = Pick<FlagEntry, "address" | "list" | "reason" | "addedBy"> &
+  Partial<Pick<FlagEntry, "evidenceUrl" | "expiresAt">>
+
+export class FlagListError extends Error {}
+
+const store = new JsonStore<{ entries: FlagEntry[] }>("flag-lists.json", () => ({ entries: [] }))
+
+async function readEntries(): Promise<FlagEntry[]> {
+  return (await store.read()).entries
+}
+
+function updateEntries<T>(update: (entries: FlagEntry[]) => { entries: FlagEntry[]; result: T }): Promise<T> {
+  return store.update(({ entries }) => {
+    const { entries: updated, result } = update(entries)
+    return { data: { entries: updated }, result }
+  })
+}
+
+function normalizeDate(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === "") return null
+  const date = new Date(String(value))
+  if (Number.isNaN(date.getTime())) throw new FlagListError(`Invalid ${field}: ${value}`)
+  return date.toISOString()
+}
+
+function validateEntry(input: any): Omit<FlagEntry, "id" | "addedAt"> {
+  const address = typeof input?.address === "string" ? input.address.trim() : ""
+  if (!isValidAddress(address)) throw new FlagListError(`Invalid address: ${input?.address}`)
+
+  if (!FLAG_LISTS.includes(input.list)) throw new FlagListError(`Unknown list: ${input.list}`)
+
+  const reason = typeof input.reason === "string" ? input.reason.trim() : ""
+  if (!reason) throw new FlagListError(`A reason is required for ${address}`)
+
+  const addedBy = typeof input.addedBy === "string" ? input.addedBy.trim() : ""
+  if (!addedBy) throw new FlagListError(`addedBy is required for ${address}`)
+
+  const evidenceUrl = input.evidenceUrl ? String(input.evidenceUrl).trim() : null
+  if (evidenceUrl && !/^https?:\/\//.test(evidenceUrl)) {
+    throw new FlagListError(`Evidence must be an http(s) link: ${evidenceUrl}`)
+  }
+
+  return {
+    address,
+    list: input.list,
+    reason,
+    evidenceUrl,
+    addedBy,
+    expiresAt: normalizeDate(input.expiresAt, "expiry date"),
+  }
+}
+
+export function isExpired(entry: FlagEntry, now = Date.now()) {
+  return entry.expiresAt !== null && new Date(entry.expiresAt).getTime() <= now
+}
+
+export async function listFlagEntries(options: { list?: FlagListName; includeExpired?: boolean } = {}) {
+  const entries = await readEntries()
+  return entries.filter(
+    (entry) => (!options.list || entry.list === options.list) && (options.includeExpired || !isExpired(entry)),
+  )
+}
+
+// Entries that were in force at a given time (ms): added by then and not yet expired
+async function listEntriesActiveAt(at: number) {
+  const entries = await readEntries()
+  return entries.filter((entry) => new Date(entry.addedAt).getTime() <= at && !isExpired(entry, at))
+}
+
+// Adds entries. Re-adding an address already in force on a list updates that
+// entry in place and keeps its id and addedAt, so point-in-time lookups still
+// see it as flagged from when it was first added. An expired entry is left as
+// it was and a new one is added alongside it.
+export async function addFlagEntries(inputs: FlagEntryInput[]): Promise<FlagEntry[]> {
+  const now = new Date().toISOString()
+  const validated = inputs.map(validateEntry)
+
+  return updateEntries((entries) => {
+    const current = new Map<string, FlagEntry>()
+    entries.forEach((entry) => {
+      if (!isExpired(entry)) current.set(`${entry.list}:${entry.address}`, entry)
+    })
+
+    validated.forEach((input) => {
+      const key = `${input.list}:${input.address}`
+      const existing = current.get(key)
+      current.set(
+        key,
+        existing
+          ? { ...input, id: existing.id, addedAt: existing.addedAt }
+          : { ...input, id: randomUUID(), addedAt: now },
+      )
+    })
+
+    const byId = new Map<string, FlagEntry>()
+    current.forEach((entry) => byId.set(entry.id, entry))
+    const stored = new Set(entries.map((entry) => entry.id))
+    const added = Array.from(byId.values()).filter((entry) => !stored.has(entry.id))
+
+    return {
+      entries: [...entries.map((entry) => byId.get(entry.id) || entry), ...added],
+      result: validated.map((input) => current.get(`${input.list}:${input.address}`) as FlagEntry),
+    }
+  })
+}
+
+export async function updateFlagEntry(
+  id: string,
+  changes: Partial<Pick<FlagEntry, "reason" | "evidenceUrl" | "expiresAt">>,
+): Promise<FlagEntry | null> {
+  return updateEntries((entries) => {
+    const existing = entries.find((entry) => entry.id === id)
+    if (!existing) return { entries, result: null }
+
+    // Fields left undefined keep their current value; null clears them
+    const merged: any = { ...existing }
+    const fields = Object.keys(changes) as (keyof typeof changes)[]
+    fields.forEach((field) => {
+      if (changes[field] !== undefined) merged[field] = changes[field]
+    })
+
+    const updated = { ...existing, ...validateEntry(merged) }
+    return { entries: entries.map((entry) => (entry.id === id ? updated : entry)), result: updated }
+  })
+}
+
+export async function removeFlagEntry(id: string): Promise<boolean> {
+  return updateEntries((entries) => {
+    const remaining = entries.filter((entry) => entry.id !== id)
+    return { entries: remaining, result: remaining.length !== entries.length }
+  })
+}
+
+// CSV columns: address,list,reason,evidenceUrl,expiresAt. addedBy applies to
+// every row unless the file has its own addedBy column.
+export function parseFlagEntriesCsv(content: string, addedBy: string): FlagEntryInput[] {
+  return parseCsv(content).map((row) => ({
+    address: row.address,
+    list: row.list as FlagListName,
+    reason: row.reason,
+    evidenceUrl: row.evidenceUrl || row.evidence || null,
+    addedBy: row.addedBy || addedBy,
+    expiresAt: row.expiresAt || null,
+  }))
+}
+
+// Active entries as lookup sets, read fresh so edits apply to the next request.
+// Pass a past time (ms) to get the lists as they stood then; removed entries
+// cannot be recovered.
+export async function getActiveFlagSets(at = Date.now()) {
+  const entries = await listEntriesActiveAt(at)
+  return {
+    scamAddresses: new Set(entries.filter((entry) => entry.list === "scam").map((entry) => entry.address)),
+    blacklistedPrograms: new Set(entries.filter((entry) => entry.list === "blacklist").map((entry) => entry.address)),
+  }
+}
+
+export type FlagSets = Awaited<ReturnType<typeof getActiveFlagSets>>
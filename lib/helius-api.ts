@@ -1,48 +1,53 @@
-const HELIUS_API_KEY = "2a3ff752-d3ef-4b7c-a44a-159dfe9538b6"
-const HELIUS_BASE_URL = "https://api.helius.xyz/v0"
-const HELIUS_RPC_URL = `https://mainnet.helius-rpc.com/?api-key=${HELIUS_API_KEY}`
-
-export interface HeliusTransaction {
-  signature: string
-  slot: number
-  timestamp: number
-  fee: number
-  feePayer: string
-  instructions: any[]
-  events: any[]
-  nativeTransfers: any[]
-  tokenTransfers: any[]
-}
-
-export interface HeliusBalance {
-  mint: string
-  amount: number
-  decimals: number
-  tokenAccount: string
-}
-
-export class HeliusAPI {
+import type {
+  AssetPage,
+  EnhancedTransaction,
+  MintTokenAccount,
+  MintTokenAccounts,
+  SignatureQuery,
+  TokenBalance,
+  WalletBalances,
+} from "@/lib/chain-data-provider"
+import { HELIUS_API_KEY, HELIUS_BASE_URL, HELIUS_RPC_URL } from "@/lib/config"
+import { isValidAddress } from "@/lib/solana"
+import { SolanaRpcProvider } from "@/lib/solana-rpc"
+
+export type HeliusTransaction = EnhancedTransaction
+export type HeliusBalance = TokenBalance
+
+// DAS token accounts are paged; pages beyond this are not fetched
+const TOKEN_ACCOUNTS_PAGE_SIZE = 1000
+const MAX_TOKEN_ACCOUNT_PAGES = 20
+
+// Helius provider: standard JSON-RPC through the Helius RPC endpoint, plus the
+// enhanced transactions, balances, DAS and token metadata REST APIs.
+export class HeliusAPI extends SolanaRpcProvider {
+  readonly name: string = "helius"
   private apiKey: string
   private baseUrl: string
 
-  constructor() {
-    this.apiKey = HELIUS_API_KEY
-    this.baseUrl = HELIUS_BASE_URL
+  constructor(apiKey = HELIUS_API_KEY, baseUrl = HELIUS_BASE_URL, rpcUrl = HELIUS_RPC_URL) {
+    super(rpcUrl)
+    this.apiKey = apiKey
+    this.baseUrl = baseUrl
   }
 
-  async getTransactionHistory(address: string, limit = 50): Promise<HeliusTransaction[]> {
+  async getTransactionHistory(address: string, query: SignatureQuery = {}): Promise<HeliusTransaction[]> {
     // Validate wallet address format
-    if (!address || address.trim() === "" || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+    if (!isValidAddress(address)) {
       throw new Error("Invalid wallet address format")
     }
 
     // Ensure limit is within valid range (1-100 for Helius)
-    const validLimit = Math.min(Math.max(1, Math.floor(limit)), 100)
+    const validLimit = Math.min(Math.max(1, Math.floor(query.limit || 50)), 100)
 
     console.log(`Fetching transaction history for ${address} with limit ${validLimit}`)
 
+    const params = new URLSearchParams({ limit: String(validLimit), "api-key": this.apiKey })
+    if (query.before) params.set("before", query.before)
+    if (query.until) params.set("until", query.until)
+
     const response = await fetch(
-      `${this.baseUrl}/addresses/${address}/transactions?limit=${validLimit}&api-key=${this.apiKey}`,
+      `${this.baseUrl}/addresses/${address}/transactions?${params.toString()}`,
       {
         headers: {
           Accept: "application/json",
@@ -80,56 +85,49 @@ export class HeliusAPI {
     return await response.json()
   }
 
-  async getTokenBalances(address: string): Promise<HeliusBalance[]> {
+  async getAssetsByOwner(address: string, page = 1, limit = 20): Promise<AssetPage> {
     // Validate wallet address format
-    if (!address || address.trim() === "" || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+    if (!isValidAddress(address)) {
       throw new Error("Invalid wallet address format")
     }
 
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getTokenAccountsByOwner",
-        params: [address, { programId: "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA" }, { encoding: "jsonParsed" }],
-      }),
+    return this.rpc("getAssetsByOwner", {
+      ownerAddress: address,
+      page: page,
+      limit: limit,
     })
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`API Error (${response.status}): ${errorText}`)
+  async getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts> {
+    if (!isValidAddress(mintAddress)) {
+      throw new Error("Invalid mint address format")
     }
 
-    const data = await response.json()
-
-    if (data.error) {
-      throw new Error(`RPC Error: ${data.error.message}`)
+    const accounts: MintTokenAccount[] = []
+    for (let page = 1; page <= MAX_TOKEN_ACCOUNT_PAGES; page++) {
+      const result = await this.rpc("getTokenAccounts", { mint: mintAddress, page, limit: TOKEN_ACCOUNTS_PAGE_SIZE })
+      const items: any[] = result?.token_accounts || []
+      items.forEach((item) => {
+        const amount = Number(item.amount) || 0
+        if (amount > 0) accounts.push({ address: item.address, owner: item.owner, amount })
+      })
+      if (items.length < TOKEN_ACCOUNTS_PAGE_SIZE) return { accounts, complete: true }
     }
 
-    return data.result?.value || []
+    return { accounts, complete: false }
   }
 
-  async getAccountInfo(address: string) {
+  async getBalances(address: string): Promise<WalletBalances> {
     // Validate wallet address format
-    if (!address || address.trim() === "" || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
+    if (!isValidAddress(address)) {
       throw new Error("Invalid wallet address format")
     }
 
-    const response = await fetch(HELIUS_RPC_URL, {
-      method: "POST",
+    const response = await fetch(`${this.baseUrl}/addresses/${address}/balances?api-key=${this.apiKey}`, {
       headers: {
+        Accept: "application/json",
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "getAccountInfo",
-        params: [address, { encoding: "jsonParsed" }],
-      }),
     })
 
     if (!response.ok) {
@@ -137,36 +135,16 @@ export class HeliusAPI {
       throw new Error(`API Error (${response.status}): ${errorText}`)
     }
 
-    const data = await response.json()
-
-    if (data.error) {
-      throw new Error(`RPC Error: ${data.error.message}`)
-    }
-
-    return data
+    return await response.json()
   }
 
-  async getAssetsByOwner(address: string, page = 1, limit = 20) {
-    // Validate wallet address format
-    if (!address || address.trim() === "" || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
-      throw new Error("Invalid wallet address format")
-    }
-
-    const response = await fetch(HELIUS_RPC_URL, {
+  async getTokenMetadata(mintAddress: string) {
+    const response = await fetch(`${this.baseUrl}/token-metadata?api-key=${this.apiKey}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: "1",
-        method: "getAssetsByOwner",
-        params: {
-          ownerAddress: address,
-          page: page,
-          limit: limit,
-        },
-      }),
+      body: JSON.stringify({ mintAccounts: [mintAddress] }),
     })
 
     if (!response.ok) {
@@ -176,33 +154,6 @@ export class HeliusAPI {
 
     const data = await response.json()
 
-    if (data.error) {
-      throw new Error(`RPC Error: ${data.error.message}`)
-    }
-
-    return data.result
-  }
-
-  async getBalances(address: string) {
-    // Validate wallet address format
-    if (!address || address.trim() === "" || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address)) {
-      throw new Error("Invalid wallet address format")
-    }
-
-    const response = await fetch(`${this.baseUrl}/addresses/${address}/balances?api-key=${this.apiKey}`, {
-      headers: {
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`API Error (${response.status}): ${errorText}`)
-    }
-
-    return await response.json()
+    return data[0] || null
   }
 }
-
-export const heliusAPI = new HeliusAPI()
@@ -0,0 +1,212 @@
+import type { ChainDataProvider, MintTokenAccount } from "@/lib/chain-data-provider"
+import { getEntity } from "@/lib/entity-registry"
+import { findFirstFunding, getOldestHistory } from "@/lib/transaction-history"
+import type { TokenInfo } from "@/lib/token-info"
+
+export type HolderKind = "lp-vault" | "exchange" | "burn" | "deployer" | "deployer-funded" | "known" | "wallet"
+
+export interface TokenHolder {
+  owner: string
+  tokenAccounts: string[]
+  // Whole tokens
+  amount: number
+  // Share of total supply
+  share: number
+  kind: HolderKind
+  label: string | null
+}
+
+export interface HolderDistribution {
+  mintAddress: string
+  // Whole tokens
+  supply: number
+  deployer: string | null
+  // The largest holders, grouped by owner, largest first
+  holders: TokenHolder[]
+  // Owners and token accounts the measures below are computed over
+  holderCount: number
+  accountsAnalyzed: number
+  // True when the provider could not list every token account, so only the
+  // 20 largest were read and the measures cover just those
+  partial: boolean
+  // Concentration among holders that can sell: pools and burns left out
+  top10Share: number
+  top50Share: number
+  gini: number
+  // Held by the deployer and by wallets it funded
+  deployerLinkedShare: number
+  liquidityPoolShare: number
+  burnedShare: number
+}
+
+// Token accounts owned by these can never move again
+const BURN_ADDRESSES = ["1nc1nerator11111111111111111111111111111111"]
+
+// AMM and launchpad programs whose accounts own pool vaults
+const LIQUIDITY_PROGRAMS: Record<string, string> = {
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8": "Raydium AMM v4",
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: "Raydium CLMM",
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: "Raydium CPMM",
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: "Orca Whirlpool",
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: "Meteora DLMM",
+  Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB: "Meteora Pools",
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P": "Pump.fun bonding curve",
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: "PumpSwap",
+}
+
+// Pool vault owners that are plain accounts rather than program accounts
+const LIQUIDITY_AUTHORITIES: Record<string, string> = {
+  "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": "Raydium AMM v4",
+}
+
+// Oldest transactions read to find who funded a holder, and signature pages
+// walked to reach them. Holders with longer histories, such as market-making
+// bots, are not traced.
+const FUNDING_TRANSACTIONS = 5
+const FUNDING_SIGNATURE_PAGES = 2
+// Holders looked up one by one and returned; smaller ones are only checked
+// against known addresses
+const LISTED_HOLDERS = 50
+
+// 0 when every holder has the same amount, approaching 1 when one holds all
+export function giniCoefficient(amounts: number[]) {
+  const sorted = amounts.filter((amount) => amount > 0).sort((a, b) => a - b)
+  const total = sorted.reduce((sum, amount) => sum + amount, 0)
+  if (sorted.length < 2 || total === 0) return 0
+
+  const weighted = sorted.reduce((sum, amount, index) => sum + (index + 1) * amount, 0)
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length
+}
+
+async function resolveOwner(provider: ChainDataProvider, tokenAccount: string): Promise<string | null> {
+  try {
+    const account = await provider.getAccountInfo(tokenAccount)
+    return account?.data?.parsed?.info?.owner || null
+  } catch (error) {
+    console.warn(`Failed to resolve owner of ${tokenAccount}:`, error)
+    return null
+  }
+}
+
+// Every token account of the mint when the provider can list them, else the
+// 20 largest with their owners looked up
+async function loadTokenAccounts(
+  provider: ChainDataProvider,
+  mintAddress: string,
+): Promise<{ accounts: MintTokenAccount[]; partial: boolean }> {
+  const listed = await provider.getMintTokenAccounts(mintAddress).catch((error) => {
+    console.warn(`Failed to list token accounts of ${mintAddress}:`, error)
+    return null
+  })
+  if (listed?.complete && listed.accounts.length > 0) return { accounts: listed.accounts, partial: false }
+
+  const largest = await provider.getTokenLargestAccounts(mintAddress)
+  const owners = await Promise.all(largest.map((account) => resolveOwner(provider, account.address)))
+  const accounts: MintTokenAccount[] = []
+  largest.forEach((account, index) => {
+    const owner = owners[index]
+    if (owner) accounts.push({ address: account.address, owner, amount: Number(account.amount) || 0 })
+  })
+  return { accounts, partial: true }
+}
+
+// What the holder's address alone says about it
+function classifyByAddress(owner: string, deployer: string | null): Pick<TokenHolder, "kind" | "label"> | null {
+  if (BURN_ADDRESSES.includes(owner)) return { kind: "burn", label: "Burn address" }
+  if (owner === deployer) return { kind: "deployer", label: "Deployer" }
+  if (LIQUIDITY_AUTHORITIES[owner]) return { kind: "lp-vault", label: `${LIQUIDITY_AUTHORITIES[owner]} pool` }
+
+  const entity = getEntity(owner)
+  if (entity?.category === "exchange") return { kind: "exchange", label: entity.name }
+  return null
+}
+
+async function classifyHolder(
+  provider: ChainDataProvider,
+  owner: string,
+  deployer: string | null,
+): Promise<Pick<TokenHolder, "kind" | "label">> {
+  const byAddress = classifyByAddress(owner, deployer)
+  if (byAddress) return byAddress
+
+  const entity = getEntity(owner)
+
+  try {
+    // Pool vaults are owned by a pool account of the AMM program
+    const account = await provider.getAccountInfo(owner)
+    const program = LIQUIDITY_PROGRAMS[account?.owner]
+    if (program) return { kind: "lp-vault", label: `${program} pool` }
+  } catch (error) {
+    console.warn(`Failed to look up holder ${owner}:`, error)
+  }
+
+  if (entity) return { kind: "known", label: entity.name }
+
+  if (deployer) {
+    try {
+      const oldest = await getOldestHistory(provider, owner, FUNDING_TRANSACTIONS, FUNDING_SIGNATURE_PAGES)
+      const funding = oldest.complete ? findFirstFunding(oldest.transactions, owner) : null
+      if (funding?.funder === deployer) return { kind: "deployer-funded", label: "Funded by deployer" }
+    } catch (error) {
+      console.warn(`Failed to trace funding of ${owner}:`, error)
+    }
+  }
+
+  return { kind: "wallet", label: null }
+}
+
+// Holders of a mint by owner, the largest labeled as pools, exchanges, burns
+// or the deployer and its funded wallets, with concentration measures
+export async function getHolderDistribution(
+  provider: ChainDataProvider,
+  tokenInfo: TokenInfo,
+): Promise<HolderDistribution> {
+  const scale = Math.pow(10, tokenInfo.decimals)
+  const supply = Number(tokenInfo.supply) / scale
+  const { accounts, partial } = await loadTokenAccounts(provider, tokenInfo.mintAddress)
+
+  const byOwner = new Map<string, { tokenAccounts: string[]; amount: number }>()
+  accounts.forEach((account) => {
+    const holding = byOwner.get(account.owner) || { tokenAccounts: [], amount: 0 }
+    holding.tokenAccounts.push(account.address)
+    holding.amount += account.amount / scale
+    byOwner.set(account.owner, holding)
+  })
+
+  const ranked = Array.from(byOwner.keys()).sort(
+    (a, b) => (byOwner.get(b)?.amount || 0) - (byOwner.get(a)?.amount || 0),
+  )
+  const share = (amount: number) => (supply > 0 ? Math.min(amount / supply, 1) : 0)
+
+  const all: TokenHolder[] = await Promise.all(
+    ranked.map(async (owner, rank) => {
+      const holding = byOwner.get(owner) as { tokenAccounts: string[]; amount: number }
+      const classified =
+        rank < LISTED_HOLDERS
+          ? await classifyHolder(provider, owner, tokenInfo.deployer)
+          : classifyByAddress(owner, tokenInfo.deployer) || { kind: "wallet" as HolderKind, label: null }
+      return { owner, ...holding, share: share(holding.amount), ...classified }
+    }),
+  )
+
+  const shareOf = (kinds: HolderKind[]) =>
+    all.filter((holder) => kinds.includes(holder.kind)).reduce((total, holder) => total + holder.share, 0)
+  const circulating = all.filter((holder) => holder.kind !== "lp-vault" && holder.kind !== "burn")
+  const topShare = (count: number) => circulating.slice(0, count).reduce((total, holder) => total + holder.share, 0)
+
+  return {
+    mintAddress: tokenInfo.mintAddress,
+    supply,
+    deployer: tokenInfo.deployer,
+    holders: all.slice(0, LISTED_HOLDERS),
+    holderCount: all.length,
+    accountsAnalyzed: accounts.length,
+    partial,
+    top10Share: topShare(10),
+    top50Share: topShare(50),
+    gini: giniCoefficient(circulating.map((holder) => holder.amount)),
+    deployerLinkedShare: shareOf(["deployer", "deployer-funded"]),
+    liquidityPoolShare: shareOf(["lp-vault"]),
+    burnedShare: shareOf(["burn"]),
+  }
+}
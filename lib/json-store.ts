@@ -0,0 +1,40 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { USER_DATA_DIR } from "@/lib/config"
+
+// A JSON document under USER_DATA_DIR. Updates go through one queue so
+// concurrent requests cannot overwrite each other's changes.
+export class JsonStore<T> {
+  private file: string
+  private empty: () => T
+  private pendingWrite: Promise<unknown> = Promise.resolve()
+
+  constructor(fileName: string, empty: () => T) {
+    this.file = fileName
+    this.empty = empty
+  }
+
+  private filePath() {
+    return path.join(USER_DATA_DIR, this.file)
+  }
+
+  async read(): Promise<T> {
+    try {
+      return { ...this.empty(), ...JSON.parse(await fs.readFile(this.filePath(), "utf8")) }
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return this.empty()
+      throw error
+    }
+  }
+
+  update<R>(update: (data: T) => { data: T; result: R }): Promise<R> {
+    const run = this.pendingWrite.then(async () => {
+      const { data, result } = update(await this.read())
+      await fs.mkdir(USER_DATA_DIR, { recursive: true })
+      await fs.writeFile(this.filePath(), JSON.stringify(data, null, 2))
+      return result
+    })
+    this.pendingWrite = run.catch(() => undefined)
+    return run
+  }
+}
@@ -0,0 +1,44 @@
+import type { AddressEntity, EntityCategory } from "@/lib/entities"
+import { apiHeaders } from "@/lib/write-token"
+
+// Browser-side client for the /api/labels routes
+export class LabelsAPI {
+  private async request(path: string, init?: RequestInit) {
+    const response = await fetch(path, {
+      ...init,
+      headers: apiHeaders(init?.headers),
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null)
+      throw new Error(errorBody?.error || `API Error (${response.status})`)
+    }
+
+    return await response.json()
+  }
+
+  async lookup(addresses: string[]): Promise<Record<string, AddressEntity>> {
+    if (addresses.length === 0) return {}
+    const data = await this.request("/api/labels/lookup", { method: "POST", body: JSON.stringify({ addresses }) })
+    return data.entities
+  }
+
+  async listUserLabels(): Promise<AddressEntity[]> {
+    const data = await this.request("/api/labels")
+    return data.labels
+  }
+
+  async setUserLabel(address: string, name: string, category: EntityCategory = "other"): Promise<AddressEntity> {
+    const data = await this.request("/api/labels", {
+      method: "POST",
+      body: JSON.stringify({ address, name, category }),
+    })
+    return data.label
+  }
+
+  async removeUserLabel(address: string) {
+    return this.request(`/api/labels?address=${address}`, { method: "DELETE" })
+  }
+}
+
+export const labelsAPI = new LabelsAPI()
@@ -0,0 +1,52 @@
+import type { FlagEntry, FlagEntryInput, FlagListName } from "@/lib/flag-lists"
+import { apiHeaders } from "@/lib/write-token"
+
+// Browser-side client for the /api/lists routes
+export class ListsAPI {
+  private async request(path: string, init?: RequestInit) {
+    const response = await fetch(path, {
+      ...init,
+      headers: apiHeaders(init?.headers),
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null)
+      throw new Error(errorBody?.error || `API Error (${response.status})`)
+    }
+
+    return await response.json()
+  }
+
+  async getEntries(list?: FlagListName, includeExpired = false): Promise<FlagEntry[]> {
+    const params = new URLSearchParams()
+    if (list) params.set("list", list)
+    if (includeExpired) params.set("includeExpired", "true")
+
+    const data = await this.request(`/api/lists?${params.toString()}`)
+    return data.entries
+  }
+
+  async addEntry(entry: FlagEntryInput): Promise<FlagEntry> {
+    const data = await this.request("/api/lists", { method: "POST", body: JSON.stringify(entry) })
+    return data.entries[0]
+  }
+
+  async importCsv(csv: string, addedBy: string): Promise<FlagEntry[]> {
+    const data = await this.request("/api/lists", { method: "POST", body: JSON.stringify({ csv, addedBy }) })
+    return data.entries
+  }
+
+  async updateEntry(
+    id: string,
+    changes: Partial<Pick<FlagEntry, "reason" | "evidenceUrl" | "expiresAt">>,
+  ): Promise<FlagEntry> {
+    const data = await this.request(`/api/lists/${id}`, { method: "PATCH", body: JSON.stringify(changes) })
+    return data.entry
+  }
+
+  async removeEntry(id: string) {
+    return this.request(`/api/lists/${id}`, { method: "DELETE" })
+  }
+}
+
+export const listsAPI = new ListsAPI()
@@ -0,0 +1,179 @@
+// Address poisoning look-alike detection. Pure and free of server imports, so
+// the history list and graph can run it on the transactions they already have.
+
+export interface Lookalike {
+  address: string
+  // The real counterparty it imitates
+  imitates: string
+  // Leading and trailing characters the two addresses share
+  prefix: number
+  suffix: number
+}
+
+export interface PoisoningAttempt {
+  signature: string
+  timestamp: number
+  from: string
+  imitates: string
+  asset: string
+  amount: number
+  zeroValue: boolean
+}
+
+export interface PoisoningReport {
+  // Counterparties the wallet really deals with, most frequent first
+  frequentCounterparties: string[]
+  lookalikes: Lookalike[]
+  // Zero-value and dust transfers received from look-alikes
+  attempts: PoisoningAttempt[]
+  // Transfers the wallet then sent to a look-alike: the poisoning worked
+  payments: PoisoningAttempt[]
+}
+
+// Characters an address must share at each end with a counterparty. Wallets
+// show the first 4-6 and last 4, and poisoners grind vanity addresses to match.
+const LOOKALIKE_MIN_PREFIX = 3
+const LOOKALIKE_MIN_SUFFIX = 3
+// Transfers at or below these are dust
+export const DUST_LAMPORTS = 100000
+export const DUST_TOKEN_AMOUNT = 0.001
+// Non-dust transfers that make a counterparty a frequent one; anyone the
+// wallet has paid counts as well, since that is whose address gets copied
+const FREQUENT_MIN_TRANSFERS = 2
+const MAX_FREQUENT_COUNTERPARTIES = 50
+
+export function addressSimilarity(address: string, other: string) {
+  let prefix = 0
+  while (prefix < address.length && address[prefix] === other[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < address.length - prefix &&
+    address[address.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  return { prefix, suffix }
+}
+
+export function isLookalike(address: string, other: string) {
+  if (address === other) return false
+  const { prefix, suffix } = addressSimilarity(address, other)
+  return prefix >= LOOKALIKE_MIN_PREFIX && suffix >= LOOKALIKE_MIN_SUFFIX
+}
+
+interface WalletTransfer {
+  signature: string
+  timestamp: number
+  from: string
+  to: string
+  asset: string
+  amount: number
+  dust: boolean
+}
+
+// Native and token transfers touching the wallet, oldest first
+function walletTransfers(transactions: any[], walletAddress: string): WalletTransfer[] {
+  const transfers: WalletTransfer[] = []
+  const ordered = [...transactions].sort((a, b) => a.timestamp - b.timestamp || a.slot - b.slot)
+  ordered.forEach((tx) => {
+    if (tx.transactionError) return
+    const native: any[] = tx.nativeTransfers || []
+    const token: any[] = tx.tokenTransfers || []
+    native.forEach((transfer) =>
+      transfers.push({
+        signature: tx.signature,
+        timestamp: tx.timestamp,
+        from: transfer.fromUserAccount,
+        to: transfer.toUserAccount,
+        asset: "SOL",
+        amount: (transfer.amount || 0) / 1e9,
+        dust: (transfer.amount || 0) <= DUST_LAMPORTS,
+      }),
+    )
+    token.forEach((transfer) =>
+      transfers.push({
+        signature: tx.signature,
+        timestamp: tx.timestamp,
+        from: transfer.fromUserAccount,
+        to: transfer.toUserAccount,
+        asset: transfer.symbol || transfer.mint,
+        amount: Number(transfer.tokenAmount) || 0,
+        dust: (Number(transfer.tokenAmount) || 0) <= DUST_TOKEN_AMOUNT,
+      }),
+    )
+  })
+  return transfers.filter(
+    (transfer) =>
+      transfer.from &&
+      transfer.to &&
+      transfer.from !== transfer.to &&
+      (transfer.from === walletAddress || transfer.to === walletAddress),
+  )
+}
+
+// Compares every counterparty against the wallet's frequent ones by shared
+// prefix and suffix. Of two look-alike counterparties the one the wallet deals
+// with more, or dealt with first, is taken as real.
+export function detectPoisoning(transactions: any[], walletAddress: string): PoisoningReport {
+  const transfers = walletTransfers(transactions, walletAddress)
+
+  const counts = new Map<string, number>()
+  // Order of first non-dust transfer, which breaks ties between look-alikes
+  const firstSeen = new Map<string, number>()
+  const paid = new Set<string>()
+  const counterparties = new Set<string>()
+  transfers.forEach((transfer) => {
+    const counterparty = transfer.from === walletAddress ? transfer.to : transfer.from
+    counterparties.add(counterparty)
+    if (transfer.dust) return
+    counts.set(counterparty, (counts.get(counterparty) || 0) + 1)
+    if (!firstSeen.has(counterparty)) firstSeen.set(counterparty, firstSeen.size)
+    if (transfer.from === walletAddress) paid.add(counterparty)
+  })
+
+  const frequentCounterparties = Array.from(counts.keys())
+    .filter((address) => paid.has(address) || (counts.get(address) || 0) >= FREQUENT_MIN_TRANSFERS)
+    .sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0))
+    .slice(0, MAX_FREQUENT_COUNTERPARTIES)
+
+  const dealtWithMore = (real: string, other: string) => {
+    const difference = (counts.get(real) || 0) - (counts.get(other) || 0)
+    if (difference !== 0) return difference > 0
+    return (firstSeen.get(real) ?? Infinity) < (firstSeen.get(other) ?? Infinity)
+  }
+
+  const lookalikes: Lookalike[] = []
+  counterparties.forEach((address) => {
+    const imitates = frequentCounterparties.find(
+      (frequent) => isLookalike(address, frequent) && dealtWithMore(frequent, address),
+    )
+    if (imitates) lookalikes.push({ address, imitates, ...addressSimilarity(address, imitates) })
+  })
+
+  const imitated = lookalikeMap({ lookalikes })
+  const toAttempt = (transfer: WalletTransfer, counterparty: string): PoisoningAttempt => ({
+    signature: transfer.signature,
+    timestamp: transfer.timestamp,
+    from: counterparty,
+    imitates: imitated.get(counterparty) as string,
+    asset: transfer.asset,
+    amount: transfer.amount,
+    zeroValue: transfer.amount === 0,
+  })
+
+  return {
+    frequentCounterparties,
+    lookalikes,
+    attempts: transfers
+      .filter((transfer) => transfer.to === walletAddress && transfer.dust && imitated.has(transfer.from))
+      .map((transfer) => toAttempt(transfer, transfer.from)),
+    payments: transfers
+      .filter((transfer) => transfer.from === walletAddress && !transfer.dust && imitated.has(transfer.to))
+      .map((transfer) => toAttempt(transfer, transfer.to)),
+  }
+}
+
+// Look-alike address -> the counterparty it imitates, for highlighting
+export function lookalikeMap(report: Pick<PoisoningReport, "lookalikes">) {
+  return new Map(report.lookalikes.map((lookalike) => [lookalike.address, lookalike.imitates] as [string, string]))
+}
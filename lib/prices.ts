@@ -0,0 +1,46 @@
+import { TOKEN_PRICE_URL } from "@/lib/config"
+
+// Mints per price request
+const PRICE_BATCH_SIZE = 100
+
+// Price the service gave for each mint: USD per whole token, or null when it
+// does not know the token. Mints whose request failed are left out, so
+// callers can tell a token with no market from one whose price is unknown.
+export async function lookupTokenPrices(mints: string[]): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>()
+  const unique = Array.from(new Set(mints))
+
+  for (let start = 0; start < unique.length; start += PRICE_BATCH_SIZE) {
+    const batch = unique.slice(start, start + PRICE_BATCH_SIZE)
+    try {
+      const response = await fetch(`${TOKEN_PRICE_URL}?ids=${batch.join(",")}`, {
+        headers: { Accept: "application/json" },
+      })
+      if (!response.ok) {
+        throw new Error(`Price API Error (${response.status}): ${await response.text()}`)
+      }
+
+      const { data } = await response.json()
+      batch.forEach((mint) => {
+        const price = Number(data?.[mint]?.price)
+        prices.set(mint, price > 0 ? price : null)
+      })
+    } catch (error) {
+      console.warn("Failed to fetch token prices:", error)
+    }
+  }
+
+  return prices
+}
+
+// USD price per whole token, keyed by mint. Mints the price service does not
+// know are left out, and a failed request leaves its batch unpriced rather
+// than failing the caller.
+export async function getTokenPrices(mints: string[]): Promise<Map<string, number>> {
+  const looked = await lookupTokenPrices(mints)
+  const prices = new Map<string, number>()
+  looked.forEach((price, mint) => {
+    if (price !== null) prices.set(mint, price)
+  })
+  return prices
+}
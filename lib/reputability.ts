@@ -0,0 +1,623 @@
+import { type ChainDataProvider, getChainDataProvider } from "@/lib/chain-data-provider"
+import {
+  type ResolvedBoundary,
+  collectTransactionHistory,
+  getFirstActivityTime,
+  resolveHistoryBoundary,
+} from "@/lib/transaction-history"
+import { getEntityCategory } from "@/lib/entity-registry"
+import { FLAGGED_CATEGORIES } from "@/lib/entities"
+import { type FlagSets, getActiveFlagSets } from "@/lib/flag-lists"
+import {
+  type FactorEvidence,
+  type ScoringMetric,
+  type ScoringModel,
+  calculateReputabilityScore,
+  modelKey,
+} from "@/lib/scoring-model"
+import { ScoringModelError, getScoringModel } from "@/lib/scoring-model-registry"
+import { type ScoreRecordInput, recordScore, recordScores } from "@/lib/score-history"
+import { isValidAddress } from "@/lib/solana"
+import { analyzeBehavior } from "@/lib/behavior"
+import { type DrainIncident, detectDrainIncidents, showsDrainEvidence } from "@/lib/drain-detection"
+import { detectPoisoning } from "@/lib/poisoning"
+import { STAKING_PROGRAMS, type StakingProfile, getStakingProfile, tokenAccountHoldings } from "@/lib/staking"
+import { type TokenDelegation, findDelegationGrants, listDelegations } from "@/lib/approvals"
+import type { BatchScoreResult } from "@/lib/batch-scoring"
+
+// Wallets scored at once by a batch; each one already fans out into several
+// provider requests
+const BATCH_CONCURRENCY = 4
+const TOP_NEGATIVE_FACTORS = 3
+
+// Bad scoring input; `status` is the HTTP status a route should answer with
+export class ScoringError extends Error {
+  readonly status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
+}
+
+export interface ScoringOptions {
+  // Unix seconds; score everything since then instead of the latest transactions
+  sinceTime?: number
+  // Unix seconds and/or slot to score the wallet as of
+  asOfTime?: number
+  asOfSlot?: number
+  model: ScoringModel
+}
+
+// Validates the optional `since`, `asOf`, `asOfSlot` and `model` request fields
+export function parseScoringOptions(input: { since?: any; asOf?: any; asOfSlot?: any; model?: any }): ScoringOptions {
+  const { since, asOf, asOfSlot } = input
+
+  // Optional analysis window: score everything since this date instead of
+  // only the most recent transactions
+  const sinceTime = since ? Math.floor(new Date(since).getTime() / 1000) : undefined
+  if (sinceTime !== undefined && Number.isNaN(sinceTime)) {
+    throw new ScoringError("Invalid since date")
+  }
+
+  // Optional point in time to score the wallet as of, by date or slot
+  const asOfTime =
+    asOf === undefined || asOf === null || asOf === ""
+      ? undefined
+      : typeof asOf === "number"
+        ? asOf
+        : Math.floor(new Date(asOf).getTime() / 1000)
+  if (asOfTime !== undefined && (Number.isNaN(asOfTime) || asOfTime * 1000 > Date.now())) {
+    throw new ScoringError("Invalid asOf date")
+  }
+  if (asOfSlot !== undefined && asOfSlot !== null && (!Number.isInteger(asOfSlot) || asOfSlot < 0)) {
+    throw new ScoringError("Invalid asOfSlot")
+  }
+
+  // Weights, caps and risk thresholds come from a named, versioned model
+  try {
+    return { sinceTime, asOfTime, asOfSlot: asOfSlot ?? undefined, model: getScoringModel(input.model) }
+  } catch (error) {
+    if (error instanceof ScoringModelError) throw new ScoringError(error.message)
+    throw error
+  }
+}
+
+// Counterparty and program reputation comes from the analyst-managed lists
+// and the entity registry
+function isFlaggedAddress(address: string, flagSets: FlagSets) {
+  if (flagSets.scamAddresses.has(address)) return true
+  const category = getEntityCategory(address)
+  return category !== null && FLAGGED_CATEGORIES.includes(category)
+}
+
+function isBlacklistedProgram(programId: string, flagSets: FlagSets) {
+  return flagSets.blacklistedPrograms.has(programId) || getEntityCategory(programId) === "malicious_program"
+}
+
+// Established DeFi programs count as a positive indicator
+function isLegitimateProgram(programId: string) {
+  return getEntityCategory(programId) === "defi"
+}
+
+// Evidence kept per factor; the metric itself still counts every occurrence
+const MAX_EVIDENCE_PER_FACTOR = 25
+
+// Token accounts can only be read at the chain head, so holdings as of a past
+// point are rebuilt from the wallet's token transfers in the analyzed window
+function reconstructTokenHoldings(transactions: any[], walletAddress: string) {
+  const balances = new Map<string, number>()
+  transactions.forEach((tx) => {
+    const transfers: any[] = tx.tokenTransfers || []
+    transfers.forEach((transfer) => {
+      const amount = Number(transfer.tokenAmount) || 0
+      const received = transfer.toUserAccount === walletAddress ? amount : 0
+      const sent = transfer.fromUserAccount === walletAddress ? amount : 0
+      balances.set(transfer.mint, (balances.get(transfer.mint) || 0) + received - sent)
+    })
+  })
+
+  return Array.from(balances.keys())
+    .filter((mint) => (balances.get(mint) || 0) > 0)
+    .map((mint) => ({ mint, amount: balances.get(mint) }))
+}
+
+// Fetches a wallet's data and measures the metrics scoring models work from
+export async function analyzeWallet(
+  walletAddress: string,
+  options: Omit<ScoringOptions, "model">,
+  provider: ChainDataProvider = getChainDataProvider(),
+) {
+  const { sinceTime, asOfTime, asOfSlot } = options
+
+  console.log(`Analyzing wallet: ${walletAddress}`)
+
+  // Fetch real blockchain data through the configured provider with better error handling
+  let transactions: any[] = []
+  let tokenBalances = []
+  let accountInfo = null
+  let firstActivityTime = null
+  let staking: StakingProfile | null = null
+  let delegations: TokenDelegation[] = []
+  let boundary: ResolvedBoundary | null = null
+
+  if (asOfTime !== undefined || asOfSlot !== undefined) {
+    try {
+      boundary = await resolveHistoryBoundary(provider, walletAddress, { timestamp: asOfTime, slot: asOfSlot })
+    } catch (error) {
+      console.error("Error resolving as-of point:", error)
+      throw new ScoringError("Failed to locate wallet history at the requested point", 502)
+    }
+  }
+
+  // History ends at the as-of boundary when one was given
+  const asOfBoundary = boundary
+    ? { timestamp: boundary.timestamp ?? undefined, slot: boundary.slot ?? undefined }
+    : undefined
+  // Measure age and recent activity from the boundary rather than today
+  const referenceTime = boundary?.timestamp ? boundary.timestamp * 1000 : Date.now()
+
+  try {
+    transactions =
+      boundary && !boundary.signature
+        ? []
+        : await collectTransactionHistory(provider, walletAddress, {
+            ...(sinceTime ? { since: sinceTime } : { maxTransactions: 100 }),
+            before: boundary?.before,
+            asOf: asOfBoundary,
+          })
+    console.log(`Successfully fetched ${transactions.length} transactions`)
+  } catch (error) {
+    console.warn("Failed to fetch transaction history:", error)
+    transactions = []
+  }
+
+  try {
+    firstActivityTime = await getFirstActivityTime(provider, walletAddress)
+    // A wallet first active after the boundary did not exist yet
+    if (firstActivityTime && firstActivityTime * 1000 > referenceTime) firstActivityTime = null
+  } catch (error) {
+    console.warn("Failed to determine wallet age:", error)
+    firstActivityTime = null
+  }
+
+  if (boundary) {
+    tokenBalances = reconstructTokenHoldings(transactions, walletAddress)
+  } else {
+    try {
+      tokenBalances = await provider.getTokenAccounts(walletAddress)
+      console.log(`Successfully fetched ${tokenBalances.length} token balances`)
+    } catch (error) {
+      console.warn("Failed to fetch token balances:", error)
+      tokenBalances = []
+    }
+
+    try {
+      accountInfo = await provider.getAccountInfo(walletAddress)
+      console.log("Successfully fetched account info")
+    } catch (error) {
+      console.warn("Failed to fetch account info:", error)
+      accountInfo = null
+    }
+
+    // Stake accounts and pool exchange rates only exist at the chain head, so
+    // a point-in-time score goes without them
+    try {
+      staking = await getStakingProfile(provider, walletAddress, tokenAccountHoldings(tokenBalances))
+      console.log(
+        `Found ${staking.stakeAccounts.length} stake accounts, ${staking.totalStakedSol.toFixed(2)} SOL staked`,
+      )
+    } catch (error) {
+      console.warn("Failed to fetch staking positions:", error)
+      staking = null
+    }
+  }
+
+  // Lists are read per request so analyst edits apply immediately; a
+  // point-in-time score uses the lists as they stood at that point
+  const flagSets = await getActiveFlagSets(referenceTime)
+
+  // Delegates are set on the token accounts, so like staking they are only
+  // known at the chain head
+  if (!boundary) {
+    delegations = await findDelegationGrants(provider, listDelegations(tokenBalances, flagSets))
+    console.log(`Found ${delegations.length} token delegations`)
+  }
+
+  // Analyze wallet data
+  const walletAnalysis = analyzeWalletData(
+    transactions,
+    tokenBalances,
+    accountInfo,
+    walletAddress,
+    flagSets,
+    staking,
+    delegations,
+    firstActivityTime,
+    referenceTime,
+  )
+
+  return { walletAnalysis, asOf: boundary ? asOfLabel(boundary) : null }
+}
+
+// Analyzes and scores a wallet with the chosen model, without recording it
+async function computeWalletScore(walletAddress: string, options: ScoringOptions) {
+  const { model } = options
+  const { walletAnalysis, asOf } = await analyzeWallet(walletAddress, options)
+
+  // Calculate reputability score and risk level
+  const { score, factors, riskLevel } = calculateReputabilityScore(walletAnalysis, model)
+
+  return {
+    score,
+    factors,
+    riskLevel,
+    model: { id: model.id, version: model.version },
+    asOf,
+    walletAnalysis,
+  }
+}
+
+function toScoreRecord(
+  address: string,
+  result: Awaited<ReturnType<typeof computeWalletScore>>,
+  options: ScoringOptions,
+): ScoreRecordInput {
+  return {
+    address,
+    score: result.score,
+    riskLevel: result.riskLevel,
+    factors: result.factors,
+    model: result.model,
+    since: options.sinceTime ? new Date(options.sinceTime * 1000).toISOString() : null,
+    asOf: result.asOf,
+  }
+}
+
+// Analyzes and scores a wallet with the chosen model and records the result in
+// the score history
+export async function scoreWallet(walletAddress: string, options: ScoringOptions) {
+  const result = await computeWalletScore(walletAddress, options)
+
+  // Keep every run so the score can be tracked over time
+  try {
+    await recordScore(toScoreRecord(walletAddress, result, options))
+  } catch (error) {
+    console.warn("Failed to record score history:", error)
+  }
+
+  return result
+}
+
+// Scores many wallets with bounded concurrency. A failure only affects its
+// own address; results come back in input order. The runs are recorded in
+// the score history together at the end.
+export async function scoreWalletBatch(addresses: string[], options: ScoringOptions): Promise<BatchScoreResult[]> {
+  const results: BatchScoreResult[] = new Array(addresses.length)
+  const records: ScoreRecordInput[] = []
+  let next = 0
+
+  const scoreNext = async (): Promise<void> => {
+    const index = next++
+    if (index >= addresses.length) return
+
+    const address = addresses[index]
+    const failed = (error: string): BatchScoreResult => ({
+      address,
+      status: "error",
+      score: null,
+      riskLevel: null,
+      topNegativeFactors: [],
+      model: null,
+      error,
+    })
+
+    if (!isValidAddress(address)) {
+      results[index] = failed("Invalid wallet address format")
+    } else {
+      try {
+        const scored = await computeWalletScore(address, options)
+        records.push(toScoreRecord(address, scored, options))
+        const { score, riskLevel, factors, model } = scored
+        results[index] = {
+          address,
+          status: "ok",
+          score,
+          riskLevel,
+          topNegativeFactors: factors
+            .filter((factor) => factor.impact < 0)
+            .sort((a, b) => a.impact - b.impact)
+            .slice(0, TOP_NEGATIVE_FACTORS)
+            .map((factor) => ({ name: factor.name, impact: factor.impact })),
+          model: modelKey(model),
+          error: null,
+        }
+      } catch (error) {
+        console.warn(`Failed to score ${address}:`, error)
+        results[index] = failed(error instanceof Error ? error.message : "Scoring failed")
+      }
+    }
+
+    return scoreNext()
+  }
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, addresses.length) }, () => scoreNext()))
+
+  try {
+    await recordScores(records)
+  } catch (error) {
+    console.warn("Failed to record score history:", error)
+  }
+
+  return results
+}
+
+function asOfLabel(boundary: ResolvedBoundary) {
+  return {
+    timestamp: boundary.timestamp ? new Date(boundary.timestamp * 1000).toISOString() : null,
+    slot: boundary.slot,
+    signature: boundary.signature,
+    holdings: "reconstructed from token transfers",
+    staking: "not available for past points",
+    delegations: "not available for past points",
+  }
+}
+
+function analyzeWalletData(
+  transactions: any[],
+  tokenBalances: any[],
+  accountInfo: any,
+  walletAddress: string,
+  flagSets: FlagSets,
+  staking: StakingProfile | null,
+  delegations: TokenDelegation[],
+  firstActivityTime: number | null = null,
+  now = Date.now(),
+) {
+  const oneMonthAgo = now - 30 * 24 * 60 * 60 * 1000
+
+  // Analyze transactions
+  let flaggedInteractions = 0
+  let blacklistedProgramUsage = 0
+  let legitimateProgramUsage = 0
+  let largeTransfers = 0
+  let totalVolume = 0
+  const counterparties = new Set<string>()
+  const programsUsed = new Set<string>()
+  let stakingTransactions = 0
+  let oldestTransaction = now
+  let oldestSignature: string | null = null
+
+  // Transactions behind each metric, in the order they were analyzed
+  const evidence: Partial<Record<ScoringMetric, FactorEvidence[]>> = {}
+  const addEvidence = (metric: ScoringMetric, item: FactorEvidence) => {
+    const items = evidence[metric] || (evidence[metric] = [])
+    if (items.length < MAX_EVIDENCE_PER_FACTOR) items.push(item)
+  }
+
+  // Counterparty diversity evidence is the first transaction with each counterparty
+  const addCounterparty = (address: string, tx: any) => {
+    if (address === walletAddress || counterparties.has(address)) return
+    counterparties.add(address)
+    addEvidence("counterpartyDiversity", { signature: tx.signature, timestamp: tx.timestamp, counterparty: address })
+  }
+
+  // Only analyze if we have transactions
+  if (transactions && transactions.length > 0) {
+    transactions.forEach((tx) => {
+      const txTime = tx.timestamp * 1000
+      if (txTime < oldestTransaction) {
+        oldestTransaction = txTime
+        oldestSignature = tx.signature
+      }
+      if (txTime > oneMonthAgo) {
+        addEvidence("transactionFrequency", { signature: tx.signature, timestamp: tx.timestamp })
+      }
+
+      // Check for flagged address interactions
+      if (tx.nativeTransfers && Array.isArray(tx.nativeTransfers)) {
+        tx.nativeTransfers.forEach((transfer: any) => {
+          const counterparty =
+            transfer.fromUserAccount === walletAddress ? transfer.toUserAccount : transfer.fromUserAccount
+          const transferEvidence = {
+            signature: tx.signature,
+            timestamp: tx.timestamp,
+            counterparty,
+            amount: (transfer.amount || 0) / 1e9,
+          }
+
+          if (
+            isFlaggedAddress(transfer.fromUserAccount, flagSets) ||
+            isFlaggedAddress(transfer.toUserAccount, flagSets)
+          ) {
+            flaggedInteractions++
+            const flagged = isFlaggedAddress(transfer.toUserAccount, flagSets) ? "recipient" : "sender"
+            addEvidence("flaggedInteractions", { ...transferEvidence, detail: `Flagged ${flagged}` })
+          }
+          addCounterparty(transfer.fromUserAccount, tx)
+          addCounterparty(transfer.toUserAccount, tx)
+
+          // Track large transfers (>10 SOL)
+          if (transfer.amount > 10 * 1e9) {
+            largeTransfers++
+            addEvidence("largeTransfers", transferEvidence)
+          }
+          totalVolume += transfer.amount || 0
+        })
+      }
+
+      // Check token transfers
+      if (tx.tokenTransfers && Array.isArray(tx.tokenTransfers)) {
+        tx.tokenTransfers.forEach((transfer: any) => {
+          addCounterparty(transfer.fromUserAccount, tx)
+          addCounterparty(transfer.toUserAccount, tx)
+        })
+      }
+
+      // Transactions that create, delegate or withdraw stake, natively or
+      // through a liquid staking pool
+      const stakingInstruction = (tx.instructions || []).find((instruction: any) =>
+        STAKING_PROGRAMS.includes(instruction.programId),
+      )
+      if (stakingInstruction) {
+        stakingTransactions++
+        addEvidence("stakingActivityRatio", {
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          program: stakingInstruction.programId,
+        })
+      }
+
+      // Analyze program interactions
+      if (tx.instructions && Array.isArray(tx.instructions)) {
+        tx.instructions.forEach((instruction: any) => {
+          const programId = instruction.programId
+          if (programId) {
+            programsUsed.add(programId)
+
+            const programEvidence = { signature: tx.signature, timestamp: tx.timestamp, program: programId }
+
+            if (isBlacklistedProgram(programId, flagSets)) {
+              blacklistedProgramUsage++
+              addEvidence("blacklistedProgramUsage", programEvidence)
+            }
+
+            if (isLegitimateProgram(programId)) {
+              legitimateProgramUsage++
+              addEvidence("legitimateProgramUsage", programEvidence)
+            }
+          }
+        })
+      }
+    })
+  }
+
+  if (oldestSignature) {
+    addEvidence("walletAgeMonths", {
+      signature: oldestSignature,
+      timestamp: oldestTransaction / 1000,
+      detail: "Oldest analyzed transaction",
+    })
+  }
+
+  // Calculate wallet age in months from the first on-chain activity, falling
+  // back to the oldest analyzed transaction
+  if (firstActivityTime) {
+    oldestTransaction = Math.min(oldestTransaction, firstActivityTime * 1000)
+  }
+  const walletAgeMs = now - oldestTransaction
+  const walletAgeMonths =
+    transactions.length > 0 || firstActivityTime ? Math.max(0.1, walletAgeMs / (30 * 24 * 60 * 60 * 1000)) : 0.1
+
+  // Calculate activity metrics
+  const recentTransactions = transactions.filter((tx) => tx.timestamp * 1000 > oneMonthAgo).length
+  const transactionFrequency = recentTransactions / 30 // transactions per day
+
+  // Calculate counterparty diversity (0-1 scale)
+  const counterpartyDiversity =
+    transactions.length > 0 ? Math.min(1, counterparties.size / Math.max(1, transactions.length * 0.5)) : 0
+
+  // Calculate staking activity ratio
+  const stakingActivityRatio = transactions.length > 0 ? stakingTransactions / transactions.length : 0
+
+  // Share of the wallet's SOL that is staked, natively or as liquid staking tokens
+  const stakedSol = staking?.totalStakedSol || 0
+  const liquidSol = (accountInfo?.lamports || 0) / 1e9
+  const stakedShare = stakedSol > 0 ? stakedSol / (stakedSol + liquidSol) : 0
+  // Staking transactions are the closest thing to evidence for staked SOL
+  if (evidence.stakingActivityRatio) evidence.stakedShare = evidence.stakingActivityRatio
+
+  // Timing and repetition patterns that separate people from bots
+  const behavior = analyzeBehavior(transactions, walletAddress)
+  if (behavior.evidence.length > 0) evidence.botLikelihood = behavior.evidence
+
+  // Token approvals to flagged or unlabeled delegates, which can move funds
+  // without another signature from the wallet
+  const riskyDelegations = delegations.filter((delegation) => delegation.risk !== "low")
+  const delegationEvidence = riskyDelegations
+    .filter((delegation) => delegation.grant)
+    .map((delegation) => ({
+      signature: delegation.grant!.signature,
+      timestamp: delegation.grant!.timestamp || 0,
+      counterparty: delegation.delegate,
+      detail:
+        `${delegation.risk} risk approval of ${delegation.delegatedAmount} tokens: ` + delegation.reasons.join(", "),
+    }))
+  if (delegationEvidence.length > 0) evidence.riskyDelegations = delegationEvidence
+
+  // Drain patterns, split by whether the wallet lost funds or took them
+  const drains = detectDrainIncidents(transactions, walletAddress)
+  const drainEvidence = (incidents: DrainIncident[]) =>
+    incidents.slice(0, MAX_EVIDENCE_PER_FACTOR).map((incident) => ({
+      signature: incident.signature,
+      timestamp: incident.timestamp,
+      counterparty: incident.counterparty,
+      detail: incident.detail,
+    }))
+  const drainerIncidents = drains.incidents.filter(
+    (incident) => incident.role === "perpetrator" && showsDrainEvidence(incident),
+  )
+  const drainedIncidents = drains.incidents.filter((incident) => incident.role === "victim")
+  if (drainerIncidents.length > 0) evidence.drainerIncidents = drainEvidence(drainerIncidents)
+  if (drainedIncidents.length > 0) evidence.drainedIncidents = drainEvidence(drainedIncidents)
+
+  // Counterparties imitating the wallet's frequent ones, with the dust they
+  // sent and anything the wallet paid them. Only payments are penalized: dust
+  // arrives whether the wallet wants it or not.
+  const poisoning = detectPoisoning(transactions, walletAddress)
+  const lookalikeEvidence = (attempts: typeof poisoning.attempts, verb: string) =>
+    attempts.slice(0, MAX_EVIDENCE_PER_FACTOR).map((attempt) => ({
+      signature: attempt.signature,
+      timestamp: attempt.timestamp,
+      counterparty: attempt.from,
+      detail: `${verb} look-alike of ${attempt.imitates}`,
+    }))
+  const poisoningEvidence = lookalikeEvidence(poisoning.payments, "Paid")
+  const lookalikes = [...poisoningEvidence, ...lookalikeEvidence(poisoning.attempts, "Dust from")]
+  if (lookalikes.length > 0) evidence.lookalikeCounterparties = lookalikes.slice(0, MAX_EVIDENCE_PER_FACTOR)
+  if (poisoningEvidence.length > 0) evidence.poisoningPayments = poisoningEvidence
+
+  // Analyze token portfolio
+  const tokenCount = tokenBalances ? tokenBalances.length : 0
+
+  return {
+    flaggedInteractions,
+    blacklistedProgramUsage,
+    legitimateProgramUsage,
+    largeTransfers,
+    totalVolume,
+    counterpartyCount: counterparties.size,
+    counterpartyDiversity,
+    walletAgeMonths,
+    transactionCount: transactions.length,
+    recentTransactions,
+    transactionFrequency,
+    stakingTransactions,
+    stakingActivityRatio,
+    tokenCount,
+    stakedSol,
+    stakedShare,
+    nativeStakeSol: staking?.nativeStakeSol || 0,
+    liquidStakeSol: staking?.liquidStakeSol || 0,
+    stakeAccountCount: staking?.stakeAccounts.length || 0,
+    stakingValidators: staking?.validators || [],
+    hasStakedTokens: (staking?.liquidStakeSol || 0) > 0,
+    botLikelihood: behavior.botLikelihood,
+    behaviorClass: behavior.classification,
+    behaviorConfidence: behavior.confidence,
+    delegationCount: delegations.length,
+    riskyDelegations: riskyDelegations.length,
+    highRiskDelegations: riskyDelegations.filter((delegation) => delegation.risk === "high").length,
+    drainerIncidents: drains.perpetratorDrains,
+    drainedIncidents: drains.victimIncidents,
+    drainRole: drains.role,
+    drainIncidents: drains.incidents,
+    lookalikeCounterparties: poisoning.lookalikes.length,
+    poisoningAttempts: poisoning.attempts.length,
+    poisoningPayments: poisoning.payments.length,
+    lookalikes: poisoning.lookalikes,
+    programsUsed: Array.from(programsUsed),
+    uniquePrograms: programsUsed.size,
+    evidence,
+  }
+}
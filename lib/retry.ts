@@ -0,0 +1,21 @@
+// Backoff shared by everything that retries rate-limited provider requests
+export const MAX_RETRIES = 4
+const BASE_RETRY_DELAY_MS = 500
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Exponential with jitter, so parallel retries do not land together
+export function retryDelay(attempt: number) {
+  return BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS
+}
+
+export function isRateLimitError(error: unknown) {
+  return error instanceof Error && /\(429\)|rate limit/i.test(error.message)
+}
+
+// A JSON-RPC error object for one request of a batch
+export function isRateLimitRpcError(error: any) {
+  return error?.code === 429 || error?.code === -32429 || /rate limit|too many requests/i.test(error?.message || "")
+}
@@ -0,0 +1,83 @@
+import { randomUUID } from "crypto"
+import { JsonStore } from "@/lib/json-store"
+import { type RiskLevel, type ScoredFactor, modelKey } from "@/lib/scoring-model"
+
+// Oldest runs are dropped beyond this many per address, and beyond this many
+// in total so the history file stays small enough to rewrite on every update
+const MAX_RECORDS_PER_ADDRESS = 200
+const MAX_RECORDS = 20000
+
+export interface ScoreRecord {
+  id: string
+  address: string
+  score: number
+  riskLevel: RiskLevel
+  // Factor evidence is left out to keep the history file small
+  factors: Omit<ScoredFactor, "evidence">[]
+  model: { id: string; version: number }
+  // Start of the analysis window, when the run was limited to one
+  since: string | null
+  // Point in time the wallet was scored as of, null for a score at the chain head
+  asOf: { timestamp: string | null; slot: number | null; signature: string | null } | null
+  analyzedAt: string
+}
+
+export interface ScoreHistoryEntry extends ScoreRecord {
+  // Change from the previous run with the same model version, null for the first
+  delta: number | null
+}
+
+const store = new JsonStore<{ records: ScoreRecord[] }>("score-history.json", () => ({ records: [] }))
+
+export type ScoreRecordInput = Omit<ScoreRecord, "id" | "analyzedAt" | "factors"> & { factors: ScoredFactor[] }
+
+// Saves a batch of runs with one write of the history file
+export async function recordScores(inputs: ScoreRecordInput[]): Promise<ScoreRecord[]> {
+  if (inputs.length === 0) return []
+
+  const analyzedAt = new Date().toISOString()
+  const saved: ScoreRecord[] = inputs.map((record) => ({
+    ...record,
+    id: randomUUID(),
+    factors: record.factors.map(({ evidence, ...factor }) => factor),
+    analyzedAt,
+  }))
+
+  return store.update(({ records }) => {
+    // Records are stored oldest first, so the newest ones are kept
+    const all = [...records, ...saved]
+    const kept = new Array<boolean>(all.length).fill(false)
+    const perAddress = new Map<string, number>()
+    let total = 0
+    for (let index = all.length - 1; index >= 0 && total < MAX_RECORDS; index--) {
+      const count = perAddress.get(all[index].address) || 0
+      if (count >= MAX_RECORDS_PER_ADDRESS) continue
+      perAddress.set(all[index].address, count + 1)
+      kept[index] = true
+      total++
+    }
+
+    return { data: { records: all.filter((_, index) => kept[index]) }, result: saved }
+  })
+}
+
+export async function recordScore(record: ScoreRecordInput): Promise<ScoreRecord> {
+  const [saved] = await recordScores([record])
+  return saved
+}
+
+// Runs for an address, oldest first
+export async function getScoreHistory(address: string): Promise<ScoreHistoryEntry[]> {
+  const { records } = await store.read()
+  const previousByModel = new Map<string, number>()
+
+  return records
+    .filter((record) => record.address === address)
+    .sort((a, b) => a.analyzedAt.localeCompare(b.analyzedAt))
+    .map((record) => {
+      const key = modelKey(record.model)
+      const previous = previousByModel.get(key)
+      previousByModel.set(key, record.score)
+      return { ...record, delta: previous === undefined ? null : record.score - previous }
+    })
+}
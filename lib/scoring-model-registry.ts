@@ -0,0 +1,73 @@
+import { readdirSync, readFileSync } from "fs"
+import path from "path"
+import { DEFAULT_SCORING_MODEL, SCORING_MODEL_DIR } from "@/lib/config"
+import { type ScoringModel, modelKey, scoringModelSchema } from "@/lib/scoring-model"
+
+export class ScoringModelError extends Error {}
+
+// Model files are named <id>.v<version>.json. Every version stays loadable so
+// a past score can be reproduced with the exact model that produced it.
+function loadModels(dir: string): ScoringModel[] {
+  let files: string[]
+  try {
+    files = readdirSync(dir)
+  } catch (error) {
+    console.warn(`Scoring model directory ${dir} not readable:`, error)
+    return []
+  }
+
+  const models: ScoringModel[] = []
+  for (const file of files) {
+    const match = file.match(/^([a-z0-9-]+)\.v(\d+)\.json$/)
+    if (!match) continue
+
+    try {
+      const result = scoringModelSchema.safeParse(JSON.parse(readFileSync(path.join(dir, file), "utf8")))
+      if (!result.success) {
+        console.warn(`Invalid scoring model ${file}:`, result.error.issues)
+        continue
+      }
+      if (result.data.id !== match[1] || result.data.version !== Number(match[2])) {
+        console.warn(`Scoring model ${file} does not match its file name (${modelKey(result.data)})`)
+        continue
+      }
+      models.push(result.data)
+    } catch (error) {
+      console.warn(`Failed to load scoring model ${file}:`, error)
+    }
+  }
+
+  return models.sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version)
+}
+
+let models: ScoringModel[] | null = null
+
+function getModels() {
+  if (!models) {
+    models = loadModels(SCORING_MODEL_DIR)
+  }
+  return models
+}
+
+// Newest version of each model
+export function listScoringModels(): ScoringModel[] {
+  const latest = new Map<string, ScoringModel>()
+  getModels().forEach((model) => latest.set(model.id, model))
+  return Array.from(latest.values())
+}
+
+// Resolves "<id>" to the newest version of a model, or "<id>@<version>" to
+// that exact version. Without a name the configured default is used.
+export function getScoringModel(name?: string): ScoringModel {
+  const [id, version] = (name || DEFAULT_SCORING_MODEL).split("@")
+  const candidates = getModels().filter((model) => model.id === id)
+
+  const model = version
+    ? candidates.find((candidate) => candidate.version === Number(version))
+    : candidates[candidates.length - 1]
+
+  if (!model) {
+    throw new ScoringModelError(`Unknown scoring model: ${name || DEFAULT_SCORING_MODEL}`)
+  }
+  return model
+}
@@ -0,0 +1,203 @@
+import { z } from "zod"
+
+// Wallet analysis metrics a scoring factor can be driven by
+export const SCORING_METRICS = [
+  "flaggedInteractions",
+  "blacklistedProgramUsage",
+  "largeTransfers",
+  "counterpartyDiversity",
+  "stakingActivityRatio",
+  "stakedShare",
+  "walletAgeMonths",
+  "legitimateProgramUsage",
+  "transactionFrequency",
+  "transactionCount",
+  "uniquePrograms",
+  "botLikelihood",
+  "riskyDelegations",
+  "drainerIncidents",
+  "drainedIncidents",
+  "lookalikeCounterparties",
+  "poisoningPayments",
+] as const
+
+export type ScoringMetric = (typeof SCORING_METRICS)[number]
+
+const factorType = z.enum(["positive", "negative", "neutral"])
+
+const factorSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  metric: z.enum(SCORING_METRICS),
+  // Points per unit of the metric; negative weights are penalties
+  weight: z.number(),
+  // Largest number of points the factor can add or remove
+  cap: z.number().positive().optional(),
+  // How the factor is labelled: `match` when above < value < below, else `otherwise`
+  classification: z.object({
+    above: z.number().optional(),
+    below: z.number().optional(),
+    match: factorType,
+    otherwise: factorType,
+  }),
+})
+
+export const scoringModelSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    version: z.number().int().positive(),
+    description: z.string().default(""),
+    baseScore: z.number().min(0).max(100),
+    // Scores at or above `low` are low risk, at or above `medium` medium risk
+    riskThresholds: z.object({ low: z.number(), medium: z.number() }),
+    factors: z.array(factorSchema).min(1),
+  })
+  .refine((model) => model.riskThresholds.low > model.riskThresholds.medium, {
+    message: "riskThresholds.low must be above riskThresholds.medium",
+  })
+  .refine((model) => new Set(model.factors.map((factor) => factor.id)).size === model.factors.length, {
+    message: "Factor ids must be unique",
+  })
+
+export type ScoringModel = z.infer<typeof scoringModelSchema>
+export type ScoringFactor = ScoringModel["factors"][number]
+export type RiskLevel = "low" | "medium" | "high"
+
+// A transaction that contributed to a factor, with whatever made it count
+export interface FactorEvidence {
+  signature: string
+  timestamp: number
+  counterparty?: string
+  program?: string
+  // SOL
+  amount?: number
+  detail?: string
+}
+
+export interface ScoredFactor {
+  id: string
+  name: string
+  impact: number
+  description: string
+  type: z.infer<typeof factorType>
+  evidence: FactorEvidence[]
+}
+
+const describe: Record<ScoringMetric, (analysis: any) => string> = {
+  flaggedInteractions: (a) => `${a.flaggedInteractions} interactions with known scam/malicious addresses`,
+  blacklistedProgramUsage: (a) => `${a.blacklistedProgramUsage} interactions with blacklisted programs`,
+  largeTransfers: (a) => `${a.largeTransfers} large transfers (>10 SOL) detected`,
+  counterpartyDiversity: (a) =>
+    `${a.counterpartyCount} unique counterparties (${(a.counterpartyDiversity * 100).toFixed(1)}% diversity)`,
+  stakingActivityRatio: (a) =>
+    `${a.stakingTransactions} staking transactions (${(a.stakingActivityRatio * 100).toFixed(1)}% of activity)`,
+  stakedShare: (a) =>
+    `${(a.stakedSol || 0).toFixed(2)} SOL staked (${((a.stakedShare || 0) * 100).toFixed(1)}% of SOL holdings) ` +
+    `across ${a.stakeAccountCount || 0} stake accounts and liquid staking tokens`,
+  walletAgeMonths: (a) => `${a.walletAgeMonths.toFixed(1)} months of on-chain history`,
+  legitimateProgramUsage: (a) => `${a.legitimateProgramUsage} interactions with verified DeFi protocols`,
+  transactionFrequency: (a) => `${a.transactionFrequency.toFixed(2)} transactions per day (recent activity)`,
+  transactionCount: (a) => `${a.transactionCount} transactions analyzed`,
+  uniquePrograms: (a) => `${a.uniquePrograms} distinct programs used`,
+  botLikelihood: (a) =>
+    `Behaves like a ${a.behaviorClass === "mixed" ? "mix of human and bot" : a.behaviorClass || "human"} ` +
+    `(${((a.botLikelihood || 0) * 100).toFixed(0)}% bot likelihood, ` +
+    `${((a.behaviorConfidence || 0) * 100).toFixed(0)}% confidence)`,
+  riskyDelegations: (a) =>
+    `${a.riskyDelegations || 0} of ${a.delegationCount || 0} token approvals go to flagged or unlabeled delegates ` +
+    `(${a.highRiskDelegations || 0} high risk)`,
+  drainerIncidents: (a) => `${a.drainerIncidents || 0} incidents of draining other wallets`,
+  drainedIncidents: (a) => `${a.drainedIncidents || 0} incidents of being drained`,
+  lookalikeCounterparties: (a) =>
+    `${a.lookalikeCounterparties || 0} look-alikes of frequent counterparties ` +
+    `(${a.poisoningAttempts || 0} dust transfers received, ${a.poisoningPayments || 0} payments sent to them)`,
+  poisoningPayments: (a) =>
+    `${a.poisoningPayments || 0} payments sent to look-alikes of frequent counterparties ` +
+    `(${a.poisoningAttempts || 0} dust transfers received, not penalized)`,
+}
+
+export function modelKey(model: Pick<ScoringModel, "id" | "version">) {
+  return `${model.id}@${model.version}`
+}
+
+export function scoreFactor(factor: ScoringFactor, value: number) {
+  const points = Math.round(value * Math.abs(factor.weight))
+  const capped = factor.cap === undefined ? points : Math.min(points, factor.cap)
+  return factor.weight < 0 ? -capped : capped
+}
+
+function classify(factor: ScoringFactor, value: number) {
+  const { above, below, match, otherwise } = factor.classification
+  const matches = (above === undefined || value > above) && (below === undefined || value < below)
+  return matches ? match : otherwise
+}
+
+export function getRiskLevel(score: number, model: ScoringModel): RiskLevel {
+  if (score >= model.riskThresholds.low) return "low"
+  if (score >= model.riskThresholds.medium) return "medium"
+  return "high"
+}
+
+// Applies a model to a wallet analysis. Pure, so the same analysis and model
+// version always give the same score. Evidence is taken from
+// `analysis.evidence`, keyed by metric.
+export function calculateReputabilityScore(analysis: any, model: ScoringModel) {
+  let score = model.baseScore
+  const factors: ScoredFactor[] = []
+
+  for (const factor of model.factors) {
+    const value = Number(analysis[factor.metric]) || 0
+    const impact = scoreFactor(factor, value)
+    score += impact
+    factors.push({
+      id: factor.id,
+      name: factor.name,
+      impact,
+      description: describe[factor.metric](analysis),
+      type: classify(factor, value),
+      evidence: analysis.evidence?.[factor.metric] || [],
+    })
+  }
+
+  // Normalize score to 0-100
+  score = Math.max(0, Math.min(100, Math.round(score)))
+
+  return { score, factors, riskLevel: getRiskLevel(score, model) }
+}
+
+// Size of a one-step change in each metric, used to report marginal effects
+export const METRIC_STEPS: Record<ScoringMetric, number> = {
+  flaggedInteractions: 1,
+  blacklistedProgramUsage: 1,
+  largeTransfers: 1,
+  counterpartyDiversity: 0.1,
+  stakingActivityRatio: 0.1,
+  stakedShare: 0.1,
+  walletAgeMonths: 1,
+  legitimateProgramUsage: 1,
+  transactionFrequency: 0.1,
+  transactionCount: 1,
+  uniquePrograms: 1,
+  botLikelihood: 0.1,
+  riskyDelegations: 1,
+  drainerIncidents: 1,
+  drainedIncidents: 1,
+  lookalikeCounterparties: 1,
+  poisoningPayments: 1,
+}
+
+// Points each factor would add or remove if its metric rose by one step from
+// the wallet's current value. Zero means the factor is capped or has no weight.
+export function marginalEffects(analysis: any, model: ScoringModel) {
+  return model.factors.map((factor) => {
+    const value = Number(analysis[factor.metric]) || 0
+    const step = METRIC_STEPS[factor.metric]
+    return {
+      id: factor.id,
+      name: factor.name,
+      metric: factor.metric,
+      step,
+      effect: scoreFactor(factor, value + step) - scoreFactor(factor, value),
+    }
+  })
+}
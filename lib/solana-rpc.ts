@@ -0,0 +1,395 @@
+import type {
+  AssetPage,
+  ChainDataProvider,
+  EnhancedTransaction,
+  MintTokenAccount,
+  MintTokenAccounts,
+  SignatureInfo,
+  SignatureQuery,
+  WalletBalances,
+} from "@/lib/chain-data-provider"
+import { encodeBase58, isValidAddress } from "@/lib/solana"
+import { MAX_RETRIES, isRateLimitRpcError, retryDelay, sleep } from "@/lib/retry"
+
+export const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111"
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+// Token-2022 keeps the original instruction layout, so both are read the same way
+export const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]
+export const STAKE_PROGRAM_ID = "Stake11111111111111111111111111111111111111"
+
+// Byte offsets of the authorized staker and withdrawer in a stake account
+const STAKE_STAKER_OFFSET = 12
+const STAKE_WITHDRAWER_OFFSET = 44
+
+// A token account starts with its mint, then its owner and amount; only the
+// owner and amount are fetched. Legacy token accounts are always this size.
+const TOKEN_ACCOUNT_MINT_OFFSET = 0
+const TOKEN_ACCOUNT_OWNER_AND_AMOUNT = { offset: 32, length: 40 }
+const TOKEN_ACCOUNT_SIZE = 165
+
+// Parsed token instructions that move tokens, including Token-2022's fee-charging transfer
+const TOKEN_TRANSFER_TYPES = ["transfer", "transferChecked", "transferCheckedWithFee"]
+
+const TRANSACTION_OPTIONS = { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 }
+
+// Plain Solana JSON-RPC provider. Works against any RPC node; enhanced
+// transactions are derived from jsonParsed transactions and DAS assets are
+// not available.
+export class SolanaRpcProvider implements ChainDataProvider {
+  readonly name: string = "rpc"
+  protected rpcUrl: string
+
+  constructor(rpcUrl: string) {
+    this.rpcUrl = rpcUrl
+  }
+
+  protected async rpc(method: string, params: any) {
+    const response = await fetch(this.rpcUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method,
+        params,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`API Error (${response.status}): ${errorText}`)
+    }
+
+    const data = await response.json()
+
+    if (data.error) {
+      throw new Error(`RPC Error: ${data.error.message || JSON.stringify(data.error)}`)
+    }
+
+    return data.result
+  }
+
+  // JSON-RPC batch request: one HTTP round trip, one result per params entry.
+  // Requests the node rate-limited are sent again with backoff; other
+  // individual failures come back as null rather than failing the batch.
+  protected async rpcBatch(method: string, paramsList: any[]) {
+    const results: any[] = new Array(paramsList.length).fill(null)
+    let pending = paramsList.map((_, index) => index)
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const rateLimited: number[] = []
+      const data = await this.sendBatch(method, pending.map((index) => paramsList[index]))
+      data.forEach((item: any) => {
+        const index = pending[item.id]
+        if (index === undefined) return
+        if (item.error) {
+          if (isRateLimitRpcError(item.error)) {
+            rateLimited.push(index)
+          } else {
+            console.warn(`RPC Error in ${method} batch:`, item.error.message || item.error)
+          }
+          return
+        }
+        results[index] = item.result ?? null
+      })
+
+      if (rateLimited.length > 0 && attempt >= MAX_RETRIES) {
+        console.warn(`${rateLimited.length} ${method} requests still rate limited after ${MAX_RETRIES} retries`)
+        break
+      }
+      if (rateLimited.length > 0) await sleep(retryDelay(attempt))
+      pending = rateLimited
+    }
+
+    return results
+  }
+
+  private async sendBatch(method: string, paramsList: any[]): Promise<any[]> {
+    const response = await fetch(this.rpcUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(
+        paramsList.map((params, id) => ({
+          jsonrpc: "2.0",
+          id,
+          method,
+          params,
+        })),
+      ),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`API Error (${response.status}): ${errorText}`)
+    }
+
+    const data = await response.json()
+    if (!Array.isArray(data)) {
+      throw new Error(`RPC Error: ${data.error?.message || "Unexpected batch response"}`)
+    }
+    return data
+  }
+
+  async getSignaturesForAddress(address: string, query: SignatureQuery = {}): Promise<SignatureInfo[]> {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid wallet address format")
+    }
+
+    const options: Record<string, any> = { limit: Math.min(Math.max(1, Math.floor(query.limit || 100)), 1000) }
+    if (query.before) options.before = query.before
+    if (query.until) options.until = query.until
+
+    return (await this.rpc("getSignaturesForAddress", [address, options])) || []
+  }
+
+  async getTransaction(signature: string) {
+    return this.rpc("getTransaction", [signature, TRANSACTION_OPTIONS])
+  }
+
+  async getTransactions(signatures: string[]) {
+    return this.rpcBatch(
+      "getTransaction",
+      signatures.map((signature) => [signature, TRANSACTION_OPTIONS]),
+    )
+  }
+
+  async getTransactionHistory(address: string, query: SignatureQuery = {}): Promise<EnhancedTransaction[]> {
+    const signatures = await this.getSignaturesForAddress(address, { ...query, limit: Math.min(query.limit || 50, 100) })
+    return this.parseTransactions(signatures.map((sig) => sig.signature))
+  }
+
+  async parseTransactions(signatures: string[]): Promise<EnhancedTransaction[]> {
+    const transactions = await this.getTransactions(signatures)
+
+    return transactions
+      .map((tx, index) => (tx ? toEnhancedTransaction(signatures[index], tx) : null))
+      .filter((tx): tx is EnhancedTransaction => tx !== null)
+  }
+
+  async getBalances(address: string): Promise<WalletBalances> {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid wallet address format")
+    }
+
+    const [balance, tokenAccounts] = await Promise.all([
+      this.rpc("getBalance", [address]),
+      this.getTokenAccounts(address),
+    ])
+
+    return {
+      nativeBalance: balance?.value || 0,
+      tokens: tokenAccounts.map((account: any) => {
+        const info = account.account?.data?.parsed?.info
+        return {
+          mint: info?.mint,
+          amount: Number(info?.tokenAmount?.amount || 0),
+          decimals: info?.tokenAmount?.decimals || 0,
+          tokenAccount: account.pubkey,
+        }
+      }),
+    }
+  }
+
+  async getTokenAccounts(address: string): Promise<any[]> {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid wallet address format")
+    }
+
+    // The RPC filters by one token program at a time
+    const results = await Promise.all(
+      TOKEN_PROGRAM_IDS.map((programId) =>
+        this.rpc("getTokenAccountsByOwner", [address, { programId }, { encoding: "jsonParsed" }]),
+      ),
+    )
+
+    return results.reduce((accounts: any[], result) => [...accounts, ...(result?.value || [])], [])
+  }
+
+  async getAccountInfo(address: string) {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid wallet address format")
+    }
+
+    const result = await this.rpc("getAccountInfo", [address, { encoding: "jsonParsed" }])
+
+    return result?.value || null
+  }
+
+  async getTokenLargestAccounts(mintAddress: string): Promise<any[]> {
+    if (!isValidAddress(mintAddress)) {
+      throw new Error("Invalid mint address format")
+    }
+
+    const result = await this.rpc("getTokenLargestAccounts", [mintAddress])
+
+    return result?.value || []
+  }
+
+  async getMintTokenAccounts(mintAddress: string): Promise<MintTokenAccounts> {
+    if (!isValidAddress(mintAddress)) {
+      throw new Error("Invalid mint address format")
+    }
+
+    // Token-2022 accounts grow with their extensions, so only the legacy
+    // program can be filtered by size
+    const results = await Promise.all(
+      TOKEN_PROGRAM_IDS.map((programId) =>
+        this.rpc("getProgramAccounts", [
+          programId,
+          {
+            encoding: "base64",
+            dataSlice: TOKEN_ACCOUNT_OWNER_AND_AMOUNT,
+            filters: [
+              ...(programId === TOKEN_PROGRAM_ID ? [{ dataSize: TOKEN_ACCOUNT_SIZE }] : []),
+              { memcmp: { offset: TOKEN_ACCOUNT_MINT_OFFSET, bytes: mintAddress } },
+            ],
+          },
+        ]),
+      ),
+    )
+
+    const accounts: MintTokenAccount[] = []
+    results.forEach((result) => {
+      const page: any[] = result || []
+      page.forEach((account) => {
+        const data = Buffer.from(account.account?.data?.[0] || "", "base64")
+        if (data.length < TOKEN_ACCOUNT_OWNER_AND_AMOUNT.length) return
+        // u64 little-endian; precise enough for shares of supply
+        const amount = data.readUInt32LE(32) + data.readUInt32LE(36) * Math.pow(2, 32)
+        if (amount > 0) {
+          accounts.push({ address: account.pubkey, owner: encodeBase58(Array.from(data.subarray(0, 32))), amount })
+        }
+      })
+    })
+
+    return { accounts, complete: true }
+  }
+
+  async getStakeAccounts(address: string): Promise<any[]> {
+    if (!isValidAddress(address)) {
+      throw new Error("Invalid wallet address format")
+    }
+
+    const byAuthority = (offset: number) =>
+      this.rpc("getProgramAccounts", [
+        STAKE_PROGRAM_ID,
+        { encoding: "jsonParsed", filters: [{ memcmp: { offset, bytes: address } }] },
+      ])
+    const [asStaker, asWithdrawer] = await Promise.all([
+      byAuthority(STAKE_STAKER_OFFSET),
+      byAuthority(STAKE_WITHDRAWER_OFFSET),
+    ])
+
+    // Usually the same accounts, since one key tends to hold both authorities
+    const accounts = new Map<string, any>()
+    for (const account of [...(asStaker || []), ...(asWithdrawer || [])]) {
+      accounts.set(account.pubkey, account)
+    }
+    return Array.from(accounts.values())
+  }
+
+  async getAssetsByOwner(address: string, page = 1, limit = 20): Promise<AssetPage> {
+    // Digital asset indexing needs a DAS-capable provider
+    return { total: 0, limit, page, items: [] }
+  }
+
+  async getTokenMetadata(mintAddress: string) {
+    return null
+  }
+}
+
+function toInstruction(instruction: any) {
+  return {
+    programId: instruction.programId,
+    accounts: instruction.accounts || [],
+    data: instruction.data || "",
+    // jsonParsed instructions carry decoded fields instead of raw data
+    ...(instruction.parsed ? { parsed: instruction.parsed } : {}),
+  }
+}
+
+// Build an enhanced transaction from a jsonParsed RPC transaction, covering
+// the fields the analysis code reads: transfers, instructions, fee payer.
+export function toEnhancedTransaction(signature: string, tx: any): EnhancedTransaction {
+  const message = tx.transaction?.message || {}
+  const accountKeys: string[] = (message.accountKeys || []).map((key: any) =>
+    typeof key === "string" ? key : key.pubkey,
+  )
+
+  // Token account -> owner/mint, from the pre and post token balances
+  const tokenAccounts = new Map<string, { owner: string; mint: string; decimals: number }>()
+  const tokenBalances = [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])]
+  tokenBalances.forEach((balance: any) => {
+    tokenAccounts.set(accountKeys[balance.accountIndex], {
+      owner: balance.owner,
+      mint: balance.mint,
+      decimals: balance.uiTokenAmount?.decimals || 0,
+    })
+  })
+
+  const innerInstructions = (tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || [])
+  const innerByIndex = new Map<number, any[]>(
+    (tx.meta?.innerInstructions || []).map((inner: any) => [inner.index, inner.instructions || []]),
+  )
+  const allInstructions = [...(message.instructions || []), ...innerInstructions]
+
+  const nativeTransfers: any[] = []
+  const tokenTransfers: any[] = []
+
+  allInstructions.forEach((instruction: any) => {
+    const parsed = instruction.parsed
+    if (!parsed || typeof parsed !== "object") return
+
+    if (instruction.programId === SYSTEM_PROGRAM_ID && parsed.type === "transfer") {
+      nativeTransfers.push({
+        fromUserAccount: parsed.info.source,
+        toUserAccount: parsed.info.destination,
+        amount: parsed.info.lamports,
+      })
+    }
+
+    if (TOKEN_PROGRAM_IDS.includes(instruction.programId) && TOKEN_TRANSFER_TYPES.includes(parsed.type)) {
+      const source = tokenAccounts.get(parsed.info.source)
+      const destination = tokenAccounts.get(parsed.info.destination)
+      const mint = parsed.info.mint || source?.mint || destination?.mint || ""
+      const decimals = parsed.info.tokenAmount?.decimals ?? source?.decimals ?? destination?.decimals ?? 0
+      const rawAmount = parsed.info.tokenAmount?.amount ?? parsed.info.amount ?? 0
+
+      tokenTransfers.push({
+        fromTokenAccount: parsed.info.source,
+        toTokenAccount: parsed.info.destination,
+        fromUserAccount: source?.owner || parsed.info.authority || "",
+        toUserAccount: destination?.owner || "",
+        mint,
+        tokenAmount: Number(rawAmount) / Math.pow(10, decimals),
+      })
+    }
+  })
+
+  return {
+    signature,
+    slot: tx.slot,
+    timestamp: tx.blockTime || 0,
+    fee: tx.meta?.fee || 0,
+    feePayer: accountKeys[0] || "",
+    signers: (message.accountKeys || [])
+      .filter((key: any) => typeof key !== "string" && key.signer)
+      .map((key: any) => key.pubkey),
+    type: "UNKNOWN",
+    description: "",
+    transactionError: tx.meta?.err || null,
+    // Inner instructions hang off the instruction that invoked them, as in the enhanced API
+    instructions: (message.instructions || []).map((instruction: any, index: number) => ({
+      ...toInstruction(instruction),
+      innerInstructions: (innerByIndex.get(index) || []).map(toInstruction),
+    })),
+    events: {},
+    nativeTransfers,
+    tokenTransfers,
+  }
+}
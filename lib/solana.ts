@@ -0,0 +1,50 @@
+// Base58 public key, 32-44 characters
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+export function isValidAddress(address: string | null | undefined): address is string {
+  return !!address && address.trim() !== "" && ADDRESS_PATTERN.test(address)
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz"
+
+// Instruction data from the enhanced API is base58; an empty array means the
+// input was not valid base58
+export function decodeBase58(value: string): number[] {
+  const bytes: number[] = []
+  for (const character of value) {
+    let carry = BASE58_ALPHABET.indexOf(character)
+    if (carry < 0) return []
+    for (let index = 0; index < bytes.length; index++) {
+      carry += bytes[index] * 58
+      bytes[index] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+  // Each leading "1" is a leading zero byte
+  for (let index = 0; index < value.length && value[index] === "1"; index++) bytes.push(0)
+  return bytes.reverse()
+}
+
+export function encodeBase58(bytes: number[]): string {
+  const digits: number[] = []
+  for (const byte of bytes) {
+    let carry = byte
+    for (let index = 0; index < digits.length; index++) {
+      carry += digits[index] << 8
+      digits[index] = carry % 58
+      carry = Math.floor(carry / 58)
+    }
+    while (carry > 0) {
+      digits.push(carry % 58)
+      carry = Math.floor(carry / 58)
+    }
+  }
+  let result = ""
+  for (let index = 0; index < bytes.length && bytes[index] === 0; index++) result += "1"
+  for (let index = digits.length - 1; index >= 0; index--) result += BASE58_ALPHABET[digits[index]]
+  return result
+}
@@ -0,0 +1,195 @@
+import type { ChainDataProvider } from "@/lib/chain-data-provider"
+import { STAKE_PROGRAM_ID } from "@/lib/solana-rpc"
+
+export const STAKE_POOL_PROGRAM_ID = "SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy"
+export const MARINADE_PROGRAM_ID = "MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD"
+
+// Instructions to these programs count as staking activity
+export const STAKING_PROGRAMS = [STAKE_PROGRAM_ID, STAKE_POOL_PROGRAM_ID, MARINADE_PROGRAM_ID]
+
+// u64::MAX, the deactivation epoch of a stake that has not been deactivated
+const NEVER_DEACTIVATED = "18446744073709551615"
+
+interface LiquidStakingToken {
+  symbol: string
+  mint: string
+  // Stake pool or Marinade state account holding the exchange rate
+  pool: string
+  kind: "spl-stake-pool" | "marinade"
+}
+
+export const LIQUID_STAKING_TOKENS: LiquidStakingToken[] = [
+  {
+    symbol: "mSOL",
+    mint: "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So",
+    pool: "8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC",
+    kind: "marinade",
+  },
+  {
+    symbol: "jitoSOL",
+    mint: "J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn",
+    pool: "Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb",
+    kind: "spl-stake-pool",
+  },
+  {
+    symbol: "bSOL",
+    mint: "bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1",
+    pool: "stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi",
+    kind: "spl-stake-pool",
+  },
+  {
+    symbol: "jupSOL",
+    mint: "jupSoLaHXQiZZTSfEWMTRRgpnyFm8f6sZdosWBjx93v",
+    pool: "8VpRhuxa7sUUepdY3kQiTmX9rS5vx4WgaXiAnXq4KCtr",
+    kind: "spl-stake-pool",
+  },
+  {
+    symbol: "JSOL",
+    mint: "7Q2afV64in6N6SeZsAAB81TJzwDoD6zpqmHkzi9Dcavn",
+    pool: "CtMyWsrUtAwXWiGr9WjHT5fC3p3fgV8cyGpLTo2LJzG1",
+    kind: "spl-stake-pool",
+  },
+]
+
+export interface StakeAccountSummary {
+  address: string
+  // SOL held by the account, including the rent-exempt reserve
+  balance: number
+  // SOL delegated to the validator, 0 when undelegated
+  delegated: number
+  validator: string | null
+  status: "active" | "deactivated" | "undelegated"
+  activationEpoch: number | null
+  deactivationEpoch: number | null
+  staker: string | null
+  withdrawer: string | null
+}
+
+export interface LiquidStakeHolding {
+  symbol: string
+  mint: string
+  amount: number
+  // SOL per token from the pool's on-chain exchange rate, or 1 when it could not be read
+  solPerToken: number
+  rateSource: "pool" | "par"
+  solValue: number
+}
+
+export interface StakingProfile {
+  nativeStakeSol: number
+  liquidStakeSol: number
+  totalStakedSol: number
+  stakeAccounts: StakeAccountSummary[]
+  liquidStakingTokens: LiquidStakeHolding[]
+  // Validators the wallet currently delegates to
+  validators: string[]
+}
+
+function readU64(data: Buffer, offset: number) {
+  return data.readUInt32LE(offset) + data.readUInt32LE(offset + 4) * Math.pow(2, 32)
+}
+
+// SPL stake pool: total_lamports and pool_token_supply follow the fixed-size
+// header. Marinade: msol_price, scaled by 2^32.
+const SPL_TOTAL_LAMPORTS_OFFSET = 258
+const SPL_POOL_TOKEN_SUPPLY_OFFSET = 266
+const MARINADE_MSOL_PRICE_OFFSET = 512
+
+function decodeExchangeRate(token: LiquidStakingToken, account: any): number | null {
+  const encoded = Array.isArray(account?.data) && account.data[1] === "base64" ? account.data[0] : null
+  if (!encoded) return null
+
+  const data = Buffer.from(encoded, "base64")
+  let rate: number
+  if (token.kind === "marinade") {
+    if (data.length < MARINADE_MSOL_PRICE_OFFSET + 8) return null
+    rate = readU64(data, MARINADE_MSOL_PRICE_OFFSET) / Math.pow(2, 32)
+  } else {
+    if (data.length < SPL_POOL_TOKEN_SUPPLY_OFFSET + 8) return null
+    const supply = readU64(data, SPL_POOL_TOKEN_SUPPLY_OFFSET)
+    rate = supply > 0 ? readU64(data, SPL_TOTAL_LAMPORTS_OFFSET) / supply : 0
+  }
+
+  // Pool tokens only appreciate against SOL; anything else means the layout
+  // did not match
+  return rate >= 1 && rate < 10 ? rate : null
+}
+
+async function getExchangeRate(provider: ChainDataProvider, token: LiquidStakingToken) {
+  try {
+    return decodeExchangeRate(token, await provider.getAccountInfo(token.pool))
+  } catch (error) {
+    console.warn(`Failed to read ${token.symbol} exchange rate:`, error)
+    return null
+  }
+}
+
+function toStakeAccountSummary(account: any): StakeAccountSummary {
+  const parsed = account.account?.data?.parsed
+  const meta = parsed?.info?.meta
+  const delegation = parsed?.info?.stake?.delegation
+  const deactivated = delegation && String(delegation.deactivationEpoch) !== NEVER_DEACTIVATED
+
+  return {
+    address: account.pubkey,
+    balance: (account.account?.lamports || 0) / 1e9,
+    delegated: delegation ? Number(delegation.stake) / 1e9 : 0,
+    validator: delegation?.voter || null,
+    status: !delegation ? "undelegated" : deactivated ? "deactivated" : "active",
+    activationEpoch: delegation ? Number(delegation.activationEpoch) : null,
+    deactivationEpoch: deactivated ? Number(delegation.deactivationEpoch) : null,
+    staker: meta?.authorized?.staker || null,
+    withdrawer: meta?.authorized?.withdrawer || null,
+  }
+}
+
+// Mint and UI amount of each parsed token account
+export function tokenAccountHoldings(tokenAccounts: any[]) {
+  return tokenAccounts.map((account) => {
+    const info = account.account?.data?.parsed?.info
+    return { mint: info?.mint as string, amount: Number(info?.tokenAmount?.uiAmount) || 0 }
+  })
+}
+
+// Native stake the wallet controls plus liquid staking tokens it holds, both in
+// SOL. Token holdings are passed in so callers can reuse what they fetched.
+export async function getStakingProfile(
+  provider: ChainDataProvider,
+  walletAddress: string,
+  holdings: { mint: string; amount: number }[],
+): Promise<StakingProfile> {
+  const stakeAccounts = (await provider.getStakeAccounts(walletAddress)).map(toStakeAccountSummary)
+
+  const liquidStakingTokens = await Promise.all(
+    LIQUID_STAKING_TOKENS.map(async (token) => {
+      const amount = holdings
+        .filter((holding) => holding.mint === token.mint)
+        .reduce((total, holding) => total + holding.amount, 0)
+      if (amount <= 0) return null
+
+      const rate = await getExchangeRate(provider, token)
+      return {
+        symbol: token.symbol,
+        mint: token.mint,
+        amount,
+        solPerToken: rate ?? 1,
+        rateSource: rate === null ? "par" : "pool",
+        solValue: amount * (rate ?? 1),
+      } as LiquidStakeHolding
+    }),
+  )
+  const heldTokens = liquidStakingTokens.filter((holding): holding is LiquidStakeHolding => holding !== null)
+
+  const active = stakeAccounts.filter((account) => account.status === "active")
+  const nativeStakeSol = active.reduce((total, account) => total + account.delegated, 0)
+  const liquidStakeSol = heldTokens.reduce((total, holding) => total + holding.solValue, 0)
+
+  return {
+    nativeStakeSol,
+    liquidStakeSol,
+    totalStakedSol: nativeStakeSol + liquidStakeSol,
+    stakeAccounts,
+    liquidStakingTokens: heldTokens,
+    validators: Array.from(new Set(active.map((account) => account.validator as string))),
+  }
+}
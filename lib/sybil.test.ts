@@ -0,0 +1,101 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import type { EnhancedTransaction } from "@/lib/chain-data-provider"
+import { FixtureProvider } from "@/lib/fixture-provider"
+import { findSybilClusters } from "@/lib/sybil"
+
+const SENDER = "SenderAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA"
+const DAY = 24 * 60 * 60
+
+function transaction(signature: string, slot: number, feePayer: string, transfers: Partial<EnhancedTransaction>) {
+  return {
+    signature,
+    slot,
+    timestamp: 1700000000 + slot * DAY,
+    fee: 5000,
+    feePayer,
+    transactionError: null,
+    instructions: [{ programId: "11111111111111111111111111111111", accounts: [], data: "" }],
+    events: {},
+    nativeTransfers: [],
+    tokenTransfers: [],
+    ...transfers,
+  }
+}
+
+// Writes each wallet's history, newest first, as FixtureProvider expects it
+function writeHistories(dir: string, histories: Record<string, ReturnType<typeof transaction>[]>) {
+  const write = (method: string, key: string, value: any) => {
+    mkdirSync(path.join(dir, method), { recursive: true })
+    writeFileSync(path.join(dir, method, `${key}.json`), JSON.stringify(value))
+  }
+  Object.keys(histories).forEach((address) => {
+    const history = [...histories[address]].sort((a, b) => b.slot - a.slot)
+    write("getTransactionHistory", address, history)
+    write(
+      "getSignaturesForAddress",
+      address,
+      history.map((tx) => ({ signature: tx.signature, slot: tx.slot, blockTime: tx.timestamp })),
+    )
+    history.forEach((tx) => write("parseTransactions", tx.signature, tx))
+  })
+}
+
+// Each wallet is funded by its own funder days apart, then sent tokens by SENDER
+function receivingHistory(wallet: string, funder: string, slot: number) {
+  return [
+    transaction(`fund${slot}`, slot, funder, {
+      nativeTransfers: [{ fromUserAccount: funder, toUserAccount: wallet, amount: slot * 1000000 }],
+    }),
+    transaction(`airdrop${slot}`, 100 + slot, SENDER, {
+      tokenTransfers: [{ fromUserAccount: SENDER, toUserAccount: wallet, mint: "Mint", tokenAmount: 10 }],
+    }),
+  ]
+}
+
+test("wallets that only received from the same sender are not linked", async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "sybil-"))
+  const first = "WaLLetoneBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB"
+  const second = "WaLLettwoCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC"
+  try {
+    writeHistories(dir, {
+      [first]: receivingHistory(first, "FunderoneDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD", 1),
+      [second]: receivingHistory(second, "FundertwoEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEE", 5),
+    })
+
+    const analysis = await findSybilClusters([first, second], new FixtureProvider(dir))
+
+    assert.equal(analysis.failed.length, 0)
+    assert.equal(analysis.clusters.length, 0)
+    assert.equal(analysis.links.length, 0)
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+test("wallets whose own transfers were paid by the same fee payer are linked", async () => {
+  const dir = mkdtempSync(path.join(tmpdir(), "sybil-"))
+  const first = "WaLLetoneBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB"
+  const second = "WaLLettwoCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC"
+  const sending = (wallet: string, slot: number) =>
+    transaction(`send${slot}`, 100 + slot, SENDER, {
+      signers: [SENDER, wallet],
+      tokenTransfers: [{ fromUserAccount: wallet, toUserAccount: `Exit${slot}`, mint: "Mint", tokenAmount: 10 }],
+    })
+  try {
+    writeHistories(dir, {
+      [first]: [...receivingHistory(first, "FunderoneDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDDD", 1), sending(first, 1)],
+      [second]: [...receivingHistory(second, "FundertwoEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEEE", 5), sending(second, 5)],
+    })
+
+    const analysis = await findSybilClusters([first, second], new FixtureProvider(dir))
+
+    assert.equal(analysis.clusters.length, 1)
+    assert.ok(analysis.links[0].evidence.some((evidence) => evidence.signal === "shared-fee-payer"))
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
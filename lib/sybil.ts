@@ -0,0 +1,346 @@
+import { type ChainDataProvider, type EnhancedTransaction, getChainDataProvider } from "@/lib/chain-data-provider"
+import {
+  type Funding,
+  collectTransactionHistory,
+  findFirstFunding,
+  getOldestTransactions,
+} from "@/lib/transaction-history"
+import { getEntityCategory } from "@/lib/entity-registry"
+import { COMPUTE_BUDGET_PROGRAM_ID } from "@/lib/behavior"
+import { isValidAddress } from "@/lib/solana"
+import { SYSTEM_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@/lib/solana-rpc"
+
+// Addresses accepted in one clustering request; every pair is compared
+export const MAX_SYBIL_ADDRESSES = 200
+
+const SYBIL_CONCURRENCY = 4
+// Earliest transactions give the funding source and the setup sequence,
+// recent ones the fee payers and where funds were swept to
+const EARLY_TRANSACTIONS = 10
+const RECENT_TRANSACTIONS = 100
+// Setup sequences shorter than this are too generic to compare
+const MIN_SEQUENCE_LENGTH = 3
+const FUNDING_WINDOW_SECONDS = 10 * 60
+// Pair score at which two wallets are linked into the same cluster
+const LINK_THRESHOLD = 3
+const MAX_CLUSTER_EVIDENCE = 50
+
+// Transactions made only of these are plain transfers. Swaps and other
+// program calls move funds through shared pool accounts, which would link
+// every user of the same pool.
+const TRANSFER_PROGRAMS = [
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL",
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr",
+]
+
+export type SybilSignal =
+  | "shared-funder"
+  | "shared-fee-payer"
+  | "funding-time"
+  | "identical-sequence"
+  | "shared-destination"
+
+const SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  "shared-funder": 3,
+  "shared-fee-payer": 3,
+  "shared-destination": 3,
+  "identical-sequence": 2,
+  "funding-time": 1,
+}
+
+export interface SybilEvidence {
+  signal: SybilSignal
+  weight: number
+  addresses: [string, string]
+  // Funder, fee payer or destination the pair has in common
+  counterparty?: string
+  signatures: string[]
+  detail: string
+}
+
+export interface SybilLink {
+  source: string
+  target: string
+  score: number
+  evidence: SybilEvidence[]
+}
+
+export interface SybilCluster {
+  id: number
+  addresses: string[]
+  // Number of linked pairs behind each signal
+  signals: Partial<Record<SybilSignal, number>>
+  evidence: SybilEvidence[]
+}
+
+export interface SybilAnalysis {
+  clusters: SybilCluster[]
+  // Links at or above the threshold; weaker pairs are left out
+  links: SybilLink[]
+  unclustered: string[]
+  failed: { address: string; error: string }[]
+}
+
+interface WalletFootprint {
+  address: string
+  funding: Funding | null
+  // Counterparty -> a signature that shows it
+  feePayers: Map<string, string>
+  destinations: Map<string, string>
+  sequence: { key: string; signatures: string[] } | null
+}
+
+// Known entities (exchanges, programs, bridges) are shared by unrelated
+// wallets, so they say nothing about common control
+function isSharedInfrastructure(address: string) {
+  return getEntityCategory(address) !== null
+}
+
+// Whether the wallet signed or sent funds in the transaction. Anyone can pay
+// the fee to send a wallet an airdrop, so receiving alone says nothing.
+function actedIn(tx: EnhancedTransaction, address: string) {
+  if ((tx.signers || []).includes(address)) return true
+  return [...(tx.nativeTransfers || []), ...(tx.tokenTransfers || [])].some(
+    (transfer: any) => transfer.fromUserAccount === address,
+  )
+}
+
+async function getFootprint(provider: ChainDataProvider, address: string): Promise<WalletFootprint> {
+  const [early, recent] = await Promise.all([
+    getOldestTransactions(provider, address, EARLY_TRANSACTIONS),
+    collectTransactionHistory(provider, address, { maxTransactions: RECENT_TRANSACTIONS }),
+  ])
+
+  const funding = findFirstFunding(early, address)
+
+  const feePayers = new Map<string, string>()
+  const destinations = new Map<string, string>()
+  const seen = new Set<string>()
+  const transactions: EnhancedTransaction[] = [...early, ...recent]
+  transactions.forEach((tx) => {
+    if (seen.has(tx.signature)) return
+    seen.add(tx.signature)
+
+    if (tx.feePayer && tx.feePayer !== address && !feePayers.has(tx.feePayer) && actedIn(tx, address)) {
+      feePayers.set(tx.feePayer, tx.signature)
+    }
+    const plainTransfer = (tx.instructions || []).every((instruction: any) =>
+      TRANSFER_PROGRAMS.includes(instruction.programId),
+    )
+    if (!plainTransfer) return
+
+    const outgoing = [...(tx.nativeTransfers || []), ...(tx.tokenTransfers || [])].filter(
+      (transfer: any) => transfer.fromUserAccount === address && transfer.toUserAccount !== address,
+    )
+    outgoing.forEach((transfer: any) => {
+      if (transfer.toUserAccount && !destinations.has(transfer.toUserAccount)) {
+        destinations.set(transfer.toUserAccount, tx.signature)
+      }
+    })
+  })
+
+  // Programs touched by each setup transaction, in order
+  const steps = early.map((tx) =>
+    Array.from(
+      new Set<string>(
+        (tx.instructions || [])
+          .map((instruction: any) => instruction.programId)
+          .filter((programId: string) => programId && programId !== COMPUTE_BUDGET_PROGRAM_ID),
+      ),
+    )
+      .sort()
+      .join(","),
+  )
+  const sequence =
+    steps.length >= MIN_SEQUENCE_LENGTH
+      ? { key: steps.join(" > "), signatures: early.map((tx) => tx.signature) }
+      : null
+
+  return { address, funding, feePayers, destinations, sequence }
+}
+
+async function getFootprints(provider: ChainDataProvider, addresses: string[]) {
+  const footprints: WalletFootprint[] = []
+  const failed: SybilAnalysis["failed"] = []
+  let next = 0
+
+  const loadNext = async (): Promise<void> => {
+    const address = addresses[next++]
+    if (address === undefined) return
+
+    if (!isValidAddress(address)) {
+      failed.push({ address, error: "Invalid wallet address format" })
+    } else {
+      try {
+        footprints.push(await getFootprint(provider, address))
+      } catch (error) {
+        console.warn(`Failed to load history for ${address}:`, error)
+        failed.push({ address, error: error instanceof Error ? error.message : "Failed to load history" })
+      }
+    }
+    return loadNext()
+  }
+
+  await Promise.all(Array.from({ length: Math.min(SYBIL_CONCURRENCY, addresses.length) }, () => loadNext()))
+  return { footprints, failed }
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+// Pairwise evidence from every signal, keyed by the sorted address pair
+function collectEvidence(footprints: WalletFootprint[]) {
+  const inSet = new Set(footprints.map((footprint) => footprint.address))
+  const pairs = new Map<string, SybilEvidence[]>()
+  const add = (a: string, b: string, evidence: Omit<SybilEvidence, "addresses" | "weight"> & { weight?: number }) => {
+    if (a === b) return
+    const addresses: [string, string] = a < b ? [a, b] : [b, a]
+    const key = addresses.join(":")
+    pairs.set(key, [
+      ...(pairs.get(key) || []),
+      { ...evidence, weight: evidence.weight ?? SIGNAL_WEIGHTS[evidence.signal], addresses },
+    ])
+  }
+
+  // Wallets sharing a counterparty; a counterparty that is itself in the set
+  // links directly to the wallets it funded, paid for or received from
+  const groupBy = (signal: SybilSignal, entries: (footprint: WalletFootprint) => [string, string][], verb: string) => {
+    const groups = new Map<string, { address: string; signature: string }[]>()
+    footprints.forEach((footprint) => {
+      entries(footprint).forEach(([counterparty, signature]) => {
+        if (isSharedInfrastructure(counterparty)) return
+        groups.set(counterparty, [...(groups.get(counterparty) || []), { address: footprint.address, signature }])
+      })
+    })
+
+    groups.forEach((members, counterparty) => {
+      if (inSet.has(counterparty)) {
+        members.forEach((member) =>
+          add(counterparty, member.address, {
+            signal,
+            counterparty,
+            signatures: [member.signature],
+            detail: `${shortAddress(member.address)} ${verb} ${shortAddress(counterparty)}, also in the set`,
+          }),
+        )
+      }
+      for (let i = 0; i < members.length; i++) {
+        for (let j = i + 1; j < members.length; j++) {
+          add(members[i].address, members[j].address, {
+            signal,
+            counterparty,
+            signatures: [members[i].signature, members[j].signature],
+            detail: `Both ${verb} ${shortAddress(counterparty)}`,
+          })
+        }
+      }
+    })
+  }
+
+  groupBy("shared-funder", (f) => (f.funding ? [[f.funding.funder, f.funding.signature]] : []), "funded by")
+  groupBy("shared-fee-payer", (f) => Array.from(f.feePayers.entries()), "had fees paid by")
+  groupBy("shared-destination", (f) => Array.from(f.destinations.entries()), "sent funds to")
+
+  // Funded within minutes of each other; the same amount makes it stronger
+  const funded = footprints
+    .filter((footprint) => footprint.funding)
+    .sort((a, b) => a.funding!.timestamp - b.funding!.timestamp)
+  funded.forEach((footprint, index) => {
+    for (let j = index + 1; j < funded.length; j++) {
+      const other = funded[j]
+      const gap = other.funding!.timestamp - footprint.funding!.timestamp
+      if (gap > FUNDING_WINDOW_SECONDS) break
+      const sameAmount = Math.abs(other.funding!.amount - footprint.funding!.amount) < 1e-6
+      add(footprint.address, other.address, {
+        signal: "funding-time",
+        weight: sameAmount ? 2 : 1,
+        signatures: [footprint.funding!.signature, other.funding!.signature],
+        detail: `First funded ${gap}s apart${sameAmount ? `, both with ${footprint.funding!.amount} SOL` : ""}`,
+      })
+    }
+  })
+
+  // Same setup steps in the same order
+  const sequences = new Map<string, WalletFootprint[]>()
+  footprints.forEach((footprint) => {
+    if (footprint.sequence) {
+      sequences.set(footprint.sequence.key, [...(sequences.get(footprint.sequence.key) || []), footprint])
+    }
+  })
+  sequences.forEach((members) => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        add(members[i].address, members[j].address, {
+          signal: "identical-sequence",
+          signatures: [members[i].sequence!.signatures[0], members[j].sequence!.signatures[0]],
+          detail: `Identical first ${members[i].sequence!.signatures.length} transactions (same programs, same order)`,
+        })
+      }
+    }
+  })
+
+  return pairs
+}
+
+// Groups wallets likely controlled by the same operator. Pairs are scored by
+// the signals they share and linked at LINK_THRESHOLD; clusters are the
+// connected components of those links.
+export async function findSybilClusters(
+  addresses: string[],
+  provider: ChainDataProvider = getChainDataProvider(),
+): Promise<SybilAnalysis> {
+  const { footprints, failed } = await getFootprints(provider, addresses)
+  const pairs = collectEvidence(footprints)
+
+  const links: SybilLink[] = []
+  pairs.forEach((evidence) => {
+    const score = evidence.reduce((total, item) => total + item.weight, 0)
+    if (score >= LINK_THRESHOLD) {
+      links.push({ source: evidence[0].addresses[0], target: evidence[0].addresses[1], score, evidence })
+    }
+  })
+
+  // Union-find over the links
+  const parent = new Map<string, string>()
+  const find = (address: string): string => {
+    const root = parent.get(address)
+    if (!root || root === address) return address
+    const top = find(root)
+    parent.set(address, top)
+    return top
+  }
+  links.forEach((link) => parent.set(find(link.source), find(link.target)))
+
+  const members = new Map<string, string[]>()
+  footprints.forEach((footprint) => {
+    const root = find(footprint.address)
+    members.set(root, [...(members.get(root) || []), footprint.address])
+  })
+
+  const groups = Array.from(members.values())
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length)
+  const clusters = groups.map((group, index) => {
+    const inCluster = new Set(group)
+    const evidence = links
+      .filter((link) => inCluster.has(link.source))
+      .sort((a, b) => b.score - a.score)
+      .reduce<SybilEvidence[]>((all, link) => [...all, ...link.evidence], [])
+    const signals: SybilCluster["signals"] = {}
+    evidence.forEach((item) => (signals[item.signal] = (signals[item.signal] || 0) + 1))
+    return { id: index + 1, addresses: group, signals, evidence: evidence.slice(0, MAX_CLUSTER_EVIDENCE) }
+  })
+
+  const clustered = new Set(groups.reduce<string[]>((all, group) => [...all, ...group], []))
+  return {
+    clusters,
+    links,
+    unclustered: footprints.map((footprint) => footprint.address).filter((address) => !clustered.has(address)),
+    failed,
+  }
+}
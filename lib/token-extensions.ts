@@ -0,0 +1,118 @@
+// Token-2022 mint extensions as the RPC's jsonParsed encoding reports them
+// (`info.extensions`), with the ones that let someone other than the holder
+// take, block or tax their tokens flagged as risks.
+
+export type TokenProgram = "spl-token" | "spl-token-2022"
+
+export interface TokenExtension {
+  // jsonParsed extension name, e.g. "transferFeeConfig"
+  type: string
+  label: string
+  // Current settings in plain words
+  detail: string
+  // Why the extension is dangerous to holders; null when it is not
+  risk: string | null
+}
+
+// A transfer fee from here up is treated as a honeypot tax
+export const HIGH_TRANSFER_FEE_BPS = 500
+
+const EXTENSION_LABELS: Record<string, string> = {
+  transferFeeConfig: "Transfer fee",
+  transferHook: "Transfer hook",
+  permanentDelegate: "Permanent delegate",
+  defaultAccountState: "Default account state",
+  nonTransferable: "Non-transferable",
+  interestBearingConfig: "Interest-bearing",
+  confidentialTransferMint: "Confidential transfers",
+  confidentialTransferFeeConfig: "Confidential transfer fees",
+  mintCloseAuthority: "Mint close authority",
+  metadataPointer: "Metadata pointer",
+  tokenMetadata: "Token metadata",
+  groupPointer: "Group pointer",
+  groupMemberPointer: "Group member pointer",
+  pausableConfig: "Pausable",
+  scaledUiAmountConfig: "Scaled UI amount",
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function describeExtension(type: string, state: any): Pick<TokenExtension, "detail" | "risk"> {
+  switch (type) {
+    case "transferFeeConfig": {
+      // The newer fee is the one in effect, or scheduled to be from its epoch
+      const fee = state.newerTransferFee || state.olderTransferFee || {}
+      const basisPoints = Number(fee.transferFeeBasisPoints) || 0
+      const adjustable = state.transferFeeConfigAuthority ? ", adjustable by its authority" : ""
+      return {
+        detail: `${basisPoints / 100}% of every transfer${adjustable}`,
+        risk:
+          basisPoints >= HIGH_TRANSFER_FEE_BPS
+            ? `Transfer fee of ${basisPoints / 100}% is taken from every transfer, including sells`
+            : null,
+      }
+    }
+    case "transferHook":
+      return state.programId
+        ? {
+            detail: `Every transfer calls program ${shortAddress(state.programId)}`,
+            risk: "Transfer hook program can block or tax transfers, e.g. to stop holders from selling",
+          }
+        : { detail: "No hook program set", risk: null }
+    case "permanentDelegate":
+      return state.delegate
+        ? {
+            detail: `${shortAddress(state.delegate)} can move or burn tokens from any account`,
+            risk: "Permanent delegate can transfer or burn any holder's tokens without approval",
+          }
+        : { detail: "No delegate set", risk: null }
+    case "defaultAccountState":
+      return {
+        detail: `New token accounts start ${state.accountState || "initialized"}`,
+        risk: null,
+      }
+    case "nonTransferable":
+      return { detail: "Tokens cannot be transferred once received", risk: null }
+    case "interestBearingConfig":
+      return { detail: `Displayed balances accrue ${(Number(state.currentRate) || 0) / 100}% a year`, risk: null }
+    case "confidentialTransferMint":
+      return { detail: "Balances and transfer amounts can be hidden", risk: null }
+    case "mintCloseAuthority":
+      return {
+        detail: state.closeAuthority
+          ? `${shortAddress(state.closeAuthority)} can close the mint`
+          : "No close authority",
+        risk: null,
+      }
+  }
+  return { detail: "", risk: null }
+}
+
+// Active extensions of a jsonParsed mint account; empty for classic SPL mints
+export function parseMintExtensions(extensions: any[] | undefined): TokenExtension[] {
+  return (extensions || []).map((extension) => {
+    const type: string = extension.extension
+    return {
+      type,
+      label: EXTENSION_LABELS[type] || type,
+      ...describeExtension(type, extension.state || {}),
+    }
+  })
+}
+
+// The Token-2022 metadata extension, for mints that keep their name and URI
+// on the mint itself instead of in Metaplex metadata
+export function getEmbeddedMetadata(extensions: any[] | undefined) {
+  const metadata = (extensions || []).find((extension) => extension.extension === "tokenMetadata")
+  if (!metadata?.state) return null
+
+  return {
+    name: (metadata.state.name as string) || "",
+    symbol: (metadata.state.symbol as string) || "",
+    uri: (metadata.state.uri as string) || null,
+    // Metadata with an update authority can still be changed
+    isMutable: !!metadata.state.updateAuthority,
+  }
+}
@@ -0,0 +1,144 @@
+import type { ChainDataProvider } from "@/lib/chain-data-provider"
+import { getOldestHistory } from "@/lib/transaction-history"
+import { findInitializedMints } from "@/lib/deployer-profile"
+import {
+  type TokenExtension,
+  type TokenProgram,
+  getEmbeddedMetadata,
+  parseMintExtensions,
+} from "@/lib/token-extensions"
+
+// Oldest mint transactions searched for the one that initialized it
+const DEPLOYER_SEARCH_TRANSACTIONS = 5
+
+export interface TokenInfo {
+  mintAddress: string
+  name: string
+  symbol: string
+  decimals: number
+  supply: string
+  mintAuthority: string | null
+  freezeAuthority: string | null
+  metadataUri: string | null
+  deployer: string | null
+  // Where the deployer came from: the first metadata creator, or the fee
+  // payer of the mint's oldest transaction when there is no creator
+  deployerSource: "metadata" | "first-transaction" | null
+  isMutable: boolean
+  tokenProgram: TokenProgram
+  // Token-2022 extensions active on the mint
+  extensions: TokenExtension[]
+  // Extensions that let someone take, block or tax holders' tokens
+  risks: string[]
+}
+
+// Supply, decimals, authorities, metadata and deployer of a token mint
+export async function getTokenInfo(provider: ChainDataProvider, mintAddress: string): Promise<TokenInfo> {
+  // Mint account first: it is the most reliable source and fails fast for a non-mint
+  const mintInfo = await getMintInfo(provider, mintAddress)
+  const tokenMetadata = await getTokenMetadata(provider, mintAddress)
+  // Token-2022 mints may carry their metadata in an extension instead
+  const embedded = getEmbeddedMetadata(mintInfo.extensions)
+
+  let deployer = tokenMetadata.creator
+  let deployerSource: TokenInfo["deployerSource"] = deployer ? "metadata" : null
+  if (!deployer) {
+    deployer = await getFirstFeePayer(provider, mintAddress)
+    if (deployer) deployerSource = "first-transaction"
+  }
+
+  const extensions = parseMintExtensions(mintInfo.extensions)
+
+  return {
+    mintAddress,
+    name: tokenMetadata.name || embedded?.name || "Unknown",
+    symbol: tokenMetadata.symbol || embedded?.symbol || "Unknown",
+    decimals: mintInfo.decimals || tokenMetadata.decimals || 0,
+    supply: mintInfo.supply || "0",
+    // The mint account just read is the truth; the indexer can lag behind it
+    mintAuthority: mintInfo.mintAuthority !== undefined ? mintInfo.mintAuthority : tokenMetadata.mintAuthority || null,
+    freezeAuthority:
+      mintInfo.freezeAuthority !== undefined ? mintInfo.freezeAuthority : tokenMetadata.freezeAuthority || null,
+    metadataUri: tokenMetadata.metadataUri || embedded?.uri || null,
+    deployer,
+    deployerSource,
+    isMutable: tokenMetadata.isMutable || embedded?.isMutable || false,
+    tokenProgram: mintInfo.tokenProgram,
+    extensions,
+    risks: extensions.map((extension) => extension.risk).filter((risk): risk is string => risk !== null),
+  }
+}
+
+async function getMintInfo(provider: ChainDataProvider, mintAddress: string) {
+  try {
+    const account = await provider.getAccountInfo(mintAddress)
+
+    if (!account?.data?.parsed?.info) {
+      throw new Error("Invalid contract address or token not found")
+    }
+
+    const mintInfo = account.data.parsed.info
+    // Null is a renounced authority; undefined means the field was not parsed
+    const authority = (value: unknown) => (value === undefined ? undefined : (value as string) || null)
+
+    return {
+      decimals: mintInfo.decimals,
+      supply: mintInfo.supply,
+      mintAuthority: authority(mintInfo.mintAuthority),
+      freezeAuthority: authority(mintInfo.freezeAuthority),
+      tokenProgram: (account.data.program === "spl-token-2022" ? "spl-token-2022" : "spl-token") as TokenProgram,
+      extensions: mintInfo.extensions as any[] | undefined,
+    }
+  } catch (error) {
+    console.error("Error fetching mint info:", error)
+    throw new Error(`Failed to fetch contract info: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+async function getTokenMetadata(provider: ChainDataProvider, mintAddress: string) {
+  try {
+    const tokenData = (await provider.getTokenMetadata(mintAddress)) || {}
+    const data = tokenData.onChainMetadata?.metadata?.data
+    const creators: any[] = data?.creators || []
+
+    return {
+      name: data?.name || "",
+      symbol: data?.symbol || "",
+      mintAuthority: tokenData.account?.mintAuthority,
+      freezeAuthority: tokenData.account?.freezeAuthority,
+      metadataUri: data?.uri,
+      isMutable: tokenData.onChainMetadata?.metadata?.isMutable || false,
+      decimals: tokenData.account?.decimals || 0,
+      creator: (creators[0]?.address as string | undefined) || null,
+    }
+  } catch (error) {
+    console.warn("Error fetching token metadata (non-fatal):", error)
+    return {
+      name: "",
+      symbol: "",
+      mintAuthority: null,
+      freezeAuthority: null,
+      metadataUri: null,
+      isMutable: false,
+      decimals: 0,
+      creator: null,
+    }
+  }
+}
+
+// The mint's initialization is among its oldest transactions, paid for by
+// whoever deployed it. Tokens launched without creators in their metadata
+// (most launchpad tokens) are traced this way. A mint with more history than
+// we page, or whose oldest transactions do not initialize it, has no deployer
+// rather than the payer of some early trade.
+async function getFirstFeePayer(provider: ChainDataProvider, mintAddress: string): Promise<string | null> {
+  try {
+    const { transactions, complete } = await getOldestHistory(provider, mintAddress, DEPLOYER_SEARCH_TRANSACTIONS)
+    if (!complete) return null
+    const initialization = transactions.find((tx) => findInitializedMints([tx], tx.feePayer).has(mintAddress))
+    return initialization?.feePayer || null
+  } catch (error) {
+    console.warn("Error finding mint deployer (non-fatal):", error)
+    return null
+  }
+}
@@ -0,0 +1,117 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { judgeLaunch } from "@/lib/deployer-profile"
+import { type TokenRiskAnalysis, calculateTokenRiskScore } from "@/lib/token-risk"
+
+const NOW = 1700000000
+const DAY = 24 * 60 * 60
+
+function analysis(changes: Partial<TokenRiskAnalysis> = {}): TokenRiskAnalysis {
+  return {
+    mintAddress: "MintAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+    mintAuthorityActive: false,
+    freezeAuthorityActive: false,
+    isMutable: false,
+    top10Share: 0.2,
+    largestHolderShare: 0.05,
+    deployer: "DepLoyerBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB",
+    deployerFlag: null,
+    deployerShare: 0,
+    deployerOtherLaunches: 0,
+    deployerFailedLaunches: 0,
+    deployerUnknownLaunches: 0,
+    serialLauncher: false,
+    priceUsd: 0.5,
+    priceChecked: true,
+    liquidityPoolShare: 0.3,
+    extensionRisks: [],
+    ...changes,
+  }
+}
+
+function launch(changes: Partial<Parameters<typeof judgeLaunch>[0]> = {}) {
+  return {
+    mint: "MintAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+    signature: "sig",
+    createdAt: NOW - 30 * DAY,
+    name: null,
+    symbol: null,
+    supply: 1000000,
+    mintAuthorityActive: false,
+    freezeAuthorityActive: false,
+    priceUsd: null,
+    priceChecked: true,
+    deployerReceived: 1000,
+    deployerSold: 0,
+    ...changes,
+  }
+}
+
+function factorImpact(score: ReturnType<typeof calculateTokenRiskScore>, id: string) {
+  return score.factors.find((scored) => scored.id === id)?.impact
+}
+
+test("a renounced, traded and spread-out token scores low risk", () => {
+  const score = calculateTokenRiskScore(analysis())
+
+  assert.equal(score.riskLevel, "low")
+  assert.ok(score.factors.every((scored) => scored.impact >= 0))
+})
+
+test("active authorities and concentrated holders score high risk", () => {
+  const score = calculateTokenRiskScore(
+    analysis({ mintAuthorityActive: true, freezeAuthorityActive: true, isMutable: true, top10Share: 0.8 }),
+  )
+
+  assert.equal(score.riskLevel, "high")
+  assert.equal(factorImpact(score, "mint-authority"), -25)
+  assert.equal(factorImpact(score, "holder-concentration"), -20)
+})
+
+test("the serial-launcher penalty applies when launch prices could not be checked", () => {
+  const score = calculateTokenRiskScore(
+    analysis({ deployerOtherLaunches: 4, deployerFailedLaunches: 0, deployerUnknownLaunches: 4, serialLauncher: true }),
+  )
+
+  assert.equal(factorImpact(score, "deployer-launches"), -20)
+})
+
+test("only launches known to have failed add to the launch penalty", () => {
+  const score = calculateTokenRiskScore(
+    analysis({ deployerOtherLaunches: 2, deployerFailedLaunches: 1, deployerUnknownLaunches: 1 }),
+  )
+
+  assert.equal(factorImpact(score, "deployer-launches"), -10)
+})
+
+test("the launch penalty is capped", () => {
+  const score = calculateTokenRiskScore(
+    analysis({ deployerOtherLaunches: 9, deployerFailedLaunches: 9, serialLauncher: true }),
+  )
+
+  assert.equal(factorImpact(score, "deployer-launches"), -40)
+})
+
+test("a failed price lookup leaves liquidity neutral", () => {
+  const score = calculateTokenRiskScore(analysis({ priceUsd: null, priceChecked: false, liquidityPoolShare: 0 }))
+
+  assert.equal(factorImpact(score, "liquidity"), 0)
+})
+
+test("launches are judged by market, age and what the deployer sold", () => {
+  assert.equal(judgeLaunch(launch({ priceUsd: 0.01 }), NOW).status, "active")
+  assert.equal(judgeLaunch(launch({ createdAt: NOW - DAY / 2 }), NOW).status, "new")
+  assert.equal(judgeLaunch(launch({ priceChecked: false }), NOW).status, "unknown")
+  assert.equal(judgeLaunch(launch({ deployerSold: 600 }), NOW).status, "rugged")
+  assert.equal(judgeLaunch(launch({ deployerSold: 100 }), NOW).status, "abandoned")
+})
+
+test("a rugged launch explains itself", () => {
+  const { reasons } = judgeLaunch(launch({ deployerSold: 1000, mintAuthorityActive: true }), NOW)
+
+  assert.deepEqual(reasons, [
+    "No longer trades",
+    "Deployer sold 100% of the tokens it received",
+    "Mint authority still active",
+  ])
+})
@@ -0,0 +1,267 @@
+import type { ChainDataProvider } from "@/lib/chain-data-provider"
+import { getEntity } from "@/lib/entity-registry"
+import { FLAGGED_CATEGORIES } from "@/lib/entities"
+import { type DeployerProfile, getDeployerProfile } from "@/lib/deployer-profile"
+import { getActiveFlagSets } from "@/lib/flag-lists"
+import { type HolderDistribution, getHolderDistribution } from "@/lib/holders"
+import { lookupTokenPrices } from "@/lib/prices"
+import type { RiskLevel, ScoredFactor } from "@/lib/scoring-model"
+import type { TokenInfo } from "@/lib/token-info"
+
+// Facts about a mint the risk score is computed from
+export interface TokenRiskAnalysis {
+  mintAddress: string
+  mintAuthorityActive: boolean
+  freezeAuthorityActive: boolean
+  isMutable: boolean
+  // Share of supply held by the largest holders outside pools and burns;
+  // null when holders are unknown
+  top10Share: number | null
+  largestHolderShare: number | null
+  deployer: string | null
+  // Why the deployer is flagged, null when it is not
+  deployerFlag: string | null
+  // Share of supply held by the deployer and wallets it funded
+  deployerShare: number | null
+  // Other tokens the deployer launched, how many of them were abandoned or
+  // rugged, and how many could not be judged because their price lookup
+  // failed; null when its history could not be read
+  deployerOtherLaunches: number | null
+  deployerFailedLaunches: number | null
+  deployerUnknownLaunches: number | null
+  serialLauncher: boolean
+  // A market price means the token can be traded somewhere
+  priceUsd: number | null
+  // False when the price lookup failed, so a missing price says nothing
+  priceChecked: boolean
+  liquidityPoolShare: number | null
+  extensionRisks: string[]
+}
+
+export interface TokenRiskScore {
+  // 0-100, higher is safer, like the wallet reputability score
+  score: number
+  riskLevel: RiskLevel
+  factors: ScoredFactor[]
+  analysis: TokenRiskAnalysis
+}
+
+// The score with the holder distribution and deployer profile behind it, so
+// the dashboard can show them without computing them a second time
+export interface TokenRiskReport extends TokenRiskScore {
+  holders: HolderDistribution | null
+  deployerProfile: DeployerProfile | null
+}
+
+const BASE_SCORE = 50
+// Scores at or above these are low and medium risk
+const LOW_RISK_SCORE = 70
+const MEDIUM_RISK_SCORE = 40
+
+// Top-10 shares above these read as concentrated and highly concentrated
+const CONCENTRATED_SHARE = 0.3
+const HIGHLY_CONCENTRATED_SHARE = 0.5
+// A deployer still holding more than this can dump on holders
+const DEPLOYER_HOLDING_SHARE = 0.1
+// Per abandoned or rugged earlier launch, and for launching many tokens
+const FAILED_LAUNCH_PENALTY = 10
+const SERIAL_LAUNCHER_PENALTY = 20
+const LAUNCH_HISTORY_CAP = 40
+const EXTENSION_RISK_PENALTY = 15
+const EXTENSION_RISK_CAP = 40
+
+function percent(share: number) {
+  return `${(share * 100).toFixed(1)}%`
+}
+
+function factor(
+  id: string,
+  name: string,
+  impact: number,
+  type: ScoredFactor["type"],
+  description: string,
+): ScoredFactor {
+  return { id, name, impact, type, description, evidence: [] }
+}
+
+// Each factor with its weight and explanation. A rug needs either a way to
+// take value (authorities, extensions, a large holder) or a market that is
+// not there, so those weigh most.
+const FACTORS: ((analysis: TokenRiskAnalysis) => ScoredFactor)[] = [
+  (a) =>
+    a.mintAuthorityActive
+      ? factor("mint-authority", "Mint Authority", -25, "negative", "Mint authority is active: supply can be inflated")
+      : factor("mint-authority", "Mint Authority", 10, "positive", "Mint authority renounced: supply is fixed"),
+  (a) =>
+    a.freezeAuthorityActive
+      ? factor(
+          "freeze-authority",
+          "Freeze Authority",
+          -20,
+          "negative",
+          "Freeze authority is active: holders' accounts can be frozen",
+        )
+      : factor("freeze-authority", "Freeze Authority", 5, "positive", "Freeze authority renounced"),
+  (a) =>
+    a.isMutable
+      ? factor("metadata", "Metadata Mutability", -10, "negative", "Name, symbol and image can still be changed")
+      : factor("metadata", "Metadata Mutability", 5, "positive", "Metadata is immutable"),
+  (a) => {
+    if (a.top10Share === null) {
+      return factor("holder-concentration", "Holder Concentration", 0, "neutral", "Holder distribution unavailable")
+    }
+    const description =
+      `Top 10 holders hold ${percent(a.top10Share)} of supply` +
+      (a.largestHolderShare !== null ? `, the largest ${percent(a.largestHolderShare)}` : "")
+    if (a.top10Share > HIGHLY_CONCENTRATED_SHARE) {
+      return factor("holder-concentration", "Holder Concentration", -20, "negative", description)
+    }
+    if (a.top10Share > CONCENTRATED_SHARE) {
+      return factor("holder-concentration", "Holder Concentration", -10, "negative", description)
+    }
+    return factor("holder-concentration", "Holder Concentration", 10, "positive", description)
+  },
+  (a) => {
+    if (!a.deployer) {
+      return factor("deployer", "Deployer History", 0, "neutral", "Deployer could not be identified")
+    }
+    if (a.deployerFlag) {
+      return factor("deployer", "Deployer History", -40, "negative", `Deployer ${a.deployerFlag}`)
+    }
+    if (a.deployerShare !== null && a.deployerShare > DEPLOYER_HOLDING_SHARE) {
+      return factor(
+        "deployer",
+        "Deployer History",
+        -15,
+        "negative",
+        `Deployer and wallets it funded hold ${percent(a.deployerShare)} of supply`,
+      )
+    }
+    return factor("deployer", "Deployer History", 5, "positive", "Deployer is not flagged and holds little supply")
+  },
+  (a) => {
+    if (a.deployerOtherLaunches === null) {
+      return factor("deployer-launches", "Launch History", 0, "neutral", "Deployer launch history unavailable")
+    }
+    if (a.deployerOtherLaunches === 0) {
+      return factor("deployer-launches", "Launch History", 5, "positive", "First token from this deployer")
+    }
+    // Launching many tokens counts whether or not their prices could be
+    // checked; only launches known to have failed add to it
+    const failed = a.deployerFailedLaunches || 0
+    const unknown = a.deployerUnknownLaunches || 0
+    const impact = -Math.min(
+      (a.serialLauncher ? SERIAL_LAUNCHER_PENALTY : 0) + failed * FAILED_LAUNCH_PENALTY,
+      LAUNCH_HISTORY_CAP,
+    )
+    return factor(
+      "deployer-launches",
+      "Launch History",
+      impact,
+      impact < 0 ? "negative" : "neutral",
+      `Deployer launched ${a.deployerOtherLaunches} other token${a.deployerOtherLaunches === 1 ? "" : "s"}, ` +
+        `${failed} abandoned or rugged` +
+        (unknown > 0 ? `, ${unknown} unchecked as the price lookup failed` : "") +
+        (a.serialLauncher ? ": a serial launcher" : ""),
+    )
+  },
+  (a) => {
+    const pooled = a.liquidityPoolShare ? `, ${percent(a.liquidityPoolShare)} of supply in pools` : ""
+    if (a.priceUsd !== null) {
+      return factor("liquidity", "Liquidity", 10, "positive", `Traded at $${a.priceUsd.toPrecision(4)}${pooled}`)
+    }
+    if (!a.priceChecked) {
+      return factor("liquidity", "Liquidity", 0, "neutral", `Price lookup failed: liquidity unknown${pooled}`)
+    }
+    if (a.liquidityPoolShare) {
+      return factor("liquidity", "Liquidity", 0, "neutral", `No market price found${pooled}`)
+    }
+    return factor("liquidity", "Liquidity", -15, "negative", "No market price or pool found: no liquidity to sell into")
+  },
+  (a) =>
+    a.extensionRisks.length > 0
+      ? factor(
+          "extensions",
+          "Token-2022 Extensions",
+          -Math.min(a.extensionRisks.length * EXTENSION_RISK_PENALTY, EXTENSION_RISK_CAP),
+          "negative",
+          a.extensionRisks.join("; "),
+        )
+      : factor("extensions", "Token-2022 Extensions", 0, "neutral", "No dangerous extensions"),
+]
+
+// Scores a mint from its analysis. Pure, like calculateReputabilityScore.
+export function calculateTokenRiskScore(analysis: TokenRiskAnalysis): TokenRiskScore {
+  const factors = FACTORS.map((score) => score(analysis))
+  const total = factors.reduce((sum, scored) => sum + scored.impact, BASE_SCORE)
+  const score = Math.max(0, Math.min(100, Math.round(total)))
+
+  return {
+    score,
+    riskLevel: score >= LOW_RISK_SCORE ? "low" : score >= MEDIUM_RISK_SCORE ? "medium" : "high",
+    factors,
+    analysis,
+  }
+}
+
+// Gathers holders, deployer standing and launches, and market price for a
+// mint, then scores it. Lookups that fail leave their part of the analysis
+// unknown instead of failing it.
+export async function getTokenRiskReport(provider: ChainDataProvider, tokenInfo: TokenInfo): Promise<TokenRiskReport> {
+  const { deployer } = tokenInfo
+
+  const [distribution, profile, flagSets, prices] = await Promise.all([
+    getHolderDistribution(provider, tokenInfo).catch((error) => {
+      console.warn("Failed to analyze token holders:", error)
+      return null
+    }),
+    deployer
+      ? getDeployerProfile(provider, deployer).catch((error) => {
+          console.warn("Failed to profile deployer launches:", error)
+          return null
+        })
+      : null,
+    getActiveFlagSets(),
+    lookupTokenPrices([tokenInfo.mintAddress]),
+  ])
+  const known = distribution && distribution.supply > 0 && distribution.holders.length > 0 ? distribution : null
+  const largestHolder = known?.holders.find((holder) => holder.kind !== "lp-vault" && holder.kind !== "burn")
+
+  const otherLaunches = profile?.launches.filter((launch) => launch.mint !== tokenInfo.mintAddress) || null
+
+  let deployerFlag: string | null = null
+  if (deployer) {
+    const entity = getEntity(deployer)
+    if (flagSets.scamAddresses.has(deployer)) {
+      deployerFlag = "is on the scam list"
+    } else if (entity && FLAGGED_CATEGORIES.includes(entity.category)) {
+      deployerFlag = `is labeled ${entity.category.replace("_", " ")}`
+    }
+  }
+
+  const analysis: TokenRiskAnalysis = {
+    mintAddress: tokenInfo.mintAddress,
+    mintAuthorityActive: !!tokenInfo.mintAuthority,
+    freezeAuthorityActive: !!tokenInfo.freezeAuthority,
+    isMutable: tokenInfo.isMutable,
+    top10Share: known ? known.top10Share : null,
+    largestHolderShare: known ? largestHolder?.share || 0 : null,
+    deployer,
+    deployerFlag,
+    deployerShare: known ? known.deployerLinkedShare : null,
+    deployerOtherLaunches: otherLaunches ? otherLaunches.length : null,
+    deployerFailedLaunches: otherLaunches
+      ? otherLaunches.filter((launch) => launch.status === "abandoned" || launch.status === "rugged").length
+      : null,
+    deployerUnknownLaunches: otherLaunches
+      ? otherLaunches.filter((launch) => launch.status === "unknown").length
+      : null,
+    serialLauncher: !!profile?.serialLauncher,
+    priceUsd: prices.get(tokenInfo.mintAddress) ?? null,
+    priceChecked: prices.has(tokenInfo.mintAddress),
+    liquidityPoolShare: known ? known.liquidityPoolShare : null,
+    extensionRisks: tokenInfo.risks,
+  }
+
+  return { ...calculateTokenRiskScore(analysis), holders: distribution, deployerProfile: profile }
+}
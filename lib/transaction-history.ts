@@ -0,0 +1,230 @@
+import type { ChainDataProvider, EnhancedTransaction, SignatureInfo } from "@/lib/chain-data-provider"
+
+export interface HistoryOptions {
+  // Stop after this many transactions
+  maxTransactions?: number
+  // Stop at transactions older than this unix timestamp (seconds)
+  since?: number
+  // Start after this signature (exclusive), e.g. the last one already shown
+  before?: string
+  // Stop at this signature (exclusive)
+  until?: string
+  // Skip transactions after this point, for scoring a wallet as of a past date
+  asOf?: HistoryBoundary
+  pageSize?: number
+}
+
+// A point in the chain's history, by unix timestamp (seconds) and/or slot
+export interface HistoryBoundary {
+  timestamp?: number
+  slot?: number
+}
+
+export interface ResolvedBoundary {
+  // Cursor that starts a history walk at the boundary
+  before?: string
+  // Newest signature at or before the boundary, if the wallet had any activity by then
+  signature: string | null
+  slot: number | null
+  // The requested timestamp, or the block time at the boundary when given a slot
+  timestamp: number | null
+}
+
+// Hard ceiling so an unbounded walk of a very active wallet cannot run forever
+export const MAX_HISTORY_TRANSACTIONS = 5000
+const MAX_SIGNATURE_PAGES = 50
+
+function isAfter(boundary: HistoryBoundary, slot: number, timestamp: number | null) {
+  if (boundary.slot !== undefined && slot > boundary.slot) return true
+  return boundary.timestamp !== undefined && timestamp !== null && timestamp > boundary.timestamp
+}
+
+// Walk a wallet's enhanced transaction history newest-first, one provider page
+// at a time, using the last signature of each page as the next cursor.
+export async function* iterateTransactionHistory(
+  provider: ChainDataProvider,
+  address: string,
+  options: HistoryOptions = {},
+): AsyncGenerator<EnhancedTransaction> {
+  const maxTransactions = Math.min(options.maxTransactions || MAX_HISTORY_TRANSACTIONS, MAX_HISTORY_TRANSACTIONS)
+  const pageSize = Math.min(options.pageSize || 100, 100)
+  let before = options.before
+  let count = 0
+
+  while (count < maxTransactions) {
+    const page = await provider.getTransactionHistory(address, {
+      limit: Math.min(pageSize, maxTransactions - count),
+      before,
+      until: options.until,
+    })
+
+    if (page.length === 0) return
+
+    for (const tx of page) {
+      if (options.asOf && isAfter(options.asOf, tx.slot, tx.timestamp)) continue
+      if (options.since && tx.timestamp && tx.timestamp < options.since) return
+      yield tx
+      count++
+      if (count >= maxTransactions) return
+    }
+
+    const cursor = page[page.length - 1].signature
+    // A provider that ignores the cursor would otherwise loop on the same page
+    if (cursor === before) return
+    before = cursor
+  }
+}
+
+export async function collectTransactionHistory(
+  provider: ChainDataProvider,
+  address: string,
+  options: HistoryOptions = {},
+): Promise<EnhancedTransaction[]> {
+  const transactions: EnhancedTransaction[] = []
+  for await (const tx of iterateTransactionHistory(provider, address, options)) {
+    transactions.push(tx)
+  }
+  return transactions
+}
+
+// Time of the wallet's first on-chain activity (unix seconds), found by paging
+// signatures back to the oldest. Signature pages are cheap compared to full
+// transactions, so this covers far more history than the analysis window.
+// Returns null for a wallet with no history; for one older than we page, the
+// oldest time seen, which understates the real age.
+export async function getFirstActivityTime(provider: ChainDataProvider, address: string): Promise<number | null> {
+  let before: string | undefined
+  let oldest: number | null = null
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await provider.getSignaturesForAddress(address, { limit: 1000, before })
+    if (signatures.length === 0) return oldest
+
+    const last = signatures[signatures.length - 1]
+    if (last.blockTime) oldest = last.blockTime
+    if (signatures.length < 1000 || last.signature === before) return oldest
+
+    before = last.signature
+  }
+
+  return oldest
+}
+
+// Finds where a wallet's history stood at a past point by paging signatures
+// back to it, so the transaction walk can start there instead of at the head.
+export async function resolveHistoryBoundary(
+  provider: ChainDataProvider,
+  address: string,
+  boundary: HistoryBoundary,
+): Promise<ResolvedBoundary> {
+  let before: string | undefined
+  let lastAfter: SignatureInfo | null = null
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await provider.getSignaturesForAddress(address, { limit: 1000, before })
+
+    for (const info of signatures) {
+      if (isAfter(boundary, info.slot, info.blockTime)) {
+        lastAfter = info
+        continue
+      }
+      return {
+        before: lastAfter?.signature,
+        signature: info.signature,
+        slot: boundary.slot ?? info.slot,
+        timestamp: boundary.timestamp ?? info.blockTime,
+      }
+    }
+
+    const last = signatures[signatures.length - 1]
+    if (signatures.length < 1000 || last.signature === before) {
+      // No activity at or before the boundary
+      return {
+        before: lastAfter?.signature,
+        signature: null,
+        slot: boundary.slot ?? null,
+        timestamp: boundary.timestamp ?? null,
+      }
+    }
+    before = last.signature
+  }
+
+  throw new Error(`History of ${address} before the requested point is deeper than ${MAX_SIGNATURE_PAGES} pages`)
+}
+
+export interface OldestTransactions {
+  // Oldest first
+  transactions: EnhancedTransaction[]
+  // False when paging stopped before the start of the history, so these are
+  // only the oldest ones seen
+  complete: boolean
+}
+
+// A wallet's earliest transactions, found by paging signatures back like
+// getFirstActivityTime, and whether the walk reached the first of them.
+// `maxPages` shortens the walk for lookups that can give up on long histories.
+export async function getOldestHistory(
+  provider: ChainDataProvider,
+  address: string,
+  count = 10,
+  maxPages = MAX_SIGNATURE_PAGES,
+): Promise<OldestTransactions> {
+  let before: string | undefined
+  let oldest: SignatureInfo[] = []
+  let complete = false
+
+  for (let page = 0; page < Math.min(maxPages, MAX_SIGNATURE_PAGES); page++) {
+    const signatures = await provider.getSignaturesForAddress(address, { limit: 1000, before })
+
+    // The last page may hold fewer than `count`, so keep the tail of the previous one
+    oldest = [...oldest, ...signatures].slice(-count)
+
+    const last = signatures[signatures.length - 1]
+    if (signatures.length < 1000 || last.signature === before) {
+      complete = true
+      break
+    }
+    before = last.signature
+  }
+
+  if (oldest.length === 0) return { transactions: [], complete }
+  const transactions = await provider.parseTransactions(oldest.map((info) => info.signature))
+  return { transactions: transactions.sort((a, b) => a.slot - b.slot), complete }
+}
+
+// A wallet's earliest transactions, oldest first (see getOldestHistory). For a
+// wallet older than we page, these are the oldest ones seen.
+export async function getOldestTransactions(
+  provider: ChainDataProvider,
+  address: string,
+  count = 10,
+): Promise<EnhancedTransaction[]> {
+  return (await getOldestHistory(provider, address, count)).transactions
+}
+
+export interface Funding {
+  funder: string
+  signature: string
+  timestamp: number
+  // SOL
+  amount: number
+}
+
+// The first SOL a wallet received from someone else, from its oldest
+// transactions (see getOldestTransactions)
+export function findFirstFunding(oldest: EnhancedTransaction[], address: string): Funding | null {
+  for (const tx of oldest) {
+    const transfer = (tx.nativeTransfers || []).find(
+      (item: any) => item.toUserAccount === address && item.fromUserAccount !== address && item.amount > 0,
+    )
+    if (transfer) {
+      return {
+        funder: transfer.fromUserAccount,
+        signature: tx.signature,
+        timestamp: tx.timestamp,
+        amount: transfer.amount / 1e9,
+      }
+    }
+  }
+  return null
+}
@@ -0,0 +1,158 @@
+import { type ChainDataProvider, type EnhancedTransaction, getChainDataProvider } from "@/lib/chain-data-provider"
+import { MAX_RETRIES, isRateLimitError, retryDelay, sleep } from "@/lib/retry"
+
+// Signatures per JSON-RPC batch, and per Helius parse-transactions call (its maximum)
+const RPC_BATCH_SIZE = 50
+const PARSE_BATCH_SIZE = 100
+// Batches in flight at once, shared by every loader in the process
+const MAX_CONCURRENT_BATCHES = 4
+
+export interface LoaderStats {
+  transactions: number
+  batches: number
+  retries: number
+  // Wall-clock time with at least one load running, so loads that overlap
+  // are not counted twice
+  loadMs: number
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Minimal semaphore: tasks beyond the limit wait for a running one to finish,
+// which hands its slot straight to the next waiter
+let activeBatches = 0
+const waitingBatches: (() => void)[] = []
+
+async function withConcurrencyLimit<T>(task: () => Promise<T>): Promise<T> {
+  if (activeBatches >= MAX_CONCURRENT_BATCHES) {
+    await new Promise<void>((resolve) => waitingBatches.push(resolve))
+  } else {
+    activeBatches++
+  }
+
+  try {
+    return await task()
+  } finally {
+    const next = waitingBatches.shift()
+    if (next) next()
+    else activeBatches--
+  }
+}
+
+// Transactions currently being fetched by any loader, so concurrent analyses
+// of overlapping wallets share one request per signature
+const inFlight = new Map<string, Promise<any>>()
+
+// Loads transactions for one analysis in batches, with bounded concurrency,
+// exponential backoff on rate limits and deduplication of in-flight requests.
+// Create one per request; `stats` describes the work it did.
+export class TransactionLoader {
+  readonly stats: LoaderStats = { transactions: 0, batches: 0, retries: 0, loadMs: 0 }
+  private provider: ChainDataProvider
+  private activeLoads = 0
+  private busySince = 0
+
+  constructor(provider: ChainDataProvider = getChainDataProvider()) {
+    this.provider = provider
+  }
+
+  // Raw jsonParsed transactions, in signature order, null where not found
+  async loadTransactions(signatures: string[]): Promise<(any | null)[]> {
+    return this.load("getTransaction", signatures, RPC_BATCH_SIZE, (batch) => this.provider.getTransactions(batch))
+  }
+
+  // Enhanced transactions via the provider's parse endpoint, missing ones dropped
+  async loadEnhancedTransactions(signatures: string[]): Promise<EnhancedTransaction[]> {
+    const transactions = await this.load("parseTransactions", signatures, PARSE_BATCH_SIZE, async (batch) => {
+      const parsed = await this.provider.parseTransactions(batch)
+      const bySignature = new Map(parsed.map((tx) => [tx.signature, tx]))
+      return batch.map((signature) => bySignature.get(signature) ?? null)
+    })
+
+    return transactions.filter((tx): tx is EnhancedTransaction => tx !== null)
+  }
+
+  private async load(
+    kind: string,
+    signatures: string[],
+    batchSize: number,
+    fetchBatch: (batch: string[]) => Promise<(any | null)[]>,
+  ): Promise<(any | null)[]> {
+    if (this.activeLoads++ === 0) this.busySince = Date.now()
+    try {
+      return await this.loadBatches(kind, signatures, batchSize, fetchBatch)
+    } finally {
+      if (--this.activeLoads === 0) this.stats.loadMs += Date.now() - this.busySince
+    }
+  }
+
+  private async loadBatches(
+    kind: string,
+    signatures: string[],
+    batchSize: number,
+    fetchBatch: (batch: string[]) => Promise<(any | null)[]>,
+  ): Promise<(any | null)[]> {
+    const pending = new Map<string, Promise<any>>()
+    const toFetch: string[] = []
+
+    for (const signature of Array.from(new Set(signatures))) {
+      const existing = inFlight.get(`${kind}:${signature}`)
+      if (existing) {
+        pending.set(signature, existing)
+      } else {
+        toFetch.push(signature)
+      }
+    }
+
+    for (const batch of chunk(toFetch, batchSize)) {
+      const results = withConcurrencyLimit(() => this.fetchWithRetry(batch, fetchBatch))
+
+      batch.forEach((signature, index) => {
+        const key = `${kind}:${signature}`
+        const result = results.then((values) => values[index] ?? null)
+        inFlight.set(key, result)
+        pending.set(signature, result)
+        result.finally(() => inFlight.delete(key))
+      })
+    }
+
+    const loaded = new Map<string, any>()
+    await Promise.all(
+      Array.from(pending.entries()).map(async ([signature, result]) => loaded.set(signature, await result)),
+    )
+
+    this.stats.transactions += Array.from(loaded.values()).filter(Boolean).length
+
+    return signatures.map((signature) => loaded.get(signature) ?? null)
+  }
+
+  // A batch that still fails after retries resolves to nulls so one bad batch
+  // does not sink the whole analysis
+  private async fetchWithRetry(
+    batch: string[],
+    fetchBatch: (batch: string[]) => Promise<(any | null)[]>,
+  ): Promise<(any | null)[]> {
+    this.stats.batches++
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetchBatch(batch)
+      } catch (error) {
+        if (isRateLimitError(error) && attempt < MAX_RETRIES) {
+          this.stats.retries++
+          await sleep(retryDelay(attempt))
+          continue
+        }
+
+        console.warn(`Failed to load batch of ${batch.length} transactions:`, error)
+        return batch.map(() => null)
+      }
+    }
+  }
+}
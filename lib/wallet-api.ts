@@ -0,0 +1,70 @@
+import type { HeliusTransaction } from "@/lib/helius-api"
+import type { StakingProfile } from "@/lib/staking"
+import type { ApprovalAudit } from "@/lib/approvals"
+import type { DrainReport } from "@/lib/drain-detection"
+import type { DeployerProfile } from "@/lib/deployer-profile"
+
+export interface HistoryQuery {
+  before?: string
+  until?: string
+  // Unix timestamp (seconds); only transactions at or after it are returned
+  since?: number
+}
+
+// Browser-side client for the /api/wallet routes. Provider credentials stay on
+// the server; components only ever talk to our own API.
+export class WalletAPI {
+  private async get(path: string) {
+    const response = await fetch(path, {
+      headers: {
+        Accept: "application/json",
+      },
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null)
+      throw new Error(errorBody?.error || `API Error (${response.status})`)
+    }
+
+    return await response.json()
+  }
+
+  async getTransactionHistory(address: string, limit = 50, query: HistoryQuery = {}): Promise<HeliusTransaction[]> {
+    const params = new URLSearchParams({ limit: String(limit) })
+    if (query.before) params.set("before", query.before)
+    if (query.until) params.set("until", query.until)
+    if (query.since) params.set("since", String(query.since))
+
+    return this.get(`/api/wallet/${address}/transactions?${params.toString()}`)
+  }
+
+  async getBalances(address: string) {
+    return this.get(`/api/wallet/${address}/balances`)
+  }
+
+  async getAssetsByOwner(address: string, page = 1, limit = 20) {
+    return this.get(`/api/wallet/${address}/assets?page=${page}&limit=${limit}`)
+  }
+
+  async getAccountInfo(address: string) {
+    return this.get(`/api/wallet/${address}/account`)
+  }
+
+  async getStaking(address: string): Promise<StakingProfile> {
+    return this.get(`/api/wallet/${address}/staking`)
+  }
+
+  async getApprovals(address: string): Promise<ApprovalAudit> {
+    return this.get(`/api/wallet/${address}/approvals`)
+  }
+
+  async getIncidents(address: string): Promise<DrainReport & { transactionsScanned: number }> {
+    return this.get(`/api/wallet/${address}/incidents`)
+  }
+
+  async getLaunches(address: string): Promise<DeployerProfile> {
+    return this.get(`/api/wallet/${address}/launches`)
+  }
+}
+
+export const walletAPI = new WalletAPI()
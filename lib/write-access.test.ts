@@ -0,0 +1,45 @@
+import { after, test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+
+// Config is read at import time, so the routes are loaded after the env is set
+const dataDir = mkdtempSync(path.join(tmpdir(), "write-access-"))
+process.env.USER_DATA_DIR = dataDir
+process.env.WRITE_API_TOKEN = "test-write-token"
+
+after(() => rmSync(dataDir, { recursive: true, force: true }))
+
+const ADDRESS = "ScamwaLLetAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA"
+
+function postEntry(authorization?: string) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (authorization) headers.Authorization = authorization
+  return new NextRequest("http://localhost/api/lists", {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ address: ADDRESS, list: "scam", reason: "Drainer wallet", addedBy: "tester" }),
+  })
+}
+
+test("list writes without the write token are rejected", async () => {
+  const { POST } = await import("@/app/api/lists/route")
+
+  assert.equal((await POST(postEntry())).status, 401)
+  assert.equal((await POST(postEntry("Bearer wrong-write-token"))).status, 401)
+})
+
+test("list writes with the write token are stored", async () => {
+  const { GET, POST } = await import("@/app/api/lists/route")
+
+  const response = await POST(postEntry("Bearer test-write-token"))
+  assert.equal(response.status, 201)
+
+  const listed = await (await GET(new NextRequest("http://localhost/api/lists"))).json()
+  assert.deepEqual(
+    listed.entries.map((entry: { address: string }) => entry.address),
+    [ADDRESS],
+  )
+})
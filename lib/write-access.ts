@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { WRITE_API_TOKEN } from "@/lib/config"
+
+// Flag lists and labels feed every score, so their write routes check the
+// caller when WRITE_API_TOKEN is set. There are no user accounts: `addedBy` on
+// a list entry is whatever the caller says it is.
+export function checkWriteAccess(request: NextRequest): NextResponse | null {
+  if (!WRITE_API_TOKEN) return null
+
+  const header = request.headers.get("authorization") || ""
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ""))
+  const expected = Buffer.from(WRITE_API_TOKEN)
+  if (token.length === expected.length && timingSafeEqual(token, expected)) return null
+
+  return NextResponse.json({ error: "A valid write token is required" }, { status: 401 })
+}
@@ -0,0 +1,27 @@
+// Browser-side copy of the server's WRITE_API_TOKEN, entered on the flag lists
+// screen and sent with every list and label write
+const STORAGE_KEY = "writeApiToken"
+
+export function getWriteToken(): string {
+  if (typeof window === "undefined") return ""
+  return localStorage.getItem(STORAGE_KEY) || ""
+}
+
+export function setWriteToken(token: string) {
+  if (token) {
+    localStorage.setItem(STORAGE_KEY, token)
+  } else {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+}
+
+// Request headers for the lists and labels routes, with the caller's own
+// headers kept and the stored token added when there is one
+export function apiHeaders(headers?: HeadersInit): Headers {
+  const merged = new Headers({ Accept: "application/json", "Content-Type": "application/json" })
+  new Headers(headers).forEach((value, key) => merged.set(key, value))
+
+  const token = getWriteToken()
+  if (token && !merged.has("Authorization")) merged.set("Authorization", `Bearer ${token}`)
+  return merged
+}
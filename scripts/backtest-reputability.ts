@@ -0,0 +1,92 @@
+// Backtests reputability scoring models against a labeled address dataset,
+// replaying recorded provider fixtures so no network access is needed.
+//
+//   pnpm backtest --dataset labels.json --fixtures fixtures --models default,conservative --out reports
+//
+// The dataset is JSON ({ "asOf": "2025-03-01", "addresses": [{ "address": "...", "label": "bad" }] })
+// or CSV with address and label columns. Record fixtures first by running the
+// app with CHAIN_DATA_RECORD_DIR set and scoring each address once.
+import { promises as fs } from "fs"
+import path from "path"
+import { FixtureProvider } from "@/lib/fixture-provider"
+import { analyzeWallet } from "@/lib/reputability"
+import { getScoringModel } from "@/lib/scoring-model-registry"
+import {
+  type BacktestReport,
+  type SampleLabel,
+  evaluateModel,
+  parseDataset,
+  renderBacktestHtml,
+} from "@/lib/backtest"
+
+function readArgs(argv: string[]) {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[i + 1] ?? ""
+  }
+  return args
+}
+
+async function main() {
+  const args = readArgs(process.argv.slice(2))
+  if (!args.dataset) {
+    throw new Error("Usage: backtest --dataset <file> [--fixtures <dir>] [--models a,b] [--out <dir>]")
+  }
+
+  const dataset = parseDataset(await fs.readFile(args.dataset, "utf8"), args.dataset.endsWith(".csv") ? "csv" : "json")
+  const provider = new FixtureProvider(args.fixtures || "fixtures")
+  const models = (args.models || "default").split(",").map((name) => getScoringModel(name.trim()))
+  const asOfTime = dataset.asOf ? Math.floor(new Date(dataset.asOf).getTime() / 1000) : undefined
+
+  // Each wallet is analyzed once; every model then scores the same analysis
+  const analyses: { address: string; label: SampleLabel; walletAnalysis: any }[] = []
+  const skipped: { address: string; error: string }[] = []
+  for (const { address, label } of dataset.addresses) {
+    // Unrecorded addresses would replay as brand-new empty wallets
+    if (!(await provider.hasFixture("getSignaturesForAddress", address))) {
+      skipped.push({ address, error: "No recorded signatures" })
+      continue
+    }
+
+    try {
+      const { walletAnalysis } = await analyzeWallet(address, { asOfTime }, provider)
+      analyses.push({ address, label, walletAnalysis })
+    } catch (error) {
+      skipped.push({ address, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const report: BacktestReport = {
+    generatedAt: new Date().toISOString(),
+    dataset: {
+      good: analyses.filter((analysis) => analysis.label === "good").length,
+      bad: analyses.filter((analysis) => analysis.label === "bad").length,
+      skipped,
+    },
+    asOf: dataset.asOf || null,
+    evaluations: models.map((model) => evaluateModel(analyses, model)),
+  }
+
+  const outDir = args.out || "reports"
+  const baseName = `backtest-${report.generatedAt.replace(/[:.]/g, "-")}`
+  await fs.mkdir(outDir, { recursive: true })
+  await fs.writeFile(path.join(outDir, `${baseName}.json`), JSON.stringify(report, null, 2))
+  await fs.writeFile(path.join(outDir, `${baseName}.html`), renderBacktestHtml(report))
+
+  for (const evaluation of report.evaluations) {
+    const thresholds = evaluation.thresholds
+      .map(
+        (metrics) =>
+          `<${metrics.threshold}${metrics.modelThreshold ? " (model)" : ""} ` +
+          `P=${metrics.precision.toFixed(2)} R=${metrics.recall.toFixed(2)}`,
+      )
+      .join("  ")
+    console.log(`${evaluation.model.padEnd(20)} AUC=${evaluation.auc.toFixed(3)}  ${thresholds}`)
+  }
+  console.log(`Report written to ${path.join(outDir, baseName)}.{json,html}`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})